@@ -5,9 +5,12 @@
  * This file serves as the central hub for:
  * 
  * 1. SpacetimeDB Connection Management:
- *    - Establishes and maintains WebSocket connection
- *    - Handles authentication and identity
- *    - Subscribes to database tables
+ *    - Establishes and maintains WebSocket connection (target from utils/connectionConfig)
+ *    - Handles authentication and identity (token persisted in localStorage)
+ *    - Reconnects with exponential backoff (a limited number of times) and re-registers the player;
+ *      a rejected saved token is dropped and a ban stops reconnecting
+ *    - Subscribes to database tables; player rows only for the area of interest
+ *      around the local player (utils/interest.ts), re-scoped when it changes cell
  *    - Processes real-time updates
  * 
  * 2. Player Input Handling:
@@ -16,21 +19,25 @@
  *    - Animation state determination
  *    - Camera/rotation management with pointer lock
  * 
- * 3. Game Loop:
- *    - Sends player input to server at appropriate intervals
+ * 3. Input Tick:
+ *    - Samples input at INPUT_TICK_RATE (utils/inputBatcher.ts) rather than every frame
+ *    - Sends changed samples to the server in batches via update_player_inputs
  *    - Updates local state based on server responses
- *    - Manages the requestAnimationFrame cycle
  * 
  * 4. UI Management:
  *    - Renders GameScene (3D view)
  *    - Controls DebugPanel visibility
  *    - Manages JoinGameDialog for player registration
+ *    - Shows the match banner, and the ResultsScreen instead of JoinGameDialog between rounds
+ *    - Shows the Scoreboard while Tab is held and reports ping for it
+ *    - Shows the ChatBox; Enter opens it and suspends game key handling while typing
+ *    - Shows the EmoteWheel while G is held and passes chat speech bubbles to GameScene
  *    - Displays connection status
  * 
  * Extension points:
  *    - Add new input types in currentInputRef and InputState
  *    - Extend determineAnimation for new animation states
- *    - Add new reducers calls for game features (see handleCastSpellInput)
+ *    - Add new reducers calls for game features (see performCombatAction)
  *    - Modify game loop timing or prediction logic
  * 
  * Related files:
@@ -40,15 +47,33 @@
  *    - generated/: Auto-generated TypeScript bindings from the server
  */
 
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import './App.css';
 import { Identity } from '@clockworklabs/spacetimedb-sdk';
 import * as moduleBindings from './generated';
 import { DebugPanel } from './components/DebugPanel';
 import { GameScene } from './components/GameScene';
-import { JoinGameDialog } from './components/JoinGameDialog';
+import { JoinGameDialog, RegistrationRejection } from './components/JoinGameDialog';
+import { MatchStatus } from './components/MatchStatus';
+import { ResultsScreen } from './components/ResultsScreen';
+import { Scoreboard } from './components/Scoreboard';
+import { ChatBox } from './components/ChatBox';
+import { EmoteWheel } from './components/EmoteWheel';
 import * as THREE from 'three';
 import { PlayerUI } from './components/PlayerUI';
+import { DEFAULT_INTERPOLATION_DELAY_MS, recordSnapshot, removeSnapshots, clearSnapshots, shouldRecordSnapshot } from './utils/snapshotInterpolation';
+import { getConnectionConfig, loadAuthToken, saveAuthToken, clearAuthToken, isRejectedTokenError, getReconnectDelayMs, MAX_RECONNECT_ATTEMPTS } from './utils/connectionConfig';
+import { CombatAction, findCombatTarget } from './utils/combatTargeting';
+import { MATCH_STATES, getCurrentMatch } from './utils/matchState';
+import { groupLeaderboards } from './utils/leaderboards';
+import { CHAT_CHANNELS, ChatLine, byTimeSent, parseChatInput } from './utils/chat';
+import { EMOTES, EMOTE_WHEEL_KEY } from './utils/emotes';
+import { cellOf, localPlayerQuery, playerCellQueries } from './utils/interest';
+import { ScopedSubscriptions } from './utils/scopedSubscriptions';
+import { InputBatcher, INPUT_TICK_MS } from './utils/inputBatcher';
+import { localRateLimitQuery } from './utils/rateLimits';
+import { EMPTY_OWNER_COLORS, OwnerColors, withPlayerColor, withTeamColor } from './utils/territory';
+import { AdminActions } from './components/AdminPanel';
 
 // Type Aliases
 type DbConnection = moduleBindings.DbConnection;
@@ -56,10 +81,30 @@ type EventContext = moduleBindings.EventContext;
 type ErrorContext = moduleBindings.ErrorContext;
 type PlayerData = moduleBindings.PlayerData;
 type InputState = moduleBindings.InputState;
+type ServerConfig = moduleBindings.ServerConfig;
+type CombatEvent = moduleBindings.CombatEvent;
+type CaptureProgress = moduleBindings.CaptureProgress;
+type Team = moduleBindings.Team;
+type GameMatch = moduleBindings.GameMatch;
+type MatchResult = moduleBindings.MatchResult;
+type PlayerProfile = moduleBindings.PlayerProfile;
+type LeaderboardEntry = moduleBindings.LeaderboardEntry;
+type ChatMessage = moduleBindings.ChatMessage;
+type PrivateChatMessage = moduleBindings.PrivateChatMessage;
+type CharacterClass = moduleBindings.CharacterClass;
+type PlayerSummary = moduleBindings.PlayerSummary;
+type RateLimitBudget = moduleBindings.RateLimitBudget;
+type RateLimitBucket = moduleBindings.RateLimitBucket;
+type Admin = moduleBindings.Admin;
+type ChatMute = moduleBindings.ChatMute;
+type Vector3 = moduleBindings.Vector3;
+type ReducerEventContext = moduleBindings.ReducerEventContext;
 // ... other types ...
 
 let conn: DbConnection | null = null;
 
+const PING_INTERVAL_MS = 2000; // How often report_ping is sent (each call measures the next ping)
+
 // Add a global declaration to make the connection available to other components
 declare global {
   var conn: moduleBindings.DbConnection | null;
@@ -69,11 +114,35 @@ function App() {
   const [connected, setConnected] = useState(false);
   const [identity, setIdentity] = useState<Identity | null>(null);
   const [statusMessage, setStatusMessage] = useState("Connecting...");
-  const [players, setPlayers] = useState<ReadonlyMap<string, PlayerData>>(new Map());
+  const [players, setPlayers] = useState<ReadonlyMap<string, PlayerData>>(new Map()); // Only players in the area of interest
+  const [playerSummaries, setPlayerSummaries] = useState<ReadonlyMap<string, PlayerSummary>>(new Map()); // Every active player
   const [localPlayer, setLocalPlayer] = useState<PlayerData | null>(null);
   const [showJoinDialog, setShowJoinDialog] = useState(false);
+  const [joinRejection, setJoinRejection] = useState<RegistrationRejection | null>(null); // Shown in the join dialog
   const [isDebugPanelExpanded, setIsDebugPanelExpanded] = useState(false);
   const [isPointerLocked, setIsPointerLocked] = useState(false); // State for pointer lock status
+  const [serverConfig, setServerConfig] = useState<ServerConfig | null>(null); // Server tuning (tick rate, ...)
+  const [interpolationDelayMs, setInterpolationDelayMs] = useState(DEFAULT_INTERPOLATION_DELAY_MS); // Remote player render delay
+  const [lastHits, setLastHits] = useState<ReadonlyMap<string, CombatEvent>>(new Map()); // Latest combat event per target
+  const [localCapture, setLocalCapture] = useState<CaptureProgress | null>(null); // Square the local player is capturing
+  const [teams, setTeams] = useState<ReadonlyMap<number, Team>>(new Map()); // Team id -> team
+  const [ownerColors, setOwnerColors] = useState<OwnerColors>(EMPTY_OWNER_COLORS); // Territory colors, replaced only when one changes
+  const [currentMatch, setCurrentMatch] = useState<GameMatch | null>(null); // Highest-id game_match row
+  const [matchResults, setMatchResults] = useState<MatchResult[]>([]); // Results of the current match once finished
+  const [localProfile, setLocalProfile] = useState<PlayerProfile | null>(null); // Lifetime stats for the join dialog
+  const [leaderboards, setLeaderboards] = useState<ReadonlyMap<string, LeaderboardEntry[]>>(new Map()); // Entries per board, by rank
+  const [showScoreboard, setShowScoreboard] = useState(false); // While Tab is held
+  const [chatMessages, setChatMessages] = useState<ChatLine[]>([]); // Server-bounded history, oldest first
+  const [chatOpen, setChatOpen] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null); // Last rejected send
+  const [chatBubbles, setChatBubbles] = useState<ReadonlyMap<string, ChatLine>>(new Map()); // Latest live message per sender
+  const [showEmoteWheel, setShowEmoteWheel] = useState(false); // While G is held
+  const [characterClasses, setCharacterClasses] = useState<ReadonlyMap<string, CharacterClass>>(new Map()); // Class name -> stats
+  const [rateLimitBudgets, setRateLimitBudgets] = useState<ReadonlyMap<string, RateLimitBudget>>(new Map()); // Reducer -> budget
+  const [rateLimitBuckets, setRateLimitBuckets] = useState<ReadonlyMap<string, RateLimitBucket>>(new Map()); // Reducer -> local bucket
+  const [adminIdentities, setAdminIdentities] = useState<ReadonlySet<string>>(new Set()); // Identity hexes in the admin table
+  const [mutedPlayers, setMutedPlayers] = useState<ReadonlySet<string>>(new Set()); // Identity hexes with a chat_mute row
+  const [adminError, setAdminError] = useState<string | null>(null); // Last rejected admin action
 
   // --- Ref for current input state ---
   const currentInputRef = useRef<InputState>({
@@ -81,11 +150,41 @@ function App() {
     sprint: false, jump: false, attack: false, castSpell: false,
     sequence: 0,
   });
-  const lastSentInputState = useRef<Partial<InputState>>({});
-  const animationFrameIdRef = useRef<number | null>(null); // For game loop
+  const inputBatcherRef = useRef(new InputBatcher()); // Changed input samples waiting to be sent
 
   // New import for handling player rotation data
   const playerRotationRef = useRef<THREE.Euler>(new THREE.Euler(0, 0, 0, 'YXZ'));
+  const playerPositionRef = useRef<THREE.Vector3 | null>(null); // Predicted by Player, reported with each input batch
+
+  // --- Connection/session refs ---
+  // Table callbacks are registered once per connection, so they read identity from a ref
+  const identityRef = useRef<Identity | null>(null);
+  const lastRegistrationRef = useRef<{ username: string; characterClass: string; teamId?: number } | null>(null); // Re-sent after reconnect
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const bannedReasonRef = useRef<string | null>(null); // Set when an admin bans us; identity_connected refuses every reconnect
+  const pingSentAtRef = useRef<number | null>(null); // performance.now() of the outstanding report_ping
+  const lastPingMsRef = useRef(0);
+  const chatOpenRef = useRef(false); // Mirrors chatOpen for the window key listeners
+  const emoteWheelOpenRef = useRef(false); // Mirrors showEmoteWheel for the window key listeners
+  const playerSubscriptionsRef = useRef<ScopedSubscriptions | null>(null); // Player cells around the local player
+
+  const isLocalIdentity = (id: Identity): boolean =>
+    identityRef.current !== null && id.toHexString() === identityRef.current.toHexString();
+
+  // Input is locked while dead (the server ignores it too)
+  const isLocalPlayerDead = (): boolean => {
+    if (!conn || !identityRef.current) return false;
+    return conn.db.player.identity.find(identityRef.current)?.isDead ?? false;
+  };
+
+  // Release every held key/button, e.g. on death so nothing is still pressed after respawn
+  const clearHeldInput = () => {
+    const input = currentInputRef.current;
+    for (const key of Object.keys(input) as (keyof InputState)[]) {
+      if (key !== 'sequence') input[key] = false;
+    }
+  };
 
   // --- Moved Table Callbacks/Subscription Functions Up ---
   const registerTableCallbacks = useCallback(() => {
@@ -94,38 +193,258 @@ function App() {
 
     conn.db.player.onInsert((_ctx: EventContext, player: PlayerData) => {
         console.log("Player inserted (callback):", player.identity.toHexString());
+        // Only remote players are interpolated; the local one is predicted
+        if (!isLocalIdentity(player.identity)) recordSnapshot(player);
         setPlayers((prev: ReadonlyMap<string, PlayerData>) => new Map(prev).set(player.identity.toHexString(), player));
-        if (identity && player.identity.toHexString() === identity.toHexString()) {
+        if (isLocalIdentity(player.identity)) {
             setLocalPlayer(player);
             setStatusMessage(`Registered as ${player.username}`);
         }
     });
 
-    conn.db.player.onUpdate((_ctx: EventContext, _oldPlayer: PlayerData, newPlayer: PlayerData) => {
+    conn.db.player.onUpdate((_ctx: EventContext, oldPlayer: PlayerData, newPlayer: PlayerData) => {
+        // Don't interpolate across a server teleport (e.g. respawn)
+        const teleported = newPlayer.isTeleporting && !oldPlayer.isTeleporting;
+        if (teleported) {
+            removeSnapshots(newPlayer.identity.toHexString());
+        }
+        // Feed the remote interpolation buffer with updates that move or turn the player
+        if (!isLocalIdentity(newPlayer.identity) && (teleported || shouldRecordSnapshot(oldPlayer, newPlayer))) {
+            recordSnapshot(newPlayer);
+        }
         setPlayers((prev: ReadonlyMap<string, PlayerData>) => {
             const newMap = new Map(prev);
             newMap.set(newPlayer.identity.toHexString(), newPlayer);
             return newMap;
         });
-        if (identity && newPlayer.identity.toHexString() === identity.toHexString()) {
+        if (isLocalIdentity(newPlayer.identity)) {
             setLocalPlayer(newPlayer);
+            if (newPlayer.isDead && !oldPlayer.isDead) {
+                clearHeldInput();
+            }
         }
     });
 
-    conn.db.player.onDelete((_ctx: EventContext, player: PlayerData) => {
+    conn.db.player.onDelete((ctx: EventContext, player: PlayerData) => {
         console.log("Player deleted (callback):", player.identity.toHexString());
+        removeSnapshots(player.identity.toHexString());
         setPlayers((prev: ReadonlyMap<string, PlayerData>) => {
             const newMap = new Map(prev);
             newMap.delete(player.identity.toHexString());
             return newMap;
         });
-        if (identity && player.identity.toHexString() === identity.toHexString()) {
+        if (isLocalIdentity(player.identity)) {
             setLocalPlayer(null);
-            setStatusMessage("Local player deleted!");
+            // Removed by an admin: back to the join dialog with the reason (a ban also blocks rejoining).
+            // Events carry the module's snake_case reducer name, not the generated PascalCase one.
+            const reducer = ctx.event.tag === 'Reducer' ? ctx.event.value.reducer : null;
+            const reducerName: string | undefined = reducer?.name;
+            if (reducerName === 'kick_player' || reducerName === 'ban_player') {
+                const banReason = reducerName === 'ban_player' ? (reducer?.args as moduleBindings.BanPlayer).reason : '';
+                const error = reducerName === 'kick_player'
+                    ? 'You were kicked by an admin'
+                    : banReason ? `You have been banned: ${banReason}` : 'You have been banned';
+                if (reducerName === 'ban_player') bannedReasonRef.current = error;
+                setStatusMessage(error);
+                lastRegistrationRef.current = null; // Don't rejoin automatically after a reconnect
+                setJoinRejection({ username: player.username, error });
+                setShowJoinDialog(true);
+            } else {
+                setStatusMessage("Local player deleted!");
+            }
+        }
+    });
+    conn.db.serverConfig.onInsert((_ctx: EventContext, config: ServerConfig) => setServerConfig(config));
+    conn.db.serverConfig.onUpdate((_ctx: EventContext, _oldConfig: ServerConfig, newConfig: ServerConfig) => setServerConfig(newConfig));
+    conn.db.serverConfig.onDelete(() => setServerConfig(null));
+
+    // Teams are a handful of rows that rarely change
+    const refreshTeams = () => {
+        if (conn) setTeams(new Map(Array.from(conn.db.team.iter(), (team: Team) => [team.id, team])));
+    };
+    conn.db.team.onInsert((_ctx: EventContext, team: Team) => {
+        refreshTeams();
+        setOwnerColors((prev: OwnerColors) => withTeamColor(prev, team.id, team.color));
+    });
+    conn.db.team.onUpdate((_ctx: EventContext, _oldTeam: Team, newTeam: Team) => {
+        refreshTeams();
+        setOwnerColors((prev: OwnerColors) => withTeamColor(prev, newTeam.id, newTeam.color));
+    });
+    conn.db.team.onDelete((_ctx: EventContext, team: Team) => {
+        refreshTeams();
+        setOwnerColors((prev: OwnerColors) => withTeamColor(prev, team.id, undefined));
+    });
+
+    // Summaries only change on joins, kills, ping reports and captures
+    const refreshPlayerSummaries = () => {
+        if (conn) setPlayerSummaries(new Map(Array.from(conn.db.playerSummary.iter(), (summary: PlayerSummary) => [summary.identity.toHexString(), summary])));
+    };
+    // Owner colors are only replaced (repainting the grid) when a color actually changed
+    conn.db.playerSummary.onInsert((_ctx: EventContext, summary: PlayerSummary) => {
+        refreshPlayerSummaries();
+        setOwnerColors((prev: OwnerColors) => withPlayerColor(prev, summary.identity.toHexString(), summary.color));
+    });
+    conn.db.playerSummary.onUpdate((_ctx: EventContext, _oldSummary: PlayerSummary, newSummary: PlayerSummary) => {
+        refreshPlayerSummaries();
+        setOwnerColors((prev: OwnerColors) => withPlayerColor(prev, newSummary.identity.toHexString(), newSummary.color));
+    });
+    conn.db.playerSummary.onDelete((_ctx: EventContext, summary: PlayerSummary) => {
+        refreshPlayerSummaries();
+        setOwnerColors((prev: OwnerColors) => withPlayerColor(prev, summary.identity.toHexString(), undefined));
+    });
+
+    // The server keeps only the current match (and its results), so these stay small
+    const refreshMatch = () => {
+        if (!conn) return;
+        const match = getCurrentMatch(conn.db.gameMatch.iter());
+        setCurrentMatch(match);
+        setMatchResults(match ? Array.from(conn.db.matchResult.iter()).filter((result: MatchResult) => result.matchId === match.id) : []);
+    };
+    conn.db.gameMatch.onInsert(refreshMatch);
+    conn.db.gameMatch.onUpdate(refreshMatch);
+    conn.db.gameMatch.onDelete(refreshMatch);
+    conn.db.matchResult.onInsert(refreshMatch);
+    conn.db.matchResult.onDelete(refreshMatch);
+
+    conn.db.playerProfile.onInsert((_ctx: EventContext, profile: PlayerProfile) => {
+        if (isLocalIdentity(profile.identity)) setLocalProfile(profile);
+    });
+    conn.db.playerProfile.onUpdate((_ctx: EventContext, _oldProfile: PlayerProfile, newProfile: PlayerProfile) => {
+        if (isLocalIdentity(newProfile.identity)) setLocalProfile(newProfile);
+    });
+
+    const refreshLeaderboards = () => {
+        if (conn) setLeaderboards(groupLeaderboards(conn.db.leaderboardEntry.iter()));
+    };
+    conn.db.leaderboardEntry.onInsert(refreshLeaderboards);
+    conn.db.leaderboardEntry.onUpdate(refreshLeaderboards);
+    conn.db.leaderboardEntry.onDelete(refreshLeaderboards);
+
+    // A handful of rows, edited only by operators
+    const refreshClasses = () => {
+        if (conn) setCharacterClasses(new Map(Array.from(conn.db.characterClass.iter(), (characterClass: CharacterClass) => [characterClass.name, characterClass])));
+    };
+    conn.db.characterClass.onInsert(refreshClasses);
+    conn.db.characterClass.onUpdate(refreshClasses);
+    conn.db.characterClass.onDelete(refreshClasses);
+
+    // Budgets are edited only by operators; only the local identity's buckets are subscribed
+    const refreshRateLimits = () => {
+        if (!conn) return;
+        setRateLimitBudgets(new Map(Array.from(conn.db.rateLimitBudget.iter(), (budget: RateLimitBudget) => [budget.reducer, budget])));
+        setRateLimitBuckets(new Map(Array.from(conn.db.rateLimitBucket.iter(), (bucket: RateLimitBucket) => [bucket.reducer, bucket])));
+    };
+    conn.db.rateLimitBudget.onInsert(refreshRateLimits);
+    conn.db.rateLimitBudget.onUpdate(refreshRateLimits);
+    conn.db.rateLimitBudget.onDelete(refreshRateLimits);
+    conn.db.rateLimitBucket.onInsert(refreshRateLimits);
+    conn.db.rateLimitBucket.onUpdate(refreshRateLimits);
+    conn.db.rateLimitBucket.onDelete(refreshRateLimits);
+
+    // Admins are added by the module owner; mutes by admins
+    const refreshAdmins = () => {
+        if (conn) setAdminIdentities(new Set(Array.from(conn.db.admin.iter(), (admin: Admin) => admin.identity.toHexString())));
+    };
+    conn.db.admin.onInsert(refreshAdmins);
+    conn.db.admin.onDelete(refreshAdmins);
+    const refreshMutes = () => {
+        if (conn) setMutedPlayers(new Set(Array.from(conn.db.chatMute.iter(), (mute: ChatMute) => mute.identity.toHexString())));
+    };
+    conn.db.chatMute.onInsert(refreshMutes);
+    conn.db.chatMute.onDelete(refreshMutes);
+
+    // Global messages plus our own team and whisper rows (the server only sends us those),
+    // each pruned by the server to the configured history size
+    const refreshChat = () => {
+        if (conn) setChatMessages([...conn.db.chatMessage.iter(), ...conn.db.privateChatMessage.iter()].sort(byTimeSent));
+    };
+    conn.db.chatMessage.onInsert(refreshChat);
+    conn.db.chatMessage.onDelete(refreshChat);
+    conn.db.privateChatMessage.onInsert(refreshChat);
+    conn.db.privateChatMessage.onDelete(refreshChat);
+
+    // Live messages also show as a speech bubble over the sender (never whispers)
+    const showChatBubble = (ctx: EventContext, message: ChatLine) => {
+        if (ctx.event.tag === 'SubscribeApplied' || message.channel === CHAT_CHANNELS.whisper) return;
+        setChatBubbles((prev: ReadonlyMap<string, ChatLine>) => new Map(prev).set(message.sender.toHexString(), message));
+    };
+    conn.db.chatMessage.onInsert((ctx: EventContext, message: ChatMessage) => showChatBubble(ctx, message));
+    conn.db.privateChatMessage.onInsert((ctx: EventContext, message: PrivateChatMessage) => showChatBubble(ctx, message));
+
+    conn.db.captureProgress.onInsert((_ctx: EventContext, progress: CaptureProgress) => {
+        if (isLocalIdentity(progress.identity)) setLocalCapture(progress);
+    });
+    conn.db.captureProgress.onUpdate((_ctx: EventContext, _oldProgress: CaptureProgress, newProgress: CaptureProgress) => {
+        if (isLocalIdentity(newProgress.identity)) setLocalCapture(newProgress);
+    });
+    conn.db.captureProgress.onDelete((_ctx: EventContext, progress: CaptureProgress) => {
+        if (isLocalIdentity(progress.identity)) setLocalCapture(null);
+    });
+
+    conn.db.combatEvent.onInsert((ctx: EventContext, event: CombatEvent) => {
+        // Rows delivered with the initial subscription are old news; only react to live hits
+        if (ctx.event.tag === 'SubscribeApplied') return;
+        setLastHits((prev: ReadonlyMap<string, CombatEvent>) => new Map(prev).set(event.target.toHexString(), event));
+    });
+
+    // Why our own call was refused, if it was
+    const localCallError = (ctx: ReducerEventContext): string | null => {
+        if (!isLocalIdentity(ctx.event.callerIdentity)) return null;
+        return ctx.event.status.tag === 'Failed' ? ctx.event.status.value : null;
+    };
+
+    // Combat reducers reject out-of-range, on-cooldown and out-of-mana actions
+    const logCombatFailure = (ctx: ReducerEventContext) => {
+        const error = localCallError(ctx);
+        if (error) {
+            console.warn(`[COMBAT] ${ctx.event.reducer.name} rejected: ${error}`);
+        }
+    };
+    conn.reducers.onAttack(logCombatFailure);
+    conn.reducers.onCastSpell(logCombatFailure);
+
+    // Our own report_ping coming back completes a round trip
+    conn.reducers.onReportPing((ctx: ReducerEventContext) => {
+        if (!isLocalIdentity(ctx.event.callerIdentity) || pingSentAtRef.current === null) return;
+        lastPingMsRef.current = Math.round(performance.now() - pingSentAtRef.current);
+        pingSentAtRef.current = null;
+    });
+
+    // Rate limit, length and recipient errors for our own messages
+    conn.reducers.onSendChatMessage((ctx: ReducerEventContext) => {
+        if (!isLocalIdentity(ctx.event.callerIdentity)) return;
+        setChatError(localCallError(ctx));
+    });
+
+    // A rejected name (invalid or taken) reopens the join dialog with the server's reason
+    conn.reducers.onRegisterPlayer((ctx: ReducerEventContext, username: string) => {
+        const error = localCallError(ctx);
+        if (!error) return;
+        console.warn(`Registration as ${username} rejected: ${error}`);
+        lastRegistrationRef.current = null; // Don't retry it after a reconnect
+        setJoinRejection({ username, error });
+        setShowJoinDialog(true);
+    });
+
+    // Errors from our own admin actions (shown in the Admin tab)
+    const trackAdminResult = (ctx: ReducerEventContext) => {
+        if (!isLocalIdentity(ctx.event.callerIdentity)) return;
+        setAdminError(ctx.event.status.tag === 'Failed' ? ctx.event.status.value : null);
+    };
+    conn.reducers.onKickPlayer(trackAdminResult);
+    conn.reducers.onBanPlayer(trackAdminResult);
+    conn.reducers.onMutePlayer(trackAdminResult);
+    conn.reducers.onResetGrid(trackAdminResult);
+    conn.reducers.onTeleportPlayer(trackAdminResult);
+
+    conn.reducers.onPlayEmote((ctx: ReducerEventContext) => {
+        const error = localCallError(ctx);
+        if (error) {
+            console.warn(`[EMOTE] play_emote rejected: ${error}`);
         }
     });
     console.log("Table callbacks registered.");
-  }, [identity]); // Keep identity dependency
+  }, []);
 
   const onSubscriptionApplied = useCallback(() => {
      console.log("Subscription applied successfully.");
@@ -133,8 +452,8 @@ function App() {
          if (prev.size === 0 && conn) {
              const currentPlayers = new Map<string, PlayerData>();
              for (const player of conn.db.player.iter()) {
-                 currentPlayers.set(player.identity.toHexString(), player);
-                 if (identity && player.identity.toHexString() === identity.toHexString()) {
+                 currentPlayers.set(player.identity.toHexString(), player); // onInsert already recorded its snapshot
+                 if (isLocalIdentity(player.identity)) {
                      setLocalPlayer(player);
                  }
              }
@@ -142,7 +461,7 @@ function App() {
          }
          return prev;
      });
-  }, [identity]); // Keep identity dependency
+  }, []);
 
   const onSubscriptionError = useCallback((error: any) => {
       console.error("Subscription error:", error);
@@ -153,11 +472,30 @@ function App() {
     if (!conn) return;
     console.log("Subscribing to tables...");
     const subscription = conn.subscriptionBuilder();
-    subscription.subscribe("SELECT * FROM player");
-    subscription.subscribe("SELECT * FROM grid_square");
+    // Other players come from the area-of-interest cell subscriptions (see the effect below)
+    if (identityRef.current) {
+        subscription.subscribe(localPlayerQuery(identityRef.current));
+        subscription.subscribe(localRateLimitQuery(identityRef.current));
+    }
+    subscription.subscribe("SELECT * FROM player_summary");
+    subscription.subscribe("SELECT * FROM server_config");
+    subscription.subscribe("SELECT * FROM combat_event");
+    subscription.subscribe("SELECT * FROM capture_progress");
+    subscription.subscribe("SELECT * FROM team");
+    subscription.subscribe("SELECT * FROM game_match");
+    subscription.subscribe("SELECT * FROM match_result");
+    subscription.subscribe("SELECT * FROM player_profile");
+    subscription.subscribe("SELECT * FROM leaderboard_entry");
+    subscription.subscribe("SELECT * FROM chat_message");
+    subscription.subscribe("SELECT * FROM private_chat_message"); // Filtered to our rows by the server
+    subscription.subscribe("SELECT * FROM character_class");
+    subscription.subscribe("SELECT * FROM rate_limit_budget");
+    subscription.subscribe("SELECT * FROM admin");
+    subscription.subscribe("SELECT * FROM chat_mute");
     subscription.onApplied(onSubscriptionApplied);
     subscription.onError(onSubscriptionError);
-  }, [identity, onSubscriptionApplied, onSubscriptionError]); // Add dependencies
+    playerSubscriptionsRef.current = new ScopedSubscriptions(conn, 'Player cell');
+  }, [onSubscriptionApplied, onSubscriptionError]);
 
   // --- Event Handlers ---
   const handleDelegatedClick = useCallback((event: MouseEvent) => {
@@ -172,7 +510,7 @@ function App() {
   // --- Input State Management ---
   const keyMap: { [key: string]: keyof Omit<InputState, 'sequence'> } = {
       KeyW: 'forward', KeyS: 'backward', KeyA: 'left', KeyD: 'right',
-      ShiftLeft: 'sprint', Space: 'jump', KeyC: 'castSpell'
+      ShiftLeft: 'sprint', Space: 'jump', KeyE: 'castSpell'
   };
 
   const determineAnimation = useCallback((input: InputState): string => {
@@ -219,57 +557,32 @@ function App() {
     return animationName;
   }, []);
 
-  const sendInput = useCallback((input: InputState) => {
-    // For flying mode, we don't send updates to the server
-    // This is a no-op now - all movement is handled client-side only
-    return;
-    
-    // Original code:
-    /* 
+  // Runs every input tick: records the sample and sends a batch when one is due
+  const sampleInput = useCallback((input: InputState) => {
     if (!conn || !identity) return;
-    const currentState = {...input};
-    
-    // Skip sending if no change since last sent state
-    if (deepEqual(currentState, lastSentInputState.current)) {
-        return;
-    }
-    
-    // Save the state we're about to send for comparison next time
-    lastSentInputState.current = {...currentState};
-    
-    // Only send if we have a valid rotation
-    if (!playerRotationRef.current) return;
 
-    // Get player position from state or default to 0,0,0
-    const currentPos = localPlayer?.position || { x: 0, y: 0, z: 0 };
-    
+    const rotation = {
+        x: playerRotationRef.current.x,
+        y: playerRotationRef.current.y,
+        z: playerRotationRef.current.z
+    };
+    const batch = inputBatcherRef.current.sample(input, rotation);
+    if (!batch) return;
+
+    // The server integrates position itself and only checks the predicted one for speed cheats
+    const predicted = playerPositionRef.current;
+    const currentPos = predicted
+        ? { x: predicted.x, y: predicted.y, z: predicted.z }
+        : conn.db.player.identity.find(identity)?.position || { x: 0, y: 0, z: 0 };
+
     try {
-        // Detect frame drops or lag
-        const highseq = input.sequence > 1000000; // Arbitrary high number
-        if (highseq) {
-            console.log(`High sequence detected: ${input.sequence}, resetting to 1`);
-            currentInputRef.current.sequence = 1;
-        }
-        
-        // Animation determination
-        const animationName = determineAnimation(input);
-        
-        // Update server with current input, position, rotation, and animation
-        conn.reducers.updatePlayerInput(
-            input, 
-            currentPos,
-            { 
-                x: playerRotationRef.current.x,
-                y: playerRotationRef.current.y,
-                z: playerRotationRef.current.z
-            },
-            animationName
-        );
+        // Animation for the newest input in the batch
+        const animationName = determineAnimation(batch.inputs[batch.inputs.length - 1]);
+        conn.reducers.updatePlayerInputs(batch.inputs, currentPos, batch.rotation, animationName);
     } catch (error) {
         console.error("Error sending input to server:", error);
     }
-    */
-  }, []);
+  }, [identity, determineAnimation]);
 
   // Add player rotation handler
   const handlePlayerRotation = useCallback((rotation: THREE.Euler) => {
@@ -277,32 +590,126 @@ function App() {
     playerRotationRef.current.copy(rotation);
   }, []);
 
+  const handlePlayerPosition = useCallback((position: THREE.Vector3) => {
+    if (playerPositionRef.current) {
+      playerPositionRef.current.copy(position);
+    } else {
+      playerPositionRef.current = position.clone();
+    }
+  }, []);
+
+  // Pick a target and ask the server to resolve the attack/spell
+  const performCombatAction = useCallback((action: CombatAction) => {
+    if (!conn || !identityRef.current) return;
+    const attacker = conn.db.player.identity.find(identityRef.current);
+    if (!attacker || attacker.health <= 0) return;
+
+    const friendlyFire = conn.db.serverConfig.id.find(0)?.friendlyFire ?? false;
+    const attackerClass = conn.db.characterClass.name.find(attacker.characterClass);
+    const target = findCombatTarget(attacker, playerRotationRef.current.y, conn.db.player.iter(), action, friendlyFire, attackerClass);
+    if (!target) return; // Nobody in range - the animation still plays from input
+
+    if (action === 'attack') {
+        conn.reducers.attack(target);
+    } else {
+        conn.reducers.castSpell(target);
+    }
+  }, []);
+
+  const openChat = useCallback(() => {
+      chatOpenRef.current = true;
+      setChatOpen(true);
+      clearHeldInput(); // Keys released while typing never reach handleKeyUp
+  }, []);
+
+  const closeChat = useCallback(() => {
+      chatOpenRef.current = false;
+      setChatOpen(false);
+  }, []);
+
+  const handleChatSend = useCallback((line: string) => {
+      if (!conn) return;
+      const parsed = parseChatInput(line, conn.db.playerSummary.iter());
+      if (typeof parsed === 'string') {
+          setChatError(parsed);
+          return;
+      }
+      conn.reducers.sendChatMessage(parsed.channel, parsed.text, parsed.recipient);
+  }, []);
+
+  const setEmoteWheelOpen = useCallback((open: boolean) => {
+      emoteWheelOpenRef.current = open;
+      setShowEmoteWheel(open);
+  }, []);
+
+  const playEmote = useCallback((emote: string) => {
+      conn?.reducers.playEmote(emote);
+      setEmoteWheelOpen(false);
+  }, [setEmoteWheelOpen]);
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-      if (event.repeat) return; 
+      // The ChatBox input handles its own keys
+      if (chatOpenRef.current) return;
+      // Only joined players can chat (Enter also submits the join dialog)
+      if ((event.code === 'Enter' || event.code === 'NumpadEnter') && identityRef.current && conn?.db.player.identity.find(identityRef.current)) {
+          event.preventDefault();
+          openChat();
+          return;
+      }
+      // Scoreboard works while dead too; keep Tab from moving browser focus
+      if (event.code === 'Tab') {
+          event.preventDefault();
+          setShowScoreboard(true);
+          return;
+      }
+      if (event.repeat || isLocalPlayerDead()) return; 
+      if (event.code === EMOTE_WHEEL_KEY) {
+          setEmoteWheelOpen(true);
+          return;
+      }
+      // Number keys pick from the open wheel (works with the mouse captured)
+      const emoteKey = event.code.match(/^Digit([1-9])$/);
+      if (emoteKey && emoteWheelOpenRef.current) {
+          const emote = EMOTES[Number(emoteKey[1]) - 1];
+          if (emote) playEmote(emote.name);
+          return;
+      }
       const action = keyMap[event.code];
       if (action) {
           if (!currentInputRef.current[action]) { 
              currentInputRef.current[action] = true;
+             if (action === 'castSpell') performCombatAction('spell');
           }
       }
-  }, []);
+  }, [performCombatAction, openChat, setEmoteWheelOpen, playEmote]);
 
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
+      if (chatOpenRef.current) return;
+      if (event.code === 'Tab') {
+          setShowScoreboard(false);
+          return;
+      }
+      if (event.code === EMOTE_WHEEL_KEY) {
+          setEmoteWheelOpen(false);
+          return;
+      }
       const action = keyMap[event.code];
       if (action) {
           if (currentInputRef.current[action]) { 
               currentInputRef.current[action] = false;
           }
       }
-  }, []);
+  }, [setEmoteWheelOpen]);
 
   const handleMouseDown = useCallback((event: MouseEvent) => {
-      if (event.button === 0) { 
+      if (event.button === 0 && !chatOpenRef.current && !isLocalPlayerDead()) { 
            if (!currentInputRef.current.attack) {
                currentInputRef.current.attack = true;
+               // The click that grabs pointer lock shouldn't count as an attack
+               if (document.pointerLockElement === document.body) performCombatAction('attack');
            }
       }
-  }, []);
+  }, [performCombatAction]);
 
   const handleMouseUp = useCallback((event: MouseEvent) => {
       if (event.button === 0) { 
@@ -312,22 +719,6 @@ function App() {
       }
   }, []);
 
-  // Add mouse move handler with pointer lock for rotation
-  const handleMouseMove = useCallback((event: MouseEvent) => {
-    // Only rotate if we have pointer lock
-    if (document.pointerLockElement === document.body) {
-      const sensitivity = 0.002;
-      // Update the Euler rotation with mouse movement
-      playerRotationRef.current.y -= event.movementX * sensitivity;
-      
-      // Clamp vertical rotation (looking up/down) to prevent flipping
-      playerRotationRef.current.x = Math.max(
-        -Math.PI / 2.5, 
-        Math.min(Math.PI / 2.5, playerRotationRef.current.x - event.movementY * sensitivity)
-      );
-    }
-  }, []);
-
   // --- Listener Setup/Removal Functions ---
   const handlePointerLockChange = useCallback(() => {
     setIsPointerLocked(document.pointerLockElement === document.body);
@@ -339,20 +730,18 @@ function App() {
       window.addEventListener('keyup', handleKeyUp);
       window.addEventListener('mousedown', handleMouseDown);
       window.addEventListener('mouseup', handleMouseUp);
-      window.addEventListener('mousemove', handleMouseMove); // Add mouse move listener
       document.addEventListener('pointerlockchange', handlePointerLockChange); // Listen for lock changes
       console.log("Input listeners added.");
-  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp, handleMouseMove, handlePointerLockChange]);
+  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp, handlePointerLockChange]);
 
   const removeInputListeners = useCallback(() => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
-      window.removeEventListener('mousemove', handleMouseMove); // Remove mouse move listener
       document.removeEventListener('pointerlockchange', handlePointerLockChange); // Remove listener
       console.log("Input listeners removed.");
-  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp, handleMouseMove, handlePointerLockChange]);
+  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp, handlePointerLockChange]);
 
   const setupDelegatedListeners = useCallback(() => {
       document.body.addEventListener('click', handleDelegatedClick, true);
@@ -364,34 +753,36 @@ function App() {
       console.log("Delegated listener removed from body.");
   }, [handleDelegatedClick]);
 
-  // --- Game Loop Effect ---
+  // --- Input Tick ---
+  // Input is sampled at a fixed rate (not per frame) so traffic doesn't depend on refresh rate
   useEffect(() => {
-      const gameLoop = () => {
-          if (!connected || !conn || !identity) {
-              if (animationFrameIdRef.current) {
-                  cancelAnimationFrame(animationFrameIdRef.current);
-                  animationFrameIdRef.current = null;
-              }
-              return;
-          }
+      if (!connected || !conn || !identity) return;
+      console.log("[CLIENT] Starting input tick.");
+      const batcher = inputBatcherRef.current;
+      batcher.reset();
+      const interval = setInterval(() => {
           currentInputRef.current.sequence += 1;
-          sendInput(currentInputRef.current);
-          animationFrameIdRef.current = requestAnimationFrame(gameLoop);
-      };
-
-      if (connected && !animationFrameIdRef.current) {
-          console.log("[CLIENT] Starting game loop.");
-          animationFrameIdRef.current = requestAnimationFrame(gameLoop);
-      }
+          sampleInput(currentInputRef.current);
+      }, INPUT_TICK_MS);
 
       return () => {
-          if (animationFrameIdRef.current) {
-              console.log("[CLIENT] Stopping game loop.");
-              cancelAnimationFrame(animationFrameIdRef.current);
-              animationFrameIdRef.current = null;
-          }
+          console.log("[CLIENT] Stopping input tick.");
+          clearInterval(interval);
+          batcher.reset();
       };
-  }, [connected, conn, identity, sendInput]);
+  }, [connected, conn, identity, sampleInput]);
+
+  // --- Ping Reporting ---
+  // Each report_ping carries the round trip measured by the previous one
+  useEffect(() => {
+      if (!connected) return;
+      const interval = setInterval(() => {
+          if (!conn) return;
+          pingSentAtRef.current = performance.now();
+          conn.reducers.reportPing(lastPingMsRef.current);
+      }, PING_INTERVAL_MS);
+      return () => clearInterval(interval);
+  }, [connected]);
 
   // --- Connection Effect Hook ---
   useEffect(() => {
@@ -405,15 +796,37 @@ function App() {
         return;
     }
 
-    const dbHost = "maincloud.spacetimedb.com";
-    const dbName = "promptandconquer";
+    const connectionConfig = getConnectionConfig();
 
-    console.log(`Connecting to SpacetimeDB at ${dbHost}, database: ${dbName}...`);
+    const scheduleReconnect = () => {
+      if (reconnectTimerRef.current) return; // Already waiting
+      if (bannedReasonRef.current) {
+        setStatusMessage(bannedReasonRef.current);
+        return;
+      }
+      if (reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+        console.warn(`Giving up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts.`);
+        // A banned identity is refused the same way as an unreachable server
+        setStatusMessage("Unable to connect (the server is down or refused this identity). Reload the page to try again.");
+        return;
+      }
+      const delayMs = getReconnectDelayMs(reconnectAttemptRef.current);
+      reconnectAttemptRef.current += 1;
+      console.log(`Reconnecting in ${delayMs}ms (attempt ${reconnectAttemptRef.current})...`);
+      setStatusMessage(`Connection lost. Reconnecting in ${Math.ceil(delayMs / 1000)}s...`);
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        connect();
+      }, delayMs);
+    };
 
-    const onConnect = (connection: DbConnection, id: Identity, _token: string) => {
+    const onConnect = (connection: DbConnection, id: Identity, token: string) => {
       console.log("Connected!");
       conn = connection;
       window.conn = connection; // Store connection in global window object
+      identityRef.current = id;
+      reconnectAttemptRef.current = 0;
+      saveAuthToken(connectionConfig, token); // Reuse this identity on reload/reconnect
       setIdentity(id);
       setConnected(true);
       setStatusMessage(`Connected as ${id.toHexString().substring(0, 8)}...`);
@@ -421,7 +834,27 @@ function App() {
       registerTableCallbacks();
       setupInputListeners();
       setupDelegatedListeners();
-      setShowJoinDialog(true);
+
+      // After a reconnect, rejoin with the previous registration instead of prompting again
+      const lastRegistration = lastRegistrationRef.current;
+      if (lastRegistration) {
+        console.log(`Re-registering as ${lastRegistration.username} (${lastRegistration.characterClass})...`);
+        connection.reducers.registerPlayer(lastRegistration.username, lastRegistration.characterClass, lastRegistration.teamId);
+        setShowJoinDialog(false);
+      } else {
+        setShowJoinDialog(true);
+      }
+    };
+
+    const onConnectError = (_ctx: ErrorContext, error: Error) => {
+      console.error("Connection error:", error);
+      // Retrying with a token the server rejected can't succeed; continue as a new identity instead
+      if (isRejectedTokenError(error) && loadAuthToken(connectionConfig)) {
+        console.warn("Saved auth token was rejected, connecting without it.");
+        clearAuthToken(connectionConfig);
+        lastRegistrationRef.current = null; // That identity's player can't be rejoined
+      }
+      scheduleReconnect();
     };
 
     const onDisconnect = (_ctx: ErrorContext, reason?: Error | null) => {
@@ -430,41 +863,125 @@ function App() {
       setStatusMessage(`Disconnected: ${reasonStr}`);
       conn = null;
       window.conn = null; // Clear global connection reference
+      identityRef.current = null;
       setIdentity(null);
       setConnected(false);
       setPlayers(new Map());
+      setPlayerSummaries(new Map());
+      playerSubscriptionsRef.current = null; // Ended with the connection
+      playerPositionRef.current = null; // Player remounts with the server position after rejoining
       setLocalPlayer(null);
+      setServerConfig(null);
+      setLastHits(new Map());
+      setLocalCapture(null);
+      setTeams(new Map());
+      setOwnerColors(EMPTY_OWNER_COLORS);
+      setCurrentMatch(null);
+      setMatchResults([]);
+      setLocalProfile(null);
+      setLeaderboards(new Map());
+      setChatMessages([]);
+      setChatError(null);
+      chatOpenRef.current = false;
+      setChatOpen(false);
+      setChatBubbles(new Map());
+      setCharacterClasses(new Map());
+      setRateLimitBudgets(new Map());
+      setRateLimitBuckets(new Map());
+      setAdminIdentities(new Set());
+      setMutedPlayers(new Set());
+      setAdminError(null);
+      emoteWheelOpenRef.current = false;
+      setShowEmoteWheel(false);
+      clearSnapshots();
+      removeInputListeners();
+      removeDelegatedListeners();
+      scheduleReconnect();
+    };
+
+    const connect = () => {
+      console.log(`Connecting to SpacetimeDB at ${connectionConfig.uri}, database: ${connectionConfig.moduleName}...`);
+      moduleBindings.DbConnection.builder()
+        .withUri(connectionConfig.uri)
+        .withModuleName(connectionConfig.moduleName)
+        .withToken(loadAuthToken(connectionConfig))
+        .onConnect(onConnect)
+        .onConnectError(onConnectError)
+        .onDisconnect(onDisconnect)
+        .build();
     };
 
-    moduleBindings.DbConnection.builder()
-      .withUri(`wss://${dbHost}`)
-      .withModuleName(dbName)
-      .onConnect(onConnect)
-      .onDisconnect(onDisconnect)
-      .build();
+    connect();
 
     return () => {
       console.log("Cleaning up connection effect - removing listeners.");
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
       removeInputListeners();
       removeDelegatedListeners();
     };
   }, []);
 
   // --- handleJoinGame ---
-  const handleJoinGame = (username: string, characterClass: string) => {
+  // teamId is undefined for auto-balance; the server may still rebalance an explicit pick
+  const handleJoinGame = (username: string, characterClass: string, teamId?: number) => {
     if (!conn) {
         console.error("Cannot join game, not connected.");
         return;
     }
-    console.log(`Registering as ${username} (${characterClass})...`);
-    conn.reducers.registerPlayer(username, characterClass);
+    console.log(`Registering as ${username} (${characterClass}, team ${teamId ?? 'auto'})...`);
+    lastRegistrationRef.current = { username, characterClass, teamId };
+    setJoinRejection(null);
+    conn.reducers.registerPlayer(username, characterClass, teamId);
     setShowJoinDialog(false);
   };
 
+  // Owned squares per identity. Read from the player summaries, since the client only
+  // holds grid_square rows for the chunks around the local player.
+  const territoryCounts = useMemo(
+    () => new Map(Array.from(playerSummaries.values(), (summary) => [summary.identity.toHexString(), summary.squaresOwned])),
+    [playerSummaries]
+  );
+
+  // Admin tab actions; the server checks the caller is an admin
+  const adminActions = useMemo<AdminActions>(() => ({
+    kick: (target: Identity) => conn?.reducers.kickPlayer(target),
+    ban: (target: Identity, reason: string) => conn?.reducers.banPlayer(target, reason),
+    setMuted: (target: Identity, muted: boolean) => conn?.reducers.mutePlayer(target, muted),
+    resetGrid: () => conn?.reducers.resetGrid(),
+    teleport: (target: Identity, position: Vector3) => conn?.reducers.teleportPlayer(target, position),
+  }), []);
+  const isAdmin = identity !== null && adminIdentities.has(identity.toHexString());
+
+  // Area of interest: subscribe to the player rows in the cells around the local
+  // player (around the origin before joining) and re-scope on crossing into a new cell
+  const interestCell = cellOf(localPlayer?.position ?? { x: 0, z: 0 });
+  useEffect(() => {
+    if (!connected) return;
+    playerSubscriptionsRef.current?.update(playerCellQueries({ cellX: interestCell.cellX, cellZ: interestCell.cellZ }));
+  }, [connected, interestCell.cellX, interestCell.cellZ]);
+
   // --- Render Logic ---
   return (
     <div className="App" style={{ width: '100vw', height: '100vh', position: 'relative' }}>
-      {showJoinDialog && <JoinGameDialog onJoin={handleJoinGame} />}
+      {/* Between rounds the results screen takes the join dialog's place */}
+      {connected && currentMatch?.state === MATCH_STATES.finished ? (
+        <ResultsScreen match={currentMatch} results={matchResults} teams={teams} localIdentity={identity} />
+      ) : (
+        showJoinDialog && (
+          <JoinGameDialog
+            onJoin={handleJoinGame}
+            teams={teams}
+            players={playerSummaries}
+            profile={localProfile}
+            localIdentity={identity}
+            rejection={joinRejection}
+            characterClasses={characterClasses}
+          />
+        )
+      )}
       
       {/* Conditionally render DebugPanel based on connection status */} 
       {/* Visibility controlled internally, expansion controlled by state */}
@@ -477,6 +994,21 @@ function App() {
             expanded={isDebugPanelExpanded}
             onToggleExpanded={() => setIsDebugPanelExpanded((prev: boolean) => !prev)}
             isPointerLocked={isPointerLocked} // Pass pointer lock state down
+            serverConfig={serverConfig}
+            interpolationDelayMs={interpolationDelayMs}
+            onInterpolationDelayChange={setInterpolationDelayMs}
+            territoryCounts={territoryCounts}
+            teams={teams}
+            rateLimitBudgets={rateLimitBudgets}
+            rateLimitBuckets={rateLimitBuckets}
+            admin={isAdmin ? {
+              players: playerSummaries,
+              mutedPlayers,
+              localIdentity: identity,
+              localPosition: localPlayer?.position,
+              actions: adminActions,
+              lastError: adminError,
+            } : null}
           />
       )}
 
@@ -487,13 +1019,46 @@ function App() {
             players={players} 
             localPlayerIdentity={identity} 
             onPlayerRotation={handlePlayerRotation}
+            onPlayerPosition={handlePlayerPosition}
             currentInputRef={currentInputRef}
             isDebugPanelVisible={isDebugPanelExpanded}
+            interpolationDelayMs={interpolationDelayMs}
+            lastHits={lastHits}
+            teams={teams}
+            ownerColors={ownerColors}
+            chatBubbles={chatBubbles}
+            characterClasses={characterClasses}
           />
+          <MatchStatus match={currentMatch} playerCount={playerSummaries.size} serverConfig={serverConfig} />
+          {showScoreboard && (
+            <Scoreboard players={playerSummaries} teams={teams} leaderboards={leaderboards} localIdentity={identity} />
+          )}
+          {localPlayer && (
+            <ChatBox
+              messages={chatMessages}
+              open={chatOpen}
+              error={chatError}
+              players={playerSummaries}
+              localIdentity={identity}
+              maxLength={serverConfig?.chatMaxLength}
+              onSend={handleChatSend}
+              onClose={closeChat}
+            />
+          )}
+          {localPlayer && showEmoteWheel && (
+            <EmoteWheel currentEmote={localPlayer.currentEmote} onSelect={playEmote} />
+          )}
           {/* Render PlayerUI only if localPlayer exists */} 
-          {localPlayer && <PlayerUI playerData={localPlayer} />} 
+          {localPlayer && (
+            <PlayerUI
+              playerData={localPlayer}
+              lastHit={lastHits.get(localPlayer.identity.toHexString())}
+              territoryCount={territoryCounts.get(localPlayer.identity.toHexString()) ?? 0}
+              captureFraction={localCapture && serverConfig ? localCapture.ticks / Math.max(1, serverConfig.captureTicks) : null}
+            />
+          )} 
           
-          {/* Flying Controls Explanation */}
+          {/* Controls Explanation */}
           <div style={{ 
             position: 'absolute', 
             bottom: '20px', 
@@ -504,11 +1069,15 @@ function App() {
             borderRadius: '5px',
             maxWidth: '300px'
           }}>
-            <h3 style={{ margin: '0 0 10px 0' }}>Flying Controls:</h3>
-            <p style={{ margin: '5px 0' }}>WASD: Move horizontally</p>
-            <p style={{ margin: '5px 0' }}>SPACE: Fly up</p>
-            <p style={{ margin: '5px 0' }}>C: Fly down</p>
-            <p style={{ margin: '5px 0' }}>SHIFT: Move faster</p>
+            <h3 style={{ margin: '0 0 10px 0' }}>Controls:</h3>
+            <p style={{ margin: '5px 0' }}>WASD: Move</p>
+            <p style={{ margin: '5px 0' }}>SHIFT: Sprint</p>
+            <p style={{ margin: '5px 0' }}>SPACE: Jump</p>
+            <p style={{ margin: '5px 0' }}>E: Cast spell</p>
+            <p style={{ margin: '5px 0' }}>C: Toggle camera</p>
+            <p style={{ margin: '5px 0' }}>TAB (hold): Scoreboard</p>
+            <p style={{ margin: '5px 0' }}>ENTER: Chat</p>
+            <p style={{ margin: '5px 0' }}>G (hold) + 1-6: Emote</p>
             <p style={{ margin: '5px 0' }}>MOUSE: Look around</p>
           </div>
         </>
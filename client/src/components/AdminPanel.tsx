@@ -0,0 +1,171 @@
+/**
+ * AdminPanel.tsx
+ *
+ * Moderation tools, shown as the Admin tab of the DebugPanel for identities in
+ * the server's admin table:
+ *
+ * Key functionality:
+ * - Pick any active player (from player_summary, so distance doesn't matter)
+ * - Kick, ban (with a reason), mute/unmute chat and teleport the selected player
+ * - Reset the whole grid
+ * - Shows the server's error for the last failed admin action
+ *
+ * Props:
+ * - players: Every active player's summary (identity hex -> summary)
+ * - mutedPlayers: Identity hexes with a chat_mute row
+ * - localIdentity: The admin's own identity (can't kick or ban themselves)
+ * - localPosition: The admin's position, to teleport players to them
+ * - actions: Calls the admin reducers
+ * - lastError: Error from the last admin reducer that failed, if any
+ *
+ * Related files:
+ * - DebugPanel.tsx: Hosts this as a tab
+ * - App.tsx: Provides the actions and tracks admin, chat_mute and errors
+ * - server/src/admin_logic.rs: The reducers behind each button
+ */
+
+import React, { useState } from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerSummary, Vector3 } from '../generated';
+
+export interface AdminActions {
+  kick: (target: Identity) => void;
+  ban: (target: Identity, reason: string) => void;
+  setMuted: (target: Identity, muted: boolean) => void;
+  resetGrid: () => void;
+  teleport: (target: Identity, position: Vector3) => void;
+}
+
+export interface AdminPanelProps {
+  players: ReadonlyMap<string, PlayerSummary>;
+  mutedPlayers: ReadonlySet<string>;
+  localIdentity: Identity | null;
+  localPosition?: Vector3;
+  actions: AdminActions;
+  lastError: string | null;
+}
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: '#4a54df',
+  color: 'white',
+  border: 'none',
+  padding: '4px 8px',
+  borderRadius: '3px',
+  cursor: 'pointer',
+  marginRight: '5px',
+};
+
+const dangerButtonStyle: React.CSSProperties = { ...buttonStyle, backgroundColor: '#c0392b' };
+
+const inputStyle: React.CSSProperties = { width: '60px', marginRight: '5px' };
+
+export const AdminPanel: React.FC<AdminPanelProps> = ({
+  players,
+  mutedPlayers,
+  localIdentity,
+  localPosition,
+  actions,
+  lastError,
+}) => {
+  const [selectedHex, setSelectedHex] = useState('');
+  const [banReason, setBanReason] = useState('');
+  const [teleportTo, setTeleportTo] = useState<Vector3>({ x: 0, y: 1, z: 0 });
+
+  const playerList = Array.from(players.values()).sort((a, b) => a.username.localeCompare(b.username));
+  const selected = players.get(selectedHex);
+  const selectedIsSelf = selected !== undefined && localIdentity !== null && selected.identity.isEqual(localIdentity);
+  const selectedIsMuted = selected !== undefined && mutedPlayers.has(selectedHex);
+
+  const setAxis = (axis: keyof Vector3, value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) setTeleportTo((prev) => ({ ...prev, [axis]: parsed }));
+  };
+
+  return (
+    <div style={{ marginTop: '10px' }}>
+      <div>
+        <strong>Player:</strong>{' '}
+        <select value={selectedHex} onChange={(e) => setSelectedHex(e.target.value)}>
+          <option value="">Select a player</option>
+          {playerList.map((player) => {
+            const hex = player.identity.toHexString();
+            return (
+              <option key={hex} value={hex}>
+                {player.username} ({hex.substring(0, 8)}){mutedPlayers.has(hex) ? ' [muted]' : ''}
+              </option>
+            );
+          })}
+        </select>
+      </div>
+
+      {selected && (
+        <>
+          <div style={{ marginTop: '8px' }}>
+            <button style={dangerButtonStyle} disabled={selectedIsSelf} onClick={() => actions.kick(selected.identity)}>
+              Kick
+            </button>
+            <button style={buttonStyle} onClick={() => actions.setMuted(selected.identity, !selectedIsMuted)}>
+              {selectedIsMuted ? 'Unmute' : 'Mute'}
+            </button>
+          </div>
+
+          <div style={{ marginTop: '8px' }}>
+            <input
+              type="text"
+              placeholder="Ban reason"
+              value={banReason}
+              onChange={(e) => setBanReason(e.target.value)}
+              style={{ marginRight: '5px' }}
+            />
+            <button
+              style={dangerButtonStyle}
+              disabled={selectedIsSelf}
+              onClick={() => {
+                actions.ban(selected.identity, banReason);
+                setBanReason('');
+              }}
+            >
+              Ban
+            </button>
+          </div>
+
+          <div style={{ marginTop: '8px' }}>
+            {(['x', 'y', 'z'] as const).map((axis) => (
+              <input
+                key={axis}
+                type="number"
+                title={axis}
+                value={teleportTo[axis]}
+                onChange={(e) => setAxis(axis, e.target.value)}
+                style={inputStyle}
+              />
+            ))}
+            <button style={buttonStyle} onClick={() => actions.teleport(selected.identity, teleportTo)}>
+              Teleport
+            </button>
+            {localPosition && (
+              <button style={buttonStyle} onClick={() => setTeleportTo({ ...localPosition })}>
+                Use My Position
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      <div style={{ marginTop: '10px' }}>
+        <button
+          style={dangerButtonStyle}
+          onClick={() => {
+            if (window.confirm('Clear every grid square and all territory?')) actions.resetGrid();
+          }}
+        >
+          Reset Grid
+        </button>
+      </div>
+
+      {lastError && (
+        <div style={{ marginTop: '8px', color: '#FF7B7B' }}>{lastError}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+/**
+ * ChatBox.tsx
+ *
+ * Chat log and input in the lower-left corner, above the player HUD:
+ *
+ * Key functionality:
+ * - Shows the most recent messages visible to the local player, colored by channel
+ * - Opens an input on Enter; Enter sends and closes, Escape closes without sending
+ * - Stops key events from reaching the game's window listeners while typing
+ * - Shows the last rejected send (rate limit, length, unknown whisper target, ...)
+ *
+ * Props:
+ * - messages: chat_message and private_chat_message rows, oldest first
+ * - open: Whether the input is shown
+ * - error: Last send error, if any
+ * - players: player_summary rows, for whisper recipient names
+ * - localIdentity: Marks the local player's whispers as sent rather than received
+ * - maxLength: server_config.chat_max_length, enforced on the input too
+ * - onSend: Called with the typed line
+ * - onClose: Called when the input should close
+ *
+ * Related files:
+ * - App.tsx: Opens the chat and suspends movement keys while it is open
+ * - utils/chat.ts: Channel names, chat line keys and command parsing
+ * - server/src/chat_logic.rs: Validation, rate limiting, word filter and delivery
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerSummary } from '../generated';
+import { CHAT_CHANNELS, ChatLine, chatLineKey } from '../utils/chat';
+
+interface ChatBoxProps {
+  messages: ChatLine[];
+  open: boolean;
+  error: string | null;
+  players: ReadonlyMap<string, PlayerSummary>;
+  localIdentity: Identity | null;
+  maxLength?: number;
+  onSend: (line: string) => void;
+  onClose: () => void;
+}
+
+const VISIBLE_MESSAGES = 8;
+
+const formatSender = (message: ChatLine, players: ReadonlyMap<string, PlayerSummary>, localIdentity: Identity | null): string => {
+  switch (message.channel) {
+    case CHAT_CHANNELS.team:
+      return `[Team] ${message.senderName}`;
+    case CHAT_CHANNELS.whisper:
+      return localIdentity && message.sender.isEqual(localIdentity)
+        ? `[To] ${(message.recipient && players.get(message.recipient.toHexString())?.username) ?? 'player'}`
+        : `[From] ${message.senderName}`;
+    default:
+      return message.senderName;
+  }
+};
+
+export const ChatBox: React.FC<ChatBoxProps> = ({ messages, open, error, players, localIdentity, maxLength, onSend, onClose }) => {
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  // Keep typing (WASD, C, Tab, ...) out of the game's window listeners
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    event.stopPropagation();
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (draft.trim()) onSend(draft);
+      setDraft('');
+      onClose();
+    } else if (event.key === 'Escape') {
+      setDraft('');
+      onClose();
+    }
+  };
+
+  const visible = open ? messages : messages.slice(-VISIBLE_MESSAGES);
+
+  return (
+    <div className={open ? 'chat-box chat-box-open' : 'chat-box'}>
+      <div className="chat-log">
+        {visible.map((message) => (
+          <div key={chatLineKey(message)} className={`chat-line chat-${message.channel}`}>
+            <span className="chat-sender">{formatSender(message, players, localIdentity)}:</span> {message.text}
+          </div>
+        ))}
+      </div>
+      {error && <div className="chat-error">{error}</div>}
+      {open && (
+        <input
+          ref={inputRef}
+          className="chat-input"
+          value={draft}
+          maxLength={maxLength}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(event) => event.stopPropagation()}
+          onBlur={onClose}
+          placeholder="Say something... (/t team, /w name whisper)"
+        />
+      )}
+    </div>
+  );
+};
@@ -9,16 +9,26 @@
  * - Lists all connected players in the multiplayer session
  * - Provides asset verification tools to check model availability
  * - Shows control reference documentation for players
+ * - Shows how much of each reducer's rate limit budget the local player has used
+ * - Adds an Admin tab (AdminPanel) for identities in the admin table
  * - Supports collapsible sections to minimize screen space when not needed
  * 
  * Props:
  * - statusMessage: Current connection/game status text
  * - localPlayer: Data for the current user's player
  * - identity: The player's SpacetimeDB identity
- * - playerMap: Collection of all players in the current session
+ * - playerMap: Players in the local player's area of interest (the replicated player rows)
  * - expanded: Controls panel expansion state (collapsed/expanded)
  * - onToggleExpanded: Callback to toggle expansion state
  * - isPointerLocked: Indicates if mouse input is captured for game controls
+ * - serverConfig: Server tuning row (tick interval)
+ * - interpolationDelayMs: Current remote player render delay (snapshot interpolation)
+ * - onInterpolationDelayChange: Callback to adjust the interpolation delay
+ * - territoryCounts: Owned grid squares per player identity (hex)
+ * - teams: Team id -> team, for team names and colors in the player list
+ * - rateLimitBudgets: Reducer -> server rate limit budget
+ * - rateLimitBuckets: Reducer -> the local identity's token bucket
+ * - admin: AdminPanel props, or null when the local identity isn't an admin
  * 
  * Technical implementation:
  * - Implements collapsible UI sections for information organization
@@ -30,21 +40,33 @@
  * - App.tsx: Provides game state data and manages the debug panel visibility
  * - Player.tsx: Subject of much of the debug information
  * - GameScene.tsx: Parent component that contains debug visualization tools
+ * - AdminPanel.tsx: Contents of the Admin tab
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Identity } from '@clockworklabs/spacetimedb-sdk';
 // Import generated type, assuming path from components dir
-import { PlayerData } from '../generated'; 
+import { PlayerData, RateLimitBucket, RateLimitBudget, ServerConfig, Team } from '../generated'; 
+import { MIN_INTERPOLATION_DELAY_MS, MAX_INTERPOLATION_DELAY_MS } from '../utils/snapshotInterpolation';
+import { rateLimitUsage } from '../utils/rateLimits';
+import { AdminPanel, AdminPanelProps } from './AdminPanel';
 
 interface DebugPanelProps {
   statusMessage: string;
   localPlayer: PlayerData | null;
   identity: Identity | null;
-  playerMap: ReadonlyMap<string, PlayerData>; // Pass the whole map
+  playerMap: ReadonlyMap<string, PlayerData>; // Replicated (nearby) players
   expanded: boolean; // Receive expansion state from parent
   onToggleExpanded: () => void; // Receive toggle function from parent
   isPointerLocked: boolean; // Receive pointer lock state from parent
+  serverConfig: ServerConfig | null; // Server tuning row (tick interval)
+  interpolationDelayMs: number; // Remote player render delay
+  onInterpolationDelayChange: (delayMs: number) => void;
+  territoryCounts: ReadonlyMap<string, number>;
+  teams: ReadonlyMap<number, Team>;
+  rateLimitBudgets: ReadonlyMap<string, RateLimitBudget>;
+  rateLimitBuckets: ReadonlyMap<string, RateLimitBucket>;
+  admin: AdminPanelProps | null; // Only set for admins
 }
 
 export const DebugPanel: React.FC<DebugPanelProps> = ({ 
@@ -55,8 +77,25 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
   expanded,         // Use prop
   onToggleExpanded, // Use prop
   isPointerLocked,  // Use prop
+  serverConfig,
+  interpolationDelayMs,
+  onInterpolationDelayChange,
+  territoryCounts,
+  teams,
+  rateLimitBudgets,
+  rateLimitBuckets,
+  admin,
 }) => {
   const [modelCheckActive, setModelCheckActive] = useState(false);
+  const [activeTab, setActiveTab] = useState<'debug' | 'admin'>('debug');
+  const [now, setNow] = useState(() => Date.now());
+
+  // Buckets refill between calls, so re-derive usage while the panel is open
+  useEffect(() => {
+    if (!expanded) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [expanded]);
   const [modelCheckResults, setModelCheckResults] = useState<string[]>([]);
   const [showControls, setShowControls] = useState(false);
   
@@ -153,7 +192,23 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
         <strong>Status:</strong> {statusMessage}
       </div>
       
-      {expanded && (
+      {expanded && admin && (
+        <div style={{ marginTop: '10px' }}>
+          {(['debug', 'admin'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              style={{ marginRight: '5px', backgroundColor: activeTab === tab ? '#4a54df' : '#555', padding: '3px 10px', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer' }}
+            >
+              {tab === 'debug' ? 'Debug' : 'Admin'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {expanded && admin && activeTab === 'admin' && <AdminPanel {...admin} />}
+
+      {expanded && (!admin || activeTab === 'debug') && (
         <>
           <div style={{ marginTop: '10px' }}>
             <strong>Identity:</strong> {identity ? identity.toHexString() : 'None'}
@@ -164,6 +219,7 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
               <strong>Local Player:</strong>
               <div>Username: {localPlayer.username}</div>
               <div>Character: {localPlayer.characterClass}</div>
+              <div>Team: {teams.get(localPlayer.teamId)?.name ?? 'none'} | Friendly Fire: {serverConfig?.friendlyFire ? 'on' : 'off'}</div>
               <div>Position: ({Math.round(localPlayer.position.x)}, {Math.round(localPlayer.position.y)}, {Math.round(localPlayer.position.z)})</div>
               <div>Health: {localPlayer.health}</div>
               <div>Current Animation: <span style={{color: '#ffcc00'}}>{localPlayer.currentAnimation || 'none'}</span></div>
@@ -171,11 +227,48 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
           )}
           
           <div style={{ marginTop: '10px' }}>
-            <strong>Players ({playerMap.size}):</strong>
+            <strong>Netcode:</strong>
+            <div>
+              Server Tick: {serverConfig
+                ? `${(1000 / Number(serverConfig.tickIntervalMs)).toFixed(1)} Hz (${serverConfig.tickIntervalMs} ms)`
+                : 'unknown'}
+            </div>
+            <div>
+              Interpolation Delay: <span style={{color: '#ffcc00'}}>{interpolationDelayMs} ms</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_INTERPOLATION_DELAY_MS}
+              max={MAX_INTERPOLATION_DELAY_MS}
+              step={10}
+              value={interpolationDelayMs}
+              onChange={(e) => onInterpolationDelayChange(Number(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </div>
+          
+          <div style={{ marginTop: '10px' }}>
+            <strong>Rate Limits:</strong>
+            {rateLimitBudgets.size === 0 && <div>None</div>}
+            {rateLimitUsage(rateLimitBudgets, rateLimitBuckets, now).map(({ reducer, used, capacity }) => (
+              <div key={reducer}>
+                {reducer}: <span style={{ color: used >= capacity - 1 ? '#ff6b6b' : '#ffcc00' }}>
+                  {used.toFixed(1)} / {capacity}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ marginTop: '10px' }}>
+            <strong>Players in range ({playerMap.size}):</strong>
             <ul style={{ maxHeight: '200px', overflow: 'auto', padding: '0 0 0 20px' }}>
               {Array.from(playerMap.values()).map(player => (
                 <li key={player.identity.toHexString()}>
-                  {player.username} ({player.characterClass}) - {player.identity.toHexString().substring(0, 8)}...
+                  <span style={{ color: teams.get(player.teamId)?.color ?? player.color }}>
+                    &#9632; {player.username}
+                  </span> ({player.characterClass}) - {player.identity.toHexString().substring(0, 8)}...
+                  <span style={{color: '#ffcc00'}}> {territoryCounts.get(player.identity.toHexString()) ?? 0} sq</span>
+                  {teams.has(player.teamId) && <span style={{ color: teams.get(player.teamId)?.color }}> {teams.get(player.teamId)?.name}</span>}
                   {player.currentAnimation && <span style={{color: '#a0e0ff'}}> [{player.currentAnimation}]</span>}
                 </li>
               ))}
@@ -211,6 +304,7 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
                 <li>Shift: Sprint</li>
                 <li>Space: Jump</li>
                 <li>Left Click: Attack</li>
+                <li>E: Cast Spell</li>
                 <li>Mouse: Look around</li>
                 <li>Mouse Wheel: Zoom</li>
                 <li>C: Toggle Camera Mode (Follow/Orbital)</li>
@@ -0,0 +1,53 @@
+/**
+ * EmoteWheel.tsx
+ *
+ * Radial emote picker shown while the emote key (G) is held:
+ *
+ * Key functionality:
+ * - Lays the emotes out in a circle around the screen center, numbered 1..N
+ * - Number keys pick an emote (handled in App.tsx, so it works with the mouse captured);
+ *   clicking an emote works when the mouse is free
+ * - Highlights the emote the local player is currently showing
+ *
+ * Props:
+ * - currentEmote: The local player's PlayerData.currentEmote
+ * - onSelect: Called with the picked emote's name
+ *
+ * Related files:
+ * - App.tsx: Opens the wheel and calls the play_emote reducer
+ * - utils/emotes.ts: Emote list and icons
+ */
+
+import React from 'react';
+import { EMOTES } from '../utils/emotes';
+
+interface EmoteWheelProps {
+  currentEmote?: string;
+  onSelect: (emote: string) => void;
+}
+
+const WHEEL_RADIUS_PX = 110;
+
+export const EmoteWheel: React.FC<EmoteWheelProps> = ({ currentEmote, onSelect }) => (
+  <div className="emote-wheel">
+    {EMOTES.map((emote, index) => {
+      // Start at the top and go clockwise
+      const angle = (index / EMOTES.length) * Math.PI * 2 - Math.PI / 2;
+      const x = Math.cos(angle) * WHEEL_RADIUS_PX;
+      const y = Math.sin(angle) * WHEEL_RADIUS_PX;
+      return (
+        <button
+          key={emote.name}
+          type="button"
+          className={emote.name === currentEmote ? 'emote-wheel-item emote-wheel-active' : 'emote-wheel-item'}
+          style={{ transform: `translate(${x}px, ${y}px)` }}
+          onMouseDown={(event) => event.stopPropagation()} // Not an attack
+          onClick={() => onSelect(emote.name)}
+        >
+          <span className="emote-wheel-icon">{emote.icon}</span>
+          <span className="emote-wheel-label">{index + 1}. {emote.label}</span>
+        </button>
+      );
+    })}
+  </div>
+);
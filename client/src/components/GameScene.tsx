@@ -6,7 +6,9 @@
  * Key functionality:
  * - Acts as the primary container for all 3D game elements
  * - Manages the game world environment (terrain, lighting, physics)
- * - Instantiates and coordinates player entities
+ * - Instantiates and coordinates player entities; `players` only holds the area of
+ *   interest, so Player components mount and unmount (keyed by identity) as players
+ *   enter and leave it
  * - Handles multiplayer synchronization across clients
  * - Manages game state and lifecycle (start, join, disconnect)
  * - Maintains socket connections for real-time gameplay
@@ -21,7 +23,8 @@
  * - Uses React Three Fiber (R3F) for 3D rendering within React
  * - Implements physics system with Rapier for realistic interactions
  * - Manages socket.io connections for multiplayer state synchronization
- * - Handles dynamic loading and instantiation of 3D assets
+ * - Preloads every character class (utils/assetCache.ts) behind the LoadingScreen
+ *   before mounting the Canvas
  * 
  * Related files:
  * - Player.tsx: Individual player entity component
@@ -30,35 +33,74 @@
  * - Socket handlers for network communication
  */
 
-import React, { useRef } from 'react';
+import React, { useRef, useState, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Box, Plane, Grid, Sky } from '@react-three/drei';
 import * as THREE from 'three';
 import { DirectionalLightHelper, CameraHelper } from 'three'; // Import the helper
 // Import generated types
-import { PlayerData, InputState } from '../generated';
+import { PlayerData, InputState, CombatEvent, Team, CharacterClass } from '../generated';
 import { Identity } from '@clockworklabs/spacetimedb-sdk';
 import { Player } from './Player';
 import { GroundGrid } from './GroundGrid'; // Import our new component
+import { CHAT_BUBBLE_RANGE, ChatLine } from '../utils/chat';
+import { OwnerColors } from '../utils/territory';
+import { AssetLoadProgress, preloadAllClasses } from '../utils/assetCache';
+import { LoadingScreen } from './LoadingScreen';
+import { GRID_ROWS, GRID_COLUMNS, GRID_SQUARE_SIZE, GRID_GAP } from '../utils/gridChunks';
 
 interface GameSceneProps {
   players: ReadonlyMap<string, PlayerData>; // Receive the map
   localPlayerIdentity: Identity | null;
   onPlayerRotation?: (rotation: THREE.Euler) => void; // Optional callback for player rotation
+  onPlayerPosition?: (position: THREE.Vector3) => void; // Local player's predicted position
   currentInputRef?: React.MutableRefObject<InputState>; // Add input state ref prop
   isDebugPanelVisible?: boolean; // Prop to indicate if the debug panel is visible
+  interpolationDelayMs?: number; // How far in the past remote players are rendered
+  lastHits?: ReadonlyMap<string, CombatEvent>; // Latest combat event per target identity
+  teams?: ReadonlyMap<number, Team>; // Team id -> team, for nametags
+  ownerColors?: OwnerColors; // Territory colors (see utils/territory.ts)
+  chatBubbles?: ReadonlyMap<string, ChatLine>; // Latest live chat message per sender identity
+  characterClasses?: ReadonlyMap<string, CharacterClass>; // Class name -> stats (movement prediction)
 }
 
 export const GameScene: React.FC<GameSceneProps> = ({ 
   players, 
   localPlayerIdentity,
   onPlayerRotation,
+  onPlayerPosition,
   currentInputRef, // Receive input state ref
-  isDebugPanelVisible = false // Destructure the new prop
+  isDebugPanelVisible = false, // Destructure the new prop
+  interpolationDelayMs,
+  lastHits,
+  teams,
+  ownerColors,
+  chatBubbles,
+  characterClasses
 }) => {
   // Ref for the main directional light
   const directionalLightRef = useRef<THREE.DirectionalLight>(null!); 
 
+  // Character models and animations are loaded once, before the Canvas mounts
+  const [assetProgress, setAssetProgress] = useState<AssetLoadProgress>({ loaded: 0, total: 0 });
+  const [assetsReady, setAssetsReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    preloadAllClasses((progress) => {
+      if (!cancelled) setAssetProgress(progress);
+    }).then(() => {
+      if (!cancelled) setAssetsReady(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const localPlayerPosition = localPlayerIdentity ? players.get(localPlayerIdentity.toHexString())?.position : undefined;
+
+  if (!assetsReady) {
+    return <LoadingScreen progress={assetProgress} />;
+  }
+
   return (
     <Canvas 
       camera={{ position: [0, 10, 20], fov: 60 }} 
@@ -100,12 +142,12 @@ export const GameScene: React.FC<GameSceneProps> = ({
         </>
       )}
       
-      {/* Ground Grid of Squares */}
+      {/* Ground Grid of Squares - dimensions mirror GRID_* in server common.rs (territory capture) */}
       <GroundGrid 
-        size={2.2} 
-        gap={0.15} 
-        rows={40} 
-        columns={40} 
+        size={GRID_SQUARE_SIZE} 
+        gap={GRID_GAP} 
+        rows={GRID_ROWS} 
+        columns={GRID_COLUMNS} 
         centerGrid={true} 
         color="#1a73e8"
         secondColor="#4285f4"
@@ -114,20 +156,33 @@ export const GameScene: React.FC<GameSceneProps> = ({
         height={0.08} // Height of each raised square
         roughness={0.8}
         metalness={0.2}
+        ownerColors={ownerColors}
+        focusPosition={localPlayerPosition}
       />
 
       {/* Render Players */}
       {Array.from(players.values()).map((player) => {
         const isLocal = localPlayerIdentity?.toHexString() === player.identity.toHexString();
+        // Speech bubbles only for players near the local player
+        const inBubbleRange = localPlayerPosition !== undefined && Math.hypot(
+          player.position.x - localPlayerPosition.x,
+          player.position.z - localPlayerPosition.z,
+        ) <= CHAT_BUBBLE_RANGE;
         return (
           <Player 
             key={player.identity.toHexString()} 
             playerData={player}
             isLocalPlayer={isLocal}
             onRotationChange={isLocal ? onPlayerRotation : undefined}
+            onPositionChange={isLocal ? onPlayerPosition : undefined}
             currentInput={isLocal ? currentInputRef?.current : undefined}
             isDebugArrowVisible={isLocal ? isDebugPanelVisible : false} // Pass down arrow visibility
             isDebugPanelVisible={isDebugPanelVisible} // Pass down general debug visibility
+            interpolationDelayMs={interpolationDelayMs}
+            lastHit={lastHits?.get(player.identity.toHexString())}
+            team={teams?.get(player.teamId)}
+            chatBubble={inBubbleRange ? chatBubbles?.get(player.identity.toHexString()) : undefined}
+            classStats={characterClasses?.get(player.characterClass)}
           />
         );
       })}
@@ -1,9 +1,40 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useRef, useEffect, useLayoutEffect, useCallback } from 'react';
 import * as THREE from 'three';
 import { useLoader } from '@react-three/fiber';
 import * as moduleBindings from '../generated';
+import { EMPTY_OWNER_COLORS, OwnerColors, getOwnerColor } from '../utils/territory';
+import { chunkAt, chunkKey, chunkQuery, chunksAround } from '../utils/gridChunks';
+import { ScopedSubscriptions } from '../utils/scopedSubscriptions';
 
 type GridSquareData = moduleBindings.GridSquareData;
+type Vector3 = moduleBindings.Vector3;
+
+// Server-driven state of a square that affects how it's drawn
+interface SquareState {
+  selected: boolean;
+  ownerHex: string | null; // Territory owner identity (hex), null if unclaimed
+  ownerTeam: number; // Owner's team at capture time (0 = no team)
+}
+
+const toSquareState = (square: GridSquareData): SquareState => ({
+  selected: square.selected,
+  ownerHex: square.owner ? square.owner.toHexString() : null,
+  ownerTeam: square.ownerTeam,
+});
+
+// Squares are instances of one InstancedMesh, numbered row by row.
+// Keys match the server's "square-{row}-{col}" (territory_logic.rs).
+const keyToIndex = (key: string, rows: number, columns: number): number | null => {
+  const match = key.match(/^square-(\d+)-(\d+)$/);
+  if (!match) return null;
+  const row = Number(match[1]);
+  const col = Number(match[2]);
+  if (row >= rows || col >= columns) return null;
+  return row * columns + col;
+};
+
+const indexToKey = (index: number, columns: number): string =>
+  `square-${Math.floor(index / columns)}-${index % columns}`;
 
 // Global reference to the SpacetimeDB connection
 declare global {
@@ -26,6 +57,8 @@ interface GroundGridProps {
   metalness?: number;    // Material metalness
   opacity?: number;      // Material opacity
   selectedColor?: string; // Color for selected squares
+  ownerColors?: OwnerColors; // Team and player colors for owned squares; a new object only when a color changed
+  focusPosition?: Vector3; // Squares are only synced for the chunks around this (the local player)
 }
 
 export const GroundGrid: React.FC<GroundGridProps> = ({
@@ -43,10 +76,18 @@ export const GroundGrid: React.FC<GroundGridProps> = ({
   roughness = 0.7,       // Default roughness (less reflective)
   metalness = 0.1,       // Default metalness (slightly metallic)
   opacity = 1.0,         // Fully opaque by default
-  selectedColor = '#ffcc00' // Yellow color for selected squares
+  selectedColor = '#ffcc00', // Yellow color for selected squares
+  ownerColors = EMPTY_OWNER_COLORS,
+  focusPosition
 }) => {
-  // State to track which squares have been selected from the server
-  const [selectedSquares, setSelectedSquares] = useState<Set<string>>(new Set());
+  // All squares are drawn by one InstancedMesh; colors are written per instance
+  // as grid_square rows change instead of re-rendering the grid.
+  const meshRef = useRef<THREE.InstancedMesh>(null!);
+  const count = rows * columns;
+
+  // Selection and ownership of each square, mirrored from the grid_square table.
+  // Kept in a ref: changes repaint single instances, not the component.
+  const squareStatesRef = useRef<Map<string, SquareState>>(new Map());
   
   // Load texture if provided
   const texture = textureUrl ? useLoader(THREE.TextureLoader, textureUrl) : null;
@@ -58,74 +99,151 @@ export const GroundGrid: React.FC<GroundGridProps> = ({
   // Calculate offset to center the grid if needed
   const offsetX = centerGrid ? -totalWidth / 2 : 0;
   const offsetZ = centerGrid ? -totalDepth / 2 : 0;
+
+  // The owner colors squares are currently painted with; swapped for the new
+  // prop by the effect below, which repaints the squares that changed
+  const ownerColorsRef = useRef(ownerColors);
+
+  // Marker first, then territory owner, then the checkerboard base color
+  const paintSquare = useCallback((index: number) => {
+    const mesh = meshRef.current;
+    if (!mesh || index < 0 || index >= mesh.count) return;
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+    const isAlternate = (row + col) % 2 === 1;
+    const baseColor = alternateColors && isAlternate ? secondColor : color;
+
+    const state = squareStatesRef.current.get(indexToKey(index, columns));
+    let squareColor = baseColor;
+    if (state?.selected) squareColor = selectedColor;
+    else if (state?.ownerHex) squareColor = getOwnerColor(state.ownerHex, state.ownerTeam, ownerColorsRef.current);
+
+    mesh.setColorAt(index, new THREE.Color(squareColor));
+  }, [columns, alternateColors, secondColor, color, selectedColor]);
+
+  // Subscription callbacks are registered once, so they paint through a ref
+  const paintSquareRef = useRef(paintSquare);
+  paintSquareRef.current = paintSquare;
+
+  const paintKey = useCallback((key: string) => {
+    const index = keyToIndex(key, rows, columns);
+    const mesh = meshRef.current;
+    if (index === null || !mesh) return;
+    paintSquareRef.current(index);
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [rows, columns]);
+
+  const paintKeyRef = useRef(paintKey);
+  paintKeyRef.current = paintKey;
+
+  // Position every instance when the layout changes (before the first frame)
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        // y is elevation + half of height, since the box is centered on its position
+        matrix.setPosition(
+          offsetX + col * (size + gap) + size / 2,
+          elevation + height / 2,
+          offsetZ + row * (size + gap) + size / 2
+        );
+        mesh.setMatrixAt(row * columns + col, matrix);
+      }
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    // Raycasting culls against the bounding sphere, which must cover every instance
+    mesh.computeBoundingBox();
+    mesh.computeBoundingSphere();
+  }, [rows, columns, size, gap, offsetX, offsetZ, elevation, height]);
+
+  // Repaint everything when the palette or layout changes
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    for (let index = 0; index < count; index++) {
+      paintSquare(index);
+    }
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [count, paintSquare]);
+
+  // Repaint the owned squares whose owner color changed
+  useEffect(() => {
+    const previous = ownerColorsRef.current;
+    ownerColorsRef.current = ownerColors;
+    const mesh = meshRef.current;
+    if (!mesh || previous === ownerColors) return;
+    const changedOwners = new Map<string, boolean>(); // "hex:team" -> color changed
+    let painted = false;
+    squareStatesRef.current.forEach((state, key) => {
+      if (!state.ownerHex || state.selected) return;
+      const ownerKey = `${state.ownerHex}:${state.ownerTeam}`;
+      let changed = changedOwners.get(ownerKey);
+      if (changed === undefined) {
+        changed =
+          getOwnerColor(state.ownerHex, state.ownerTeam, previous) !==
+          getOwnerColor(state.ownerHex, state.ownerTeam, ownerColors);
+        changedOwners.set(ownerKey, changed);
+      }
+      if (!changed) return;
+      const index = keyToIndex(key, rows, columns);
+      if (index === null) return;
+      paintSquare(index);
+      painted = true;
+    });
+    if (painted && mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [ownerColors, rows, columns, paintSquare]);
   
-  // Subscribe to grid_square table updates
+  // Mirror grid_square rows from whichever chunks are subscribed
   useEffect(() => {
     // Skip if connection isn't available
     if (!window.conn) return;
+    const connection = window.conn;
     
-    console.log("Setting up grid square subscription and callbacks");
-    
-    // Register callbacks for grid square table changes
-    window.conn.db.gridSquare.onInsert((_ctx, square: GridSquareData) => {
-      if (square.selected) {
-        setSelectedSquares(prev => {
-          const newSet = new Set(prev);
-          newSet.add(square.key);
-          return newSet;
-        });
-      }
-    });
-    
-    window.conn.db.gridSquare.onUpdate((_ctx, _oldSquare: GridSquareData, newSquare: GridSquareData) => {
-      setSelectedSquares(prev => {
-        const newSet = new Set(prev);
-        if (newSquare.selected) {
-          newSet.add(newSquare.key);
-        } else {
-          newSet.delete(newSquare.key);
-        }
-        return newSet;
-      });
-    });
-    
-    window.conn.db.gridSquare.onDelete((_ctx, square: GridSquareData) => {
-      setSelectedSquares(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(square.key);
-        return newSet;
-      });
-    });
-    
-    // Subscribe to the grid_square table
-    const subscription = window.conn.subscriptionBuilder();
-    subscription.subscribe("SELECT * FROM grid_square");
-    subscription.onApplied(() => {
-      console.log("Grid square subscription applied");
-      // Initialize selected squares from the current data
-      if (window.conn) {
-        const initialSelected = new Set<string>();
-        for (const square of window.conn.db.gridSquare.iter()) {
-          if (square.selected) {
-            initialSelected.add(square.key);
-          }
-        }
-        setSelectedSquares(initialSelected);
-      }
-    });
-    subscription.onError((error) => {
-      console.error("Grid square subscription error:", error);
-    });
+    // Rows from chunk subscriptions arrive as inserts and leave as deletes when a chunk is dropped
+    const handleInsert = (_ctx: moduleBindings.EventContext, square: GridSquareData) => {
+      squareStatesRef.current.set(square.key, toSquareState(square));
+      paintKeyRef.current(square.key);
+    };
+    const handleUpdate = (_ctx: moduleBindings.EventContext, _oldSquare: GridSquareData, newSquare: GridSquareData) => {
+      squareStatesRef.current.set(newSquare.key, toSquareState(newSquare));
+      paintKeyRef.current(newSquare.key);
+    };
+    const handleDelete = (_ctx: moduleBindings.EventContext, square: GridSquareData) => {
+      squareStatesRef.current.delete(square.key);
+      paintKeyRef.current(square.key);
+    };
+    connection.db.gridSquare.onInsert(handleInsert);
+    connection.db.gridSquare.onUpdate(handleUpdate);
+    connection.db.gridSquare.onDelete(handleDelete);
     
     return () => {
-      // Cleanup - when the component unmounts, we can't unsubscribe but
-      // at least we can remove the callbacks to prevent memory leaks
-      if (window.conn) {
-        // Remove callbacks (if the SDK supports this)
-        // This is a placeholder - check if the SDK has a way to unregister callbacks
-      }
+      connection.db.gridSquare.removeOnInsert(handleInsert);
+      connection.db.gridSquare.removeOnUpdate(handleUpdate);
+      connection.db.gridSquare.removeOnDelete(handleDelete);
     };
   }, []);
+
+  // One subscription per chunk near the focus, created with the connection
+  const chunkSubscriptionsRef = useRef<ScopedSubscriptions | null>(null);
+  const focusChunk = chunkAt(focusPosition ?? { x: 0, z: 0 });
+
+  useEffect(() => {
+    if (!window.conn) return;
+    const subscriptions = new ScopedSubscriptions(window.conn, 'Grid chunk');
+    chunkSubscriptionsRef.current = subscriptions;
+    return () => {
+      subscriptions.clear();
+      chunkSubscriptionsRef.current = null;
+    };
+  }, []);
+
+  // Subscribe to chunks that came into range and drop the ones left behind
+  useEffect(() => {
+    const nearby = chunksAround({ chunkX: focusChunk.chunkX, chunkZ: focusChunk.chunkZ });
+    chunkSubscriptionsRef.current?.update(new Map(nearby.map((chunk) => [chunkKey(chunk), chunkQuery(chunk)])));
+  }, [focusChunk.chunkX, focusChunk.chunkZ]);
   
   // Handle click on a square
   const handleClick = (key: string) => {
@@ -136,90 +254,48 @@ export const GroundGrid: React.FC<GroundGridProps> = ({
     
     console.log("Toggling grid square:", key);
     try {
-      // Call the reducer to toggle the square on the server
+      // Call the reducer to toggle the square's marker (server rejects squares out of reach)
       window.conn.reducers.toggleGridSquare(key);
     } catch (error) {
       console.error("Error toggling grid square:", error);
     }
   };
   
-  // Generate squares
-  const squares = useMemo(() => {
-    const squaresArray = [];
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < columns; col++) {
-        // Calculate position - y coordinate is now elevation + half of height
-        const x = offsetX + col * (size + gap) + size / 2;
-        const y = elevation + height / 2; // Position at half the height for box geometry
-        const z = offsetZ + row * (size + gap) + size / 2;
-        
-        // Determine color (alternating pattern if enabled)
-        const isAlternate = (row + col) % 2 === 1;
-        const squareColor = alternateColors && isAlternate ? secondColor : color;
-        const key = `square-${row}-${col}`;
-        
-        squaresArray.push({
-          position: [x, y, z],
-          color: squareColor,
-          key
-        });
-      }
-    }
-    
-    return squaresArray;
-  }, [rows, columns, size, gap, offsetX, offsetZ, color, secondColor, alternateColors, elevation, height]);
-  
   return (
-    <group>
-      {squares.map((square) => (
-        <mesh 
-          key={square.key} 
-          position={square.position as [number, number, number]} 
-          castShadow  // Cast shadows
-          receiveShadow // Enable shadow receiving
-          onClick={(e) => {
-            console.log("Click detected on grid square:", square.key);
-            e.stopPropagation();
-            if (e.nativeEvent) {
-              e.nativeEvent.stopPropagation();
-              e.nativeEvent.preventDefault();
-            }
-            // Prevent camera controls from being activated
-            if (e.delta) e.delta = 0; // Reset any movement delta
-            handleClick(square.key);
-          }}
-          onPointerDown={(e) => {
-            // Capture pointer to prevent camera controls
-            console.log("Pointer down on grid square:", square.key);
-            e.stopPropagation();
-          }}
-          onPointerUp={(e) => {
-            console.log("Pointer up on grid square:", square.key);
-            e.stopPropagation();
-          }}
-        >
-          <boxGeometry args={[size, height, size]} />
-          {texture ? (
-            <meshStandardMaterial 
-              map={texture} 
-              color={selectedSquares.has(square.key) ? selectedColor : square.color} 
-              roughness={roughness}
-              metalness={metalness}
-              opacity={opacity}
-              transparent={opacity < 1}
-            />
-          ) : (
-            <meshStandardMaterial 
-              color={selectedSquares.has(square.key) ? selectedColor : square.color} 
-              roughness={roughness}
-              metalness={metalness}
-              opacity={opacity}
-              transparent={opacity < 1}
-            />
-          )}
-        </mesh>
-      ))}
-    </group>
+    <instancedMesh
+      key={count} // The instance count is fixed at creation
+      ref={meshRef}
+      args={[undefined, undefined, count]}
+      castShadow  // Cast shadows
+      receiveShadow // Enable shadow receiving
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.nativeEvent) {
+          e.nativeEvent.stopPropagation();
+          e.nativeEvent.preventDefault();
+        }
+        // Prevent camera controls from being activated
+        if (e.delta) e.delta = 0; // Reset any movement delta
+        // The nearest hit's instanceId is the square that was clicked
+        if (e.instanceId === undefined) return;
+        handleClick(indexToKey(e.instanceId, columns));
+      }}
+      onPointerDown={(e) => {
+        // Capture pointer to prevent camera controls
+        e.stopPropagation();
+      }}
+      onPointerUp={(e) => {
+        e.stopPropagation();
+      }}
+    >
+      <boxGeometry args={[size, height, size]} />
+      <meshStandardMaterial 
+        map={texture} 
+        roughness={roughness}
+        metalness={metalness}
+        opacity={opacity}
+        transparent={opacity < 1}
+      />
+    </instancedMesh>
   );
 }; 
\ No newline at end of file
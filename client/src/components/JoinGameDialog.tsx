@@ -4,14 +4,22 @@
  * Entry point component for the multiplayer game experience:
  * 
  * Key functionality:
- * - Provides a UI for player name entry and character selection
- * - Validates user input before allowing game entry
- * - Displays character class options with visual previews
+ * - Provides a UI for player name entry, character selection and an optional team pick
+ * - Validates the name with the server's rules before joining, and shows names the
+ *   server rejected (e.g. already taken) inline under the name field
+ * - Lists the server's character classes (character_class table) with their key stats
  * - Handles initial connection to the game server
  * - Manages the transition from lobby to active gameplay
+ * - Opens the ProfileView with the player's lifetime stats
  * 
  * Props:
- * - onJoinGame: Callback function that passes player information to parent component
+ * - onJoin: Callback that passes name, class and team (undefined = auto-balance) to the parent
+ * - teams: Team rows from the server, shown with their current player counts
+ * - players: player_summary rows, used to count team sizes
+ * - profile: The local player's player_profile row, shown in the profile view
+ * - localIdentity: Excluded from the name uniqueness check
+ * - rejection: The last registration the server rejected (name and reducer error), if any
+ * - characterClasses: Class name -> stats from the server
  * - isOpen: Boolean to control dialog visibility
  * - onClose: Function to handle dialog dismissal
  * 
@@ -25,24 +33,71 @@
  * - GameScene.tsx: Main game environment that loads after joining
  * - Player.tsx: Character implementation that uses selected options
  * - PlayerClassPreview.tsx: Visual preview of selectable characters
+ * - ProfileView.tsx: Lifetime stats view
  */
 
 import React, { useState, Suspense } from 'react';
+import { PlayerSummary, PlayerProfile, Team, CharacterClass } from '../generated';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { ProfileView } from './ProfileView';
+import { USERNAME_MAX_LENGTH, validateUsername, parseUsernameError } from '../utils/username';
+import { DEFAULT_CLASS } from '../utils/characterClasses';
+
+export interface RegistrationRejection {
+  username: string;
+  error: string; // register_player error, "<code>: <message>" for username rules
+}
 
 interface JoinGameDialogProps {
-  onJoin: (username: string, characterClass: string) => void;
+  onJoin: (username: string, characterClass: string, teamId?: number) => void;
+  teams: ReadonlyMap<number, Team>;
+  players: ReadonlyMap<string, PlayerSummary>;
+  profile: PlayerProfile | null;
+  localIdentity: Identity | null;
+  rejection: RegistrationRejection | null;
+  characterClasses: ReadonlyMap<string, CharacterClass>;
 }
 
-export const JoinGameDialog: React.FC<JoinGameDialogProps> = ({ onJoin }) => {
-  const [username, setUsername] = useState('Adventurer');
-  const [characterClass, setCharacterClass] = useState('Wizard');
+const AUTO_TEAM = 'auto';
+
+export const JoinGameDialog: React.FC<JoinGameDialogProps> = ({ onJoin, teams, players, profile, localIdentity, rejection, characterClasses }) => {
+  const [username, setUsername] = useState(() => rejection?.username ?? 'Adventurer'); // Keep a rejected name for editing
+  const [characterClass, setCharacterClass] = useState(DEFAULT_CLASS);
+  const [teamChoice, setTeamChoice] = useState(AUTO_TEAM);
+  const [showProfile, setShowProfile] = useState(false);
+
+  const teamSizes = new Map<number, number>();
+  for (const player of players.values()) {
+    teamSizes.set(player.teamId, (teamSizes.get(player.teamId) ?? 0) + 1);
+  }
+  const sortedTeams = Array.from(teams.values()).sort((a, b) => a.id - b.id);
+  const sortedClasses = Array.from(characterClasses.values()).sort((a, b) => a.name.localeCompare(b.name));
+  // Fall back to the first class if the default isn't offered by this server
+  const selectedClass = characterClasses.get(characterClass) ?? sortedClasses[0];
+
+  // Local checks first; the server's answer for this exact name covers uniqueness against logged-out players
+  const finalUsername = username.trim();
+  const usernameError = validateUsername(finalUsername, players.values(), localIdentity);
+  const rejectedHere = rejection !== null && rejection.username === finalUsername;
+  const serverError = rejectedHere ? parseUsernameError(rejection.error) ?? { message: rejection.error } : null;
+  const nameError = usernameError ?? serverError;
 
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
-    const finalUsername = username.trim() || `Player${Math.floor(Math.random() * 1000)}`;
-    onJoin(finalUsername, characterClass);
+    if (usernameError || !selectedClass) return;
+    onJoin(finalUsername, selectedClass.name, teamChoice === AUTO_TEAM ? undefined : Number(teamChoice));
   };
 
+  if (showProfile) {
+    return (
+      <div style={styles.overlay}>
+        <div style={styles.dialog}>
+          <ProfileView profile={profile} onClose={() => setShowProfile(false)} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div style={styles.overlay}>
       <form style={styles.dialog} onSubmit={handleSubmit}>
@@ -54,24 +109,56 @@ export const JoinGameDialog: React.FC<JoinGameDialogProps> = ({ onJoin }) => {
             id="username"
             value={username}
             onChange={(e) => setUsername(e.target.value)}
-            maxLength={16} // Limit username length
-            style={styles.input}
+            maxLength={USERNAME_MAX_LENGTH}
+            style={nameError ? { ...styles.input, ...styles.inputInvalid } : styles.input}
+            aria-invalid={nameError !== null}
           />
+          {nameError && <p style={styles.error}>{nameError.message}</p>}
         </div>
         <div style={styles.inputGroup}>
           <label htmlFor="characterClass" style={styles.label}>Class:</label>
           <select
             id="characterClass"
-            value={characterClass}
+            value={selectedClass?.name ?? ''}
             onChange={(e) => setCharacterClass(e.target.value)}
             style={styles.select}
+            disabled={!selectedClass}
           >
-            <option value="Wizard">Wizard</option>
-            <option value="Paladin">Paladin</option>
-            {/* Add more classes later */}
+            {sortedClasses.map((option) => (
+              <option key={option.name} value={option.name}>{option.name}</option>
+            ))}
           </select>
+          {selectedClass ? (
+            <p style={styles.hint}>
+              HP {selectedClass.maxHealth} · Mana {selectedClass.maxMana} · Attack range {selectedClass.attack.range} ·
+              Spell range {selectedClass.spell.range}
+            </p>
+          ) : (
+            <p style={styles.hint}>Loading classes...</p>
+          )}
         </div>
-        <button type="submit" style={styles.button}>Join Game</button>
+        {sortedTeams.length > 0 && (
+          <div style={styles.inputGroup}>
+            <label htmlFor="team" style={styles.label}>Team:</label>
+            <select
+              id="team"
+              value={teamChoice}
+              onChange={(e) => setTeamChoice(e.target.value)}
+              style={styles.select}
+            >
+              <option value={AUTO_TEAM}>Auto-balance</option>
+              {sortedTeams.map((team) => (
+                <option key={team.id} value={String(team.id)} style={{ color: team.color }}>
+                  {team.name} ({teamSizes.get(team.id) ?? 0} players)
+                </option>
+              ))}
+            </select>
+            {/* The server keeps teams within one player of each other */}
+            <p style={styles.hint}>Full teams are rebalanced automatically.</p>
+          </div>
+        )}
+        <button type="submit" style={styles.button} disabled={!selectedClass}>Join Game</button>
+        <button type="button" onClick={() => setShowProfile(true)} style={styles.linkButton}>View Profile</button>
       </form>
     </div>
   );
@@ -129,6 +216,19 @@ const styles: { [key: string]: React.CSSProperties } = {
      color: '#eee',
      fontSize: '16px',
   },
+  inputInvalid: {
+    borderColor: '#e74c3c',
+  },
+  error: {
+    margin: '6px 0 0 0',
+    color: '#ff7777',
+    fontSize: '12px',
+  },
+  hint: {
+    margin: '6px 0 0 0',
+    color: '#888',
+    fontSize: '12px',
+  },
   button: {
     padding: '12px 25px',
     border: 'none',
@@ -139,6 +239,17 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     transition: 'background-color 0.2s ease',
   },
+  linkButton: {
+    display: 'block',
+    margin: '15px auto 0 auto',
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    color: '#4a90e2',
+    fontSize: '14px',
+    cursor: 'pointer',
+    textDecoration: 'underline',
+  },
 };
 
 // Add hover effect dynamically if needed, or use CSS classes
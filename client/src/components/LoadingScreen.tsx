@@ -0,0 +1,36 @@
+/**
+ * LoadingScreen.tsx
+ *
+ * Full-screen progress display shown while character assets download:
+ *
+ * Key functionality:
+ * - Shows how many model and animation files have finished out of the total
+ * - Fills a progress bar with the same fraction
+ *
+ * Props:
+ * - progress: Files loaded and total, from preloadAllClasses
+ *
+ * Related files:
+ * - GameScene.tsx: Shows this until every class is preloaded, then mounts the Canvas
+ * - utils/assetCache.ts: Loads the files and reports progress
+ */
+
+import React from 'react';
+import { AssetLoadProgress } from '../utils/assetCache';
+
+interface LoadingScreenProps {
+  progress: AssetLoadProgress;
+}
+
+export const LoadingScreen: React.FC<LoadingScreenProps> = ({ progress }) => {
+  const percent = progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+  return (
+    <div className="loading-screen">
+      <div className="loading-title">Loading characters...</div>
+      <div className="loading-bar-container">
+        <div className="loading-bar" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="loading-detail">{progress.loaded} / {progress.total} files ({percent}%)</div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * MatchStatus.tsx
+ *
+ * Banner at the top of the screen showing where the current match is in its
+ * lifecycle:
+ *
+ * Key functionality:
+ * - Lobby: How many players are still needed to start
+ * - Countdown: Seconds until the round starts
+ * - In progress: Time left in the round and the win targets
+ *
+ * Props:
+ * - match: Current game_match row (null before the subscription arrives)
+ * - playerCount: Active players
+ * - serverConfig: Match rules (minimum players, win targets)
+ *
+ * Related files:
+ * - App.tsx: Provides the match and player count
+ * - ResultsScreen.tsx: Shown instead of this banner once the match finishes
+ * - utils/matchState.ts: State names and countdown helpers
+ */
+
+import React, { useState, useEffect } from 'react';
+import { GameMatch, ServerConfig } from '../generated';
+import { MATCH_STATES, secondsUntil, formatClock } from '../utils/matchState';
+
+interface MatchStatusProps {
+  match: GameMatch | null;
+  playerCount: number;
+  serverConfig: ServerConfig | null;
+}
+
+export const MatchStatus: React.FC<MatchStatusProps> = ({ match, playerCount, serverConfig }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const isTimed = match?.state === MATCH_STATES.countdown || match?.state === MATCH_STATES.inProgress;
+
+  // Tick the countdown/round timer
+  useEffect(() => {
+    if (!isTimed) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isTimed]);
+
+  if (!match || match.state === MATCH_STATES.finished) return null;
+
+  let title: string;
+  let detail: string | null = null;
+  if (match.state === MATCH_STATES.lobby) {
+    const minPlayers = serverConfig?.minPlayers ?? 0;
+    title = 'Waiting for players';
+    detail = `${playerCount}/${minPlayers} joined`;
+  } else if (match.state === MATCH_STATES.countdown) {
+    title = `Round starts in ${secondsUntil(match.phaseEndsAt, now)}s`;
+  } else {
+    title = formatClock(secondsUntil(match.phaseEndsAt, now));
+    if (serverConfig) {
+      const goals: string[] = [];
+      if (serverConfig.winTerritoryShare > 0) goals.push(`${Math.round(serverConfig.winTerritoryShare * 100)}% territory`);
+      if (serverConfig.winKills > 0) goals.push(`${serverConfig.winKills} kills`);
+      if (goals.length > 0) detail = `First to ${goals.join(' or ')} wins`;
+    }
+  }
+
+  return (
+    <div className="match-status">
+      <div className="match-status-title">{title}</div>
+      {detail && <div className="match-status-detail">{detail}</div>}
+    </div>
+  );
+};
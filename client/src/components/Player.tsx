@@ -8,8 +8,13 @@
  * - Implements physics-based player movement and collision detection
  * - Manages player state synchronization in multiplayer environment
  * - Processes user input for character control (keyboard/mouse)
- * - Handles different player classes with unique visual appearances
+ * - Handles different player classes with unique visual appearances (a clone of the class
+ *   model from utils/assetCache.ts with its shared clips; speed multipliers from the
+ *   character_class row)
  * - Distinguishes between local player (user-controlled) and remote players
+ * - Plays the damage reaction when a combat_event targets this player
+ * - Shows the player's team in its color on the nametag
+ * - Shows the player's current emote and recent chat as a speech bubble above the nametag
  * 
  * Props:
  * - playerClass: Determines visual appearance and possibly abilities
@@ -35,8 +40,14 @@ import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react'
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useAnimations, Html, Sphere } from '@react-three/drei';
-import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
-import { PlayerData, InputState } from '../generated';
+import { PlayerData, InputState, CombatEvent, Team, CharacterClass } from '../generated';
+import { RingBuffer } from '../utils/ringBuffer';
+import { PendingInput, ReplayMove, reconcile } from '../utils/reconciliation';
+import { DEFAULT_INTERPOLATION_DELAY_MS, getSnapshotBuffer } from '../utils/snapshotInterpolation';
+import { CHAT_BUBBLE_DURATION_MS, CHAT_CHANNELS, ChatLine, chatLineKey } from '../utils/chat';
+import { getEmote } from '../utils/emotes';
+import { DEFAULT_CLASS } from '../utils/characterClasses';
+import { ClassAssets, cloneClassModel, getLoadedClassAssets, loadClassAssets } from '../utils/assetCache';
 
 // Define animation names for reuse
 const ANIMATIONS = {
@@ -57,15 +68,13 @@ const ANIMATIONS = {
 };
 
 // --- Client-side Constants ---
-const PLAYER_SPEED = 5.0; // Match server logic
-const SPRINT_MULTIPLIER = 1.8; // Match server logic
+const PLAYER_SPEED = 7.5; // Match server common.rs (scaled by the class's multipliers)
 
 // --- Client-side Prediction Constants ---
-const SERVER_TICK_RATE = 60; // Assuming server runs at 60Hz
-const SERVER_TICK_DELTA = 1 / SERVER_TICK_RATE; // Use this for prediction
-const POSITION_RECONCILE_THRESHOLD = 0.4;
-const ROTATION_RECONCILE_THRESHOLD = 0.1; // Radians
 const RECONCILE_LERP_FACTOR = 0.15;
+// Max unacknowledged frames kept for replay. There's one per rendered frame (several per
+// input tick share a sequence), so this is ~4s at 60fps but only ~1.8s at 144fps
+const INPUT_BUFFER_SIZE = 256;
 
 // --- Camera Constants ---
 const CAMERA_MODES = {
@@ -77,23 +86,38 @@ interface PlayerProps {
   playerData: PlayerData;
   isLocalPlayer: boolean;
   onRotationChange?: (rotation: THREE.Euler) => void;
+  onPositionChange?: (position: THREE.Vector3) => void; // Predicted position, every frame (local player)
   currentInput?: InputState; // Prop to receive current input for local player
   isDebugArrowVisible?: boolean; // Prop to control debug arrow visibility
   isDebugPanelVisible?: boolean; // Prop to control general debug helpers visibility
+  interpolationDelayMs?: number; // Render delay for remote players (snapshot interpolation)
+  lastHit?: CombatEvent; // Most recent combat event targeting this player
+  team?: Team; // Undefined if the player has no team
+  chatBubble?: ChatLine; // Latest live message from this player, if they're close enough to see
+  classStats?: CharacterClass; // Server row for this player's class (movement prediction)
 }
 
 export const Player: React.FC<PlayerProps> = ({
   playerData,
   isLocalPlayer,
   onRotationChange,
+  onPositionChange,
   currentInput, // Receive input state
   isDebugArrowVisible = false, 
-  isDebugPanelVisible = false // Destructure with default false
+  isDebugPanelVisible = false, // Destructure with default false
+  interpolationDelayMs = DEFAULT_INTERPOLATION_DELAY_MS,
+  lastHit,
+  team,
+  chatBubble,
+  classStats
 }) => {
   const group = useRef<THREE.Group>(null!);
   const { camera } = useThree();
   const dataRef = useRef<PlayerData>(playerData);
-  const characterClass = playerData.characterClass || 'Wizard';
+  const characterClass = playerData.characterClass || DEFAULT_CLASS;
+  // Until character_class rows arrive, predict with the default multipliers
+  const speedMultiplier = classStats?.speedMultiplier ?? 1;
+  const sprintMultiplier = classStats?.sprintMultiplier ?? 1.8;
   
   // Model management
   const [modelLoaded, setModelLoaded] = useState(false);
@@ -101,10 +125,18 @@ export const Player: React.FC<PlayerProps> = ({
   const [mixer, setMixer] = useState<THREE.AnimationMixer | null>(null);
   const [animations, setAnimations] = useState<Record<string, THREE.AnimationAction>>({});
   const [currentAnimation, setCurrentAnimation] = useState<string>(ANIMATIONS.IDLE);
+  const hitReactionActiveRef = useRef(false); // While true, the damage reaction overrides server animations
+  const handledHitIdRef = useRef<bigint | null>(null); // Last combat_event id we reacted to
+  const [expiredBubbleKey, setExpiredBubbleKey] = useState<string | null>(null); // Bubble whose time is up
   
   // --- Client Prediction State ---
   const localPositionRef = useRef<THREE.Vector3>(new THREE.Vector3(playerData.position.x, playerData.position.y, playerData.position.z));
   const localRotationRef = useRef<THREE.Euler>(new THREE.Euler(0, 0, 0, 'YXZ')); // Initialize with zero rotation
+  const pendingInputsRef = useRef(new RingBuffer<PendingInput>(INPUT_BUFFER_SIZE)); // Inputs not yet acknowledged by the server
+  const lastAckedSeqRef = useRef<number>(playerData.lastInputSeq); // Last InputState.sequence the server reported
+  const correctionOffsetRef = useRef<THREE.Vector3>(new THREE.Vector3()); // Remaining position error being smoothed out
+  const targetServerYawRef = useRef<number | null>(null); // Server-imposed yaw being smoothed towards
+  const teleportHandledRef = useRef(false); // Whether the current server teleport (e.g. respawn) was applied
   const debugArrowRef = useRef<THREE.ArrowHelper | null>(null); // Declare the ref for the debug arrow
   
   // Camera control variables
@@ -125,488 +157,145 @@ export const Player: React.FC<PlayerProps> = ({
     playerFacingRotation: 0 // Store player's facing direction when entering orbital mode
   });
   
-  // Ref to track if animations have been loaded already to prevent multiple loading attempts
-  const animationsLoadedRef = useRef(false);
-  
-  // Main character model path
-  const mainModelPath = characterClass === 'Paladin' 
-    ? '/models/paladin/paladin.fbx'
-    : '/models/wizard/wizard.fbx';
-
   // --- State variables ---
   const pointLightRef = useRef<THREE.PointLight>(null!); // Ref for the declarative light
 
-  // --- Client-Side Movement Calculation (Matches Server Logic *before* Sign Flip) ---
+  // --- Client-Side Movement Calculation (Mirrors server calculate_new_position) ---
+  // IMPORTANT: Keep in sync with server/src/player_logic.rs so prediction matches the server.
   const calculateClientMovement = useCallback((currentPos: THREE.Vector3, currentRot: THREE.Euler, inputState: InputState, delta: number): THREE.Vector3 => {
-    // console.log(`[Move Calc] cameraMode: ${cameraMode}`); // Suppressed log
-    
-    // Skip if no movement input
-    if (!inputState.forward && !inputState.backward && !inputState.left && !inputState.right && !inputState.jump && !inputState.castSpell) {
-      return currentPos;
-    }
-
-    let worldMoveVector = new THREE.Vector3();
-    // Increase flying speed
-    const flyingSpeed = PLAYER_SPEED * 2.0;
-    const speed = inputState.sprint ? flyingSpeed * SPRINT_MULTIPLIER : flyingSpeed;
-    let rotationYaw = 0;
-
-    // 1. Calculate local movement vector based on WASD
+    // 1. Calculate local movement vector based on WASD (+Z forward, +X left)
     let localMoveX = 0;
     let localMoveZ = 0;
-    let localMoveY = 0; // Add vertical movement
-    
-    // Fully inverted movement mapping
     if (inputState.forward) localMoveZ += 1;
     if (inputState.backward) localMoveZ -= 1;
     if (inputState.left) localMoveX += 1;
     if (inputState.right) localMoveX -= 1;
-    
-    // Add vertical movement using Space for up and C for down
-    if (inputState.jump) localMoveY += 1;      // Move up with Space
-    if (inputState.castSpell) localMoveY -= 1; // Use cast spell button to move down
-    
-    const localMoveVector = new THREE.Vector3(localMoveX, localMoveY, localMoveZ);
 
-    // Normalize if diagonal movement
-    if (localMoveVector.lengthSq() > 1.1) {
-      localMoveVector.normalize();
+    // Skip if no movement input
+    if (localMoveX === 0 && localMoveZ === 0) {
+      return currentPos;
     }
 
-              // Always use the current player rotation for movement calculation
-          rotationYaw = currentRot.y;
-          
-          // Debug log for orbital mode
-          if (cameraMode === CAMERA_MODES.ORBITAL) {
-            console.log(`[Orbital Move Calc] Mode: ORBITAL, Using player rotation: ${rotationYaw.toFixed(3)}`);
-          }
+    // Normalize so diagonal movement isn't faster
+    const localMoveVector = new THREE.Vector3(localMoveX, 0, localMoveZ).normalize();
 
-    // 3. Rotate the LOCAL movement vector by the appropriate YAW to get the WORLD direction
-    // But only rotate XZ components, leave Y (vertical) unchanged
-    const horizontalVector = new THREE.Vector3(localMoveVector.x, 0, localMoveVector.z);
-    const rotatedHorizontal = horizontalVector.applyAxisAngle(new THREE.Vector3(0, 1, 0), rotationYaw);
-    
-    // Combine rotated horizontal movement with unrotated vertical movement
-    worldMoveVector = new THREE.Vector3(
-      rotatedHorizontal.x,
-      localMoveVector.y,
-      rotatedHorizontal.z
-    );
-
-    // 4. Scale by speed and delta time
+    // 2. Rotate the local movement vector by the player's yaw to get the world direction
+    const worldMoveVector = localMoveVector.applyAxisAngle(new THREE.Vector3(0, 1, 0), currentRot.y);
+
+    // 3. Scale by speed and delta time
+    const walkSpeed = PLAYER_SPEED * speedMultiplier;
+    const speed = inputState.sprint ? walkSpeed * sprintMultiplier : walkSpeed;
     worldMoveVector.multiplyScalar(speed * delta);
 
-    // 5. Calculate the final position based on the raw world movement
-    const finalPosition = currentPos.clone().add(worldMoveVector);
+    return currentPos.clone().add(worldMoveVector);
+  }, [speedMultiplier, sprintMultiplier]);
+
+  // --- Server Reconciliation ---
+  // Called when the server acknowledges a newer input sequence. Rewinds to the
+  // authoritative position, replays every input the server hasn't processed yet,
+  // and either snaps (small error) or smooths (large error) towards the result
+  // (see utils/reconciliation.ts).
+  const reconcileWithServer = useCallback((serverData: PlayerData) => {
+    const replayRotation = new THREE.Euler(0, 0, 0, 'YXZ');
+    const move: ReplayMove = (position, yaw, input, dt) => {
+      replayRotation.y = yaw;
+      return calculateClientMovement(position, replayRotation, input, dt);
+    };
 
-    // Debug log for orbital mode
-    if (cameraMode === CAMERA_MODES.ORBITAL) {
-        console.log(`[Orbital Move Calc] Input: F${inputState.forward?1:0} B${inputState.backward?1:0} L${inputState.left?1:0} R${inputState.right?1:0}, MoveVector: (${worldMoveVector.x.toFixed(2)}, ${worldMoveVector.z.toFixed(2)}), Delta: ${delta.toFixed(4)}`);
-    }
+    // Compare against where we currently think we are (including any correction still in flight)
+    const predictedPosition = localPositionRef.current.clone().add(correctionOffsetRef.current);
+    const { position, snap, serverYaw } = reconcile(pendingInputsRef.current, serverData, predictedPosition, move);
 
-    return finalPosition;
-  }, [cameraMode]); // Depend on cameraMode from state
+    if (serverYaw !== null) {
+      targetServerYawRef.current = serverYaw;
+    }
+    if (snap) {
+      // Small drift (or a deliberate server teleport) - correct immediately
+      localPositionRef.current.copy(position);
+      correctionOffsetRef.current.set(0, 0, 0);
+    } else {
+      // Large mismatch - blend towards the replayed position over the next frames
+      correctionOffsetRef.current.copy(position).sub(localPositionRef.current);
+    }
+  }, [calculateClientMovement]);
 
-  // --- Effect for model loading ---
+  // --- Effect for model setup ---
+  // Clones this class's model from the asset cache (GameScene preloads every class;
+  // anything it missed is loaded here) and wraps the shared clips in this player's mixer.
   useEffect(() => {
-    if (!playerData) return; // Guard clause
-    const loader = new FBXLoader();
-
-    loader.load(
-      mainModelPath,
-      (fbx) => {
-        
-        // Simplified: Just add the model, setup scale, shadows etc.
-        if (characterClass === 'Paladin') {
-          fbx.scale.setScalar(1.0);
+    const playerGroup = group.current;
+    let cancelled = false;
+    let instance: THREE.Group | null = null;
+    let instanceMixer: THREE.AnimationMixer | null = null;
+
+    const setup = (assets: ClassAssets) => {
+      if (cancelled || !playerGroup) return;
+      instance = cloneClassModel(assets);
+      instance.position.set(0, -0.1, 0); // Lower the model slightly
+      playerGroup.add(instance);
+
+      const newMixer = new THREE.AnimationMixer(instance);
+      instanceMixer = newMixer;
+      const newAnimations: Record<string, THREE.AnimationAction> = {};
+      Object.entries(assets.clips).forEach(([name, clip]) => {
+        const action = newMixer.clipAction(clip);
+        // Set loop mode based on animation type
+        if (name === ANIMATIONS.IDLE || name.startsWith('walk-') || name.startsWith('run-')) {
+          action.setLoop(THREE.LoopRepeat, Infinity);
         } else {
-          fbx.scale.setScalar(0.02); // Default/Wizard scale
+          action.setLoop(THREE.LoopOnce, 1);
+          action.clampWhenFinished = true;
         }
-        fbx.position.set(0, 0, 0);
-        // REMOVED TRAVERSE for setting castShadow/receiveShadow to avoid potential errors
-
-        setModel(fbx); 
-        
-        if (group.current) {
-          group.current.add(fbx);
-          // Apply position adjustment after adding to group
-          fbx.position.y = -0.1; // Lower the model slightly
-          
-          // --- TRY AGAIN: Traverse to remove embedded lights --- 
-          try { 
-            console.log(`[Player Model Effect ${playerData.username}] Traversing loaded FBX to find embedded lights...`);
-            fbx.traverse((child) => {
-              if (child && child instanceof THREE.Light) { 
-                // --- LOGGING ADDED HERE ---
-                console.log(`[Player Model Effect ${playerData.username}] --- FOUND AND REMOVING EMBEDDED LIGHT --- Name: ${child.name || 'Unnamed'}, Type: ${child.type}`);
-                child.removeFromParent();
-              }
-            });
-          } catch (traverseError) {
-             console.error(`[Player Model Effect ${playerData.username}] Error during fbx.traverse for light removal:`, traverseError);
-          }
-          // --- END TRAVERSE ATTEMPT --- 
-
-        } 
-        
-        const newMixer = new THREE.AnimationMixer(fbx);
-        setMixer(newMixer);
-        setModelLoaded(true);
-        
-        // Initialize local refs for local player
-        if (isLocalPlayer) {
-          localPositionRef.current.set(playerData.position.x, playerData.position.y, playerData.position.z);
-          localRotationRef.current.set(0, playerData.rotation.y, 0, 'YXZ');
-        }
-      },
-      (progress) => { /* Optional progress log */ },
-      (error: any) => {
-        console.error(`[Player Model Effect ${playerData.username}] Error loading model ${mainModelPath}:`, error);
-      }
-    );
-
-    // Cleanup for model loading effect
-    return () => {
-      if (mixer) mixer.stopAllAction();
-      if (model && group.current) group.current.remove(model);
-      // Dispose geometry/material if needed
-      setModel(null);
-      setMixer(null);
-      setModelLoaded(false);
-      animationsLoadedRef.current = false;
-    };
-  }, [mainModelPath, characterClass]); // ONLY depend on model path and class
+        newAnimations[name] = action;
+      });
 
-  // New useEffect to load animations when mixer is ready
-  useEffect(() => {
-    if (mixer && model && !animationsLoadedRef.current) {
-      console.log("Mixer and model are ready, loading animations...");
-      animationsLoadedRef.current = true;
-      loadAnimations(mixer);
-    }
-  }, [mixer, model, characterClass]);
+      setModel(instance);
+      setMixer(newMixer);
+      setAnimations(newAnimations);
+      setModelLoaded(true);
 
-  // Function to load animations
-  const loadAnimations = (mixerInstance: THREE.AnimationMixer) => {
-    if (!mixerInstance) {
-      console.error("Cannot load animations: mixer is not initialized");
-      return;
-    }
-    
-    console.log(`Loading animations for ${characterClass}...`);
-    
-    const animationPaths: Record<string, string> = {};
-    const basePath = characterClass === 'Paladin' ? '/models/paladin/' : '/models/wizard/';
-    
-    // Map animation keys to file paths, ensuring exact matching of key names
-    // Define all animation keys with their exact matching paths
-    const animKeys = {
-      idle: characterClass === 'Wizard' ? 'wizard-standing-idle.fbx' : 'paladin-idle.fbx',
-      'walk-forward': characterClass === 'Wizard' ? 'wizard-standing-walk-forward.fbx' : 'paladin-walk-forward.fbx',
-      'walk-back': characterClass === 'Wizard' ? 'wizard-standing-walk-back.fbx' : 'paladin-walk-back.fbx',
-      'walk-left': characterClass === 'Wizard' ? 'wizard-standing-walk-left.fbx' : 'paladin-walk-left.fbx',
-      'walk-right': characterClass === 'Wizard' ? 'wizard-standing-walk-right.fbx' : 'paladin-walk-right.fbx',
-      'run-forward': characterClass === 'Wizard' ? 'wizard-standing-run-forward.fbx' : 'paladin-run-forward.fbx',
-      'run-back': characterClass === 'Wizard' ? 'wizard-standing-run-back.fbx' : 'paladin-run-back.fbx',
-      'run-left': characterClass === 'Wizard' ? 'wizard-standing-run-left.fbx' : 'paladin-run-left.fbx',
-      'run-right': characterClass === 'Wizard' ? 'wizard-standing-run-right.fbx' : 'paladin-run-right.fbx',
-      jump: characterClass === 'Wizard' ? 'wizard-standing-jump.fbx' : 'paladin-jump.fbx',
-      attack1: characterClass === 'Wizard' ? 'wizard-standing-1h-magic-attack-01.fbx' : 'paladin-attack.fbx',
-      cast: characterClass === 'Wizard' ? 'wizard-standing-2h-magic-area-attack-02.fbx' : 'paladin-cast.fbx',
-      damage: characterClass === 'Wizard' ? 'wizard-standing-react-small-from-front.fbx' : 'paladin-damage.fbx',
-      death: characterClass === 'Wizard' ? 'wizard-standing-react-death-backward.fbx' : 'paladin-death.fbx',
-    };
-    
-    // Create animation paths
-    Object.entries(animKeys).forEach(([key, filename]) => {
-      animationPaths[key] = `${basePath}${filename}`;
-    });
-    
-    console.log('Animation paths:', animationPaths);
-    
-    const loader = new FBXLoader();
-    const newAnimations: Record<string, THREE.AnimationAction> = {};
-    let loadedCount = 0;
-    const totalCount = Object.keys(animationPaths).length;
-    
-    console.log(`Will load ${totalCount} animations`);
-    
-    // Load each animation
-    Object.entries(animationPaths).forEach(([name, path]) => {
-      console.log(`Loading animation "${name}" from ${path}`);
-      
-      // First check if the file exists
-      fetch(path)
-        .then(response => {
-          if (!response.ok) {
-            console.error(`Animation file not found: ${path} (${response.status})`);
-            loadedCount++;
-            checkCompletedLoading();
-            return;
-          }
-          
-          // File exists, proceed with loading
-          loadAnimationFile(name, path, mixerInstance);
-        })
-        .catch(error => {
-          console.error(`Network error checking animation file ${path}:`, error);
-          loadedCount++;
-          checkCompletedLoading();
-        });
-    });
-
-    // Function to check if all animations are loaded
-    const checkCompletedLoading = () => {
-      loadedCount++; // Increment here after load attempt (success or fail)
-      if (loadedCount === totalCount) {
-        const successCount = Object.keys(newAnimations).length;
-        if (successCount === totalCount) {
-          console.log(`✅ All ${totalCount} animations loaded successfully.`);
-        } else {
-           console.warn(`⚠️ Loaded ${successCount}/${totalCount} animations. Some might be missing.`);
-        }
-        
-        // Store all successfully loaded animations in component state
-        setAnimations(newAnimations);
-        
-        // Debug: log all available animations
-        console.log("Available animations: ", Object.keys(newAnimations).join(", "));
-        
-        // Play idle animation if available
-        if (newAnimations['idle']) {
-          // Use setTimeout to ensure state update has propagated and mixer is ready
-          setTimeout(() => {
-             if (animationsLoadedRef.current) { // Check if still relevant
-                 console.log('Playing initial idle animation');
-                 // Use the local newAnimations reference to be sure it's available
-                 const idleAction = newAnimations['idle'];
-                 idleAction.reset()
-                           .setEffectiveTimeScale(1)
-                           .setEffectiveWeight(1)
-                           .fadeIn(0.3)
-                           .play();
-                 setCurrentAnimation('idle');
-             }
-          }, 100); 
-        } else {
-          console.error('Idle animation not found among loaded animations! Player might not animate initially.');
-        }
+      // Initialize local refs for local player
+      if (isLocalPlayer) {
+        const initialData = dataRef.current;
+        localPositionRef.current.set(initialData.position.x, initialData.position.y, initialData.position.z);
+        localRotationRef.current.set(0, initialData.rotation.y, 0, 'YXZ');
       }
-    };
 
-    // Function to load an animation file
-    const loadAnimationFile = (name: string, path: string, mixerInstance: THREE.AnimationMixer) => {
-      if (!mixerInstance) {
-        console.error(`Cannot load animation ${name}: mixer is not initialized`);
-        // loadedCount is incremented in checkCompletedLoading call below
-        checkCompletedLoading();
-        return;
+      const idleAction = newAnimations[ANIMATIONS.IDLE];
+      if (idleAction) {
+        idleAction.reset()
+                  .setEffectiveTimeScale(1)
+                  .setEffectiveWeight(1)
+                  .fadeIn(0.3)
+                  .play();
+        setCurrentAnimation(ANIMATIONS.IDLE);
+      } else {
+        console.error(`Idle animation not found for ${characterClass}! Player might not animate initially.`);
       }
-      
-      loader.load(
-        path,
-        (animFbx) => {
-          try {
-            if (!animFbx.animations || animFbx.animations.length === 0) {
-              console.error(`No animations found in ${path}`);
-              checkCompletedLoading(); // Call completion even on error
-              return;
-            }
-            
-            const clip = animFbx.animations[0];
-            console.log(`Animation "${name}" loaded. Duration: ${clip.duration}s, Tracks: ${clip.tracks.length}`);
-            
-            // Try to find hierarchy and parent bone
-            let rootBoneName = '';
-            animFbx.traverse((obj) => {
-              if (obj.type === 'Bone' && !rootBoneName && obj.parent && obj.parent.type === 'Object3D') {
-                rootBoneName = obj.name;
-                // console.log(`Found potential root bone for anim ${name}: ${rootBoneName}`);
-              }
-            });
-            
-            // Apply name to the clip
-            clip.name = name;
-            
-            // Retarget the clip if needed
-            const retargetedClip = retargetClip(clip, path);
-            
-            // Make sure we're in place (remove root motion)
-            makeAnimationInPlace(retargetedClip);
-            
-            const action = mixerInstance.clipAction(retargetedClip);
-            newAnimations[name] = action;
-            
-            // Set loop mode based on animation type
-            if (
-              name === 'idle' ||
-              name.startsWith('walk-') ||
-              name.startsWith('run-')
-            ) {
-              action.setLoop(THREE.LoopRepeat, Infinity);
-            } else {
-              action.setLoop(THREE.LoopOnce, 1);
-              action.clampWhenFinished = true;
-            }
-            
-            console.log(`✅ Animation "${name}" processed and ready.`);
-          } catch (e) {
-            console.error(`Error processing animation ${name}:`, e);
-          }
-          
-          checkCompletedLoading(); // Call completion after processing
-        },
-        (progress) => {
-          // Optional: Log animation loading progress for larger files
-          // if (progress.total > 1000000) { // Only for large files
-          //   console.log(`Loading ${name}: ${Math.round(progress.loaded / progress.total * 100)}%`);
-          // }
-        },
-        (error: any) => {
-          console.error(`Error loading animation ${name} from ${path}: ${error.message || 'Unknown error'}`);
-          checkCompletedLoading(); // Call completion even on error
-        }
-      );
     };
-  };
 
-  // Improve root motion removal function
-  const makeAnimationInPlace = (clip: THREE.AnimationClip) => {
-    // console.log(`Making animation "${clip.name}" in-place`);
-    
-    // Get all position tracks
-    const tracks = clip.tracks;
-    const positionTracks = tracks.filter(track => track.name.endsWith('.position'));
-    
-    if (positionTracks.length === 0) {
-      // console.log(`No position tracks found in "${clip.name}"`);
-      return;
-    }
-    
-    // console.log(`Found ${positionTracks.length} position tracks in "${clip.name}"`);
-    
-    // Find the root position track (typically the first bone)
-    // Common root bone names: Hips, mixamorigHips, root, Armature
-    let rootTrack: THREE.KeyframeTrack | undefined;
-    const rootNames = ['Hips.position', 'mixamorigHips.position', 'root.position', 'Armature.position', 'Root.position'];
-    rootTrack = positionTracks.find(track => rootNames.some(name => track.name.toLowerCase().includes(name.toLowerCase())));
-
-    if (!rootTrack) {
-        // If no common root name found, assume the first position track is the root
-        rootTrack = positionTracks[0];
-        // console.warn(`Using first position track "${rootTrack.name}" as root for in-place conversion for anim "${clip.name}".`);
+    const cached = getLoadedClassAssets(characterClass);
+    if (cached) {
+      setup(cached);
     } else {
-        // console.log(`Using root bone track "${rootTrack.name}" for in-place conversion for anim "${clip.name}"`);
+      // Errors are logged by the asset cache; the player just stays invisible
+      loadClassAssets(characterClass).then(setup).catch(() => {});
     }
-    
-    const rootTrackNameBase = rootTrack.name.split('.')[0];
-
-    // Filter out root position tracks to remove root motion
-    // Keep only the Y component of the root track if needed for jumps, etc.
-    const originalLength = clip.tracks.length;
-    clip.tracks = tracks.filter(track => {
-        if (track.name.startsWith(`${rootTrackNameBase}.position`)) {
-            // Maybe keep Y component in the future if needed, for now remove all XYZ root motion.
-            return false; // Remove X, Y, Z root position tracks
-        }
-        return true; // Keep other tracks
-    });
-    
-    // console.log(`Removed ${originalLength - clip.tracks.length} root motion tracks from "${clip.name}"`);
-  };
-
-  // Add a retargetClip function after makeAnimationInPlace
-  const retargetClip = (clip: THREE.AnimationClip, sourceModelPath: string) => {
-    if (!model) {
-      console.warn("Cannot retarget: model not loaded");
-      return clip;
-    }
-    
-    // console.log(`Retargeting animation "${clip.name}" from ${sourceModelPath}`);
-    
-    // Get source file basename (without extension)
-    const sourceFileName = sourceModelPath.split('/').pop()?.split('.')[0] || '';
-    const targetFileName = mainModelPath.split('/').pop()?.split('.')[0] || '';
-    
-    if (sourceFileName === targetFileName) {
-      // console.log(`Source and target models are the same (${sourceFileName}), no retargeting needed`);
-      return clip;
-    }
-    
-    // console.log(`Retargeting from "${sourceFileName}" to "${targetFileName}"`);
-    
-    // Create a new animation clip
-    const newTracks: THREE.KeyframeTrack[] = [];
-    
-    // Process each track to replace bone names if needed
-    clip.tracks.forEach(track => {
-      // The track name format is usually "boneName.property"
-      const trackNameParts = track.name.split('.');
-      if (trackNameParts.length < 2) {
-        // console.warn(`Strange track name format: ${track.name}`);
-        newTracks.push(track);
-        return;
-      }
-      
-      const boneName = trackNameParts[0];
-      const property = trackNameParts.slice(1).join('.');
-      
-      // Try to find corresponding bone in target model
-      // Check if we need any bone name mappings from source to target
-      let targetBoneName = boneName;
-      
-      // ** Bone Name Mapping (Example) **
-      // If source uses "bip01_" prefix and target uses "mixamorig", map them:
-      // if (boneName.startsWith('bip01_')) {
-      //   targetBoneName = boneName.replace('bip01_', 'mixamorig');
-      // }
-      // Add other mappings as needed based on model skeletons
-      
-      // Add the fixed track
-      const newTrackName = `${targetBoneName}.${property}`;
-      
-      // Only create new track if the name needs to change
-      if (newTrackName !== track.name) {
-        // console.log(`Remapping track: ${track.name} → ${newTrackName}`);
-        
-        // Create a new track with same data but new name
-        let newTrack: THREE.KeyframeTrack;
-        
-        if (track instanceof THREE.QuaternionKeyframeTrack) {
-          newTrack = new THREE.QuaternionKeyframeTrack(
-            newTrackName,
-            Array.from(track.times),
-            Array.from(track.values)
-          );
-        } else if (track instanceof THREE.VectorKeyframeTrack) {
-          newTrack = new THREE.VectorKeyframeTrack(
-            newTrackName,
-            Array.from(track.times),
-            Array.from(track.values)
-          );
-        } else {
-          // Fallback for NumberKeyframeTrack or others
-          newTrack = new THREE.KeyframeTrack(
-            newTrackName,
-            Array.from(track.times),
-            Array.from(track.values)
-          );
-        }
-        
-        newTracks.push(newTrack);
-      } else {
-        newTracks.push(track); // No change needed, push original track
+
+    // Clips are shared with other players, so only this instance's actions and bones are released
+    return () => {
+      cancelled = true;
+      if (instanceMixer) {
+        instanceMixer.stopAllAction();
+        if (instance) instanceMixer.uncacheRoot(instance);
       }
-    });
-    
-    // Create a new animation clip with the fixed tracks
-    return new THREE.AnimationClip(
-      clip.name,
-      clip.duration,
-      newTracks,
-      clip.blendMode
-    );
-  };
+      instance?.removeFromParent();
+      setModel(null);
+      setMixer(null);
+      setAnimations({});
+      setModelLoaded(false);
+    };
+  }, [characterClass, isLocalPlayer]);
 
   // Update playAnimation to have better logging
   const playAnimation = useCallback((name: string, crossfadeDuration = 0.3) => {
@@ -762,7 +451,8 @@ export const Player: React.FC<PlayerProps> = ({
         animations[currentAnimation] &&
         (currentAnimation === ANIMATIONS.JUMP ||
          currentAnimation === ANIMATIONS.ATTACK ||
-         currentAnimation === ANIMATIONS.CAST)
+         currentAnimation === ANIMATIONS.CAST ||
+         currentAnimation === ANIMATIONS.DAMAGE)
       ) {
         const action = animations[currentAnimation];
         
@@ -776,6 +466,7 @@ export const Player: React.FC<PlayerProps> = ({
           // Only act if the finished action is the one we are tracking
           if (event.action === action) {
              // console.log(`Animation finished: ${currentAnimation}. Playing idle.`);
+             hitReactionActiveRef.current = false; // Let server animations drive again
              playAnimation(ANIMATIONS.IDLE, 0.1); // Faster transition back to idle
              mixer.removeEventListener('finished', onFinished); // Remove listener
           }
@@ -859,21 +550,66 @@ export const Player: React.FC<PlayerProps> = ({
 
       if (group.current && modelLoaded) {
         if (isLocalPlayer && currentInput) {
-          // --- LOCAL PLAYER FLYING MOVEMENT (CLIENT-SIDE ONLY) --- 
-          
-          // 1. Calculate position based on current input, rotation, and actual delta time
+          // --- LOCAL PLAYER MOVEMENT (CLIENT-SIDE PREDICTION) --- 
+
+          // 0. Server teleports (e.g. respawn) don't acknowledge a new input - snap straight to them
+          if (playerData.isTeleporting && !teleportHandledRef.current) {
+            teleportHandledRef.current = true;
+            pendingInputsRef.current.clear();
+            localPositionRef.current.set(playerData.position.x, playerData.position.y, playerData.position.z);
+            correctionOffsetRef.current.set(0, 0, 0);
+          } else if (!playerData.isTeleporting) {
+            teleportHandledRef.current = false;
+          }
+
+          // 1. Reconcile when the server acknowledges a newer input sequence
+          if (playerData.lastInputSeq !== lastAckedSeqRef.current) {
+            lastAckedSeqRef.current = playerData.lastInputSeq;
+            reconcileWithServer(playerData);
+          }
+
+          // 2. Smooth out any outstanding correction
+          const correction = correctionOffsetRef.current;
+          if (correction.lengthSq() > 0) {
+            const step = correction.clone().multiplyScalar(RECONCILE_LERP_FACTOR);
+            localPositionRef.current.add(step);
+            correction.sub(step);
+            if (correction.lengthSq() < 1e-6) {
+              localPositionRef.current.add(correction);
+              correction.set(0, 0, 0);
+            }
+          }
+          if (targetServerYawRef.current !== null) {
+            const yawDelta = THREE.MathUtils.euclideanModulo(targetServerYawRef.current - localRotationRef.current.y + Math.PI, 2 * Math.PI) - Math.PI;
+            if (Math.abs(yawDelta) < 0.01) {
+              localRotationRef.current.y = targetServerYawRef.current;
+              targetServerYawRef.current = null;
+            } else {
+              localRotationRef.current.y = THREE.MathUtils.euclideanModulo(localRotationRef.current.y + yawDelta * RECONCILE_LERP_FACTOR + Math.PI, 2 * Math.PI) - Math.PI;
+            }
+            onRotationChange?.(localRotationRef.current);
+          }
+
+          // 3. Predict position with the same rules the server applies to each input in game_tick
           const predictedPosition = calculateClientMovement(
             localPositionRef.current,
             localRotationRef.current,
             currentInput,
             dt // Use actual delta for smoother movement
           );
+
+          // 4. Remember this frame so it can be replayed after the next acknowledgement
+          pendingInputsRef.current.push({
+            sequence: currentInput.sequence,
+            input: { ...currentInput },
+            yaw: localRotationRef.current.y,
+            dt,
+          });
           
-          // 2. Apply position directly 
+          // 5. Apply predicted position directly 
           localPositionRef.current.copy(predictedPosition);
           group.current.position.copy(predictedPosition);
-            
-          // No server reconciliation for flying mode - we're completely client-side now
+          onPositionChange?.(predictedPosition);
 
           // --- Visual Rotation Logic --- 
           let targetVisualYaw = localRotationRef.current.y; // Default: Face camera/mouse direction
@@ -988,18 +724,19 @@ export const Player: React.FC<PlayerProps> = ({
                debugArrowRef.current.parent.remove(debugArrowRef.current);
                debugArrowRef.current = null;
           }
-          // --- REMOTE PLAYER INTERPOLATION --- 
-          const serverPosition = new THREE.Vector3(playerData.position.x, playerData.position.y, playerData.position.z);
-          const targetRotation = new THREE.Euler(0, playerData.rotation.y, 0, 'YXZ');
-
-          // Always interpolate position smoothly for remote players (ignore teleporting flag)
-          group.current.position.lerp(serverPosition, Math.min(1, dt * 5)); // Slower interpolation for smoother movement
-
-          // Interpolate rotation smoothly (using quaternions for better slerp)
-          group.current.quaternion.slerp(
-            new THREE.Quaternion().setFromEuler(targetRotation),
-            Math.min(1, dt * 5) // Slower rotation for smoother movement
-          );
+          // --- REMOTE PLAYER SNAPSHOT INTERPOLATION --- 
+          // Render slightly in the past so we can interpolate between received snapshots
+          const renderTime = performance.now() - interpolationDelayMs;
+          const sampled = getSnapshotBuffer(playerData.identity.toHexString())?.sample(renderTime);
+
+          if (sampled) {
+            group.current.position.set(sampled.x, sampled.y, sampled.z);
+            group.current.quaternion.setFromEuler(new THREE.Euler(0, sampled.yaw, 0, 'YXZ'));
+          } else {
+            // No snapshots yet - fall back to the latest server state
+            group.current.position.set(playerData.position.x, playerData.position.y, playerData.position.z);
+            group.current.quaternion.setFromEuler(new THREE.Euler(0, playerData.rotation.y, 0, 'YXZ'));
+          }
         }
       }
 
@@ -1068,6 +805,23 @@ export const Player: React.FC<PlayerProps> = ({
     }
   });
 
+  // --- Hit Reaction from Combat Events ---
+  useEffect(() => {
+    // Only a new event retriggers, not playAnimation identity changes
+    if (!lastHit || lastHit.id === handledHitIdRef.current || !animations[ANIMATIONS.DAMAGE]) return;
+    handledHitIdRef.current = lastHit.id;
+    if (lastHit.targetHealth <= 0) return; // Killing blow - the server's death animation takes over
+    hitReactionActiveRef.current = true;
+    playAnimation(ANIMATIONS.DAMAGE, 0.1);
+  }, [lastHit, animations, playAnimation]);
+
+  // --- Speech Bubble Timeout ---
+  useEffect(() => {
+    if (!chatBubble) return;
+    const timer = setTimeout(() => setExpiredBubbleKey(chatLineKey(chatBubble)), CHAT_BUBBLE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [chatBubble]);
+
   // --- Animation Triggering based on Server State ---
   useEffect(() => {
     // Explicitly wrap hook body
@@ -1077,6 +831,11 @@ export const Player: React.FC<PlayerProps> = ({
         return;
       }
 
+      // Don't interrupt a hit reaction; the server animation resumes when it finishes
+      if (hitReactionActiveRef.current) {
+        return;
+      }
+
       const serverAnim = playerData.currentAnimation;
 
       // console.log(`[Anim Check] Received ServerAnim: ${serverAnim}, Current LocalAnim: ${currentAnimation}, Is Available: ${!!animations[serverAnim]}`);
@@ -1100,6 +859,9 @@ export const Player: React.FC<PlayerProps> = ({
     }
   }, [playerData.currentAnimation, animations, mixer, playAnimation, currentAnimation]); // Dependencies include things that trigger animation changes
 
+  const emote = getEmote(playerData.currentEmote);
+  const bubble = chatBubble && chatLineKey(chatBubble) !== expiredBubbleKey ? chatBubble : null;
+
   return (
     <group ref={group} castShadow>
       {/* Declarative PointLight */}
@@ -1127,8 +889,19 @@ export const Player: React.FC<PlayerProps> = ({
       {model && (
         <Html position={[0, 2.5, 0]} center distanceFactor={10}>
             <div className="nametag">
-            <div className="nametag-text">{playerData.username}</div>
+            {(emote || bubble) && (
+              <div className="nametag-above">
+                {emote && <div className="nametag-emote" title={emote.label}>{emote.icon}</div>}
+                {bubble && (
+                  <div className={bubble.channel === CHAT_CHANNELS.team ? 'speech-bubble speech-bubble-team' : 'speech-bubble'}>
+                    {bubble.text}
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="nametag-text" style={{ color: team?.color ?? playerData.color }}>{playerData.username}</div>
             <div className="nametag-class">{characterClass}</div>
+            {team && <div className="nametag-color" style={{ color: team.color }}>{team.name}</div>}
             </div>
         </Html>
       )}
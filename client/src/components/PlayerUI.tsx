@@ -4,18 +4,24 @@
  * This component renders the player's heads-up display (HUD) interface:
  * 
  * Key functionality:
- * - Displays player health and mana bars with visual indicators
+ * - Displays player health and mana bars that glide between server values
  * - Implements damage feedback effects (screen flash when damaged)
  * - Shows player status information (name, health/mana values)
- * - Tracks health changes to trigger visual feedback
+ * - Flashes when a combat_event targeting the local player arrives
+ * - Shows a death overlay with a respawn countdown while the player is dead
+ * - Shows owned territory and progress on the square being captured
  * 
  * Props:
  * - playerData: Contains player state information including health, mana, and username
+ * - lastHit: Most recent combat event that targeted the local player
+ * - territoryCount: Number of grid squares the player owns
+ * - captureFraction: Progress (0-1) on the square being captured, null if none
  * 
  * Technical implementation:
- * - Uses React state to track health changes and trigger animations
+ * - Uses React state keyed on the combat event id to trigger animations
  * - Implements CSS-based visual effects for damage feedback
  * - Calculates health/mana percentages for bar visualization
+ * - useSmoothedValue eases the bars towards each new server value every frame
  * - Conditionally renders elements based on player state
  * 
  * Related files:
@@ -24,45 +30,92 @@
  * - common.css: Contains animation definitions for damage flash
  */
 
-import React, { useState, useEffect } from 'react';
-import { PlayerData } from '../generated';
+import React, { useState, useEffect, useRef } from 'react';
+import { PlayerData, CombatEvent } from '../generated';
+
+const BAR_SMOOTHING_RATE = 8; // Exponential ease rate (1/s); higher catches up faster
+const BAR_SNAP_EPSILON = 0.05;
+
+// Eases a displayed value towards the latest server value so bars don't jump
+// on every regen tick or hit
+const useSmoothedValue = (target: number): number => {
+  const [value, setValue] = useState(target);
+  const valueRef = useRef(target);
+
+  useEffect(() => {
+    let frameId = 0;
+    let lastTime = performance.now();
+
+    const step = (time: number) => {
+      const dt = (time - lastTime) / 1000;
+      lastTime = time;
+      const remaining = target - valueRef.current;
+      if (Math.abs(remaining) < BAR_SNAP_EPSILON) {
+        valueRef.current = target;
+        setValue(target);
+        return;
+      }
+      valueRef.current += remaining * Math.min(1, dt * BAR_SMOOTHING_RATE);
+      setValue(valueRef.current);
+      frameId = requestAnimationFrame(step);
+    };
+
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [target]);
+
+  return value;
+};
 
 interface PlayerUIProps {
   playerData: PlayerData | null;
+  lastHit?: CombatEvent;
+  territoryCount?: number;
+  captureFraction?: number | null;
 }
 
-export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData }) => {
+export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData, lastHit, territoryCount = 0, captureFraction = null }) => {
   const [showDamageFlash, setShowDamageFlash] = useState(false);
-  const [lastHealth, setLastHealth] = useState(playerData?.health || 0);
+  const lastHitId = lastHit?.id;
+  const isDead = playerData?.isDead ?? false;
+  const [now, setNow] = useState(() => Date.now());
+  const displayedHealth = useSmoothedValue(playerData?.health ?? 0);
+  const displayedMana = useSmoothedValue(playerData?.mana ?? 0);
   
-  // Check for damage taken and trigger damage flash effect
+  // Trigger the damage flash for every new hit on the local player
   useEffect(() => {
-    if (!playerData) return;
+    if (lastHitId === undefined) return;
     
-    const currentHealth = playerData.health;
+    setShowDamageFlash(true);
     
-    // If health decreased, show damage flash
-    if (currentHealth < lastHealth) {
-      setShowDamageFlash(true);
-      
-      // Remove flash after animation completes
-      const timer = setTimeout(() => {
-        setShowDamageFlash(false);
-      }, 300); // Match CSS animation duration
-      
-      return () => clearTimeout(timer);
-    }
+    // Remove flash after animation completes
+    const timer = setTimeout(() => {
+      setShowDamageFlash(false);
+    }, 300); // Match CSS animation duration
     
-    // Update last health value
-    setLastHealth(currentHealth);
-  }, [playerData?.health, lastHealth]);
+    return () => clearTimeout(timer);
+  }, [lastHitId]);
+  
+  // Tick the respawn countdown while dead
+  useEffect(() => {
+    if (!isDead) return;
+    
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [isDead]);
   
   // Don't render if no player data
   if (!playerData) return null;
   
   // Calculate health and mana percentages
-  const healthPercent = (playerData.health / playerData.maxHealth) * 100;
-  const manaPercent = (playerData.mana / playerData.maxMana) * 100;
+  const healthPercent = (displayedHealth / playerData.maxHealth) * 100;
+  const manaPercent = (displayedMana / playerData.maxMana) * 100;
+  
+  // Seconds until the server respawns us (server clock, so clamp at zero)
+  const respawnSeconds = playerData.respawnAt
+    ? Math.max(0, Math.ceil((playerData.respawnAt.toDate().getTime() - now) / 1000))
+    : 0;
   
   return (
     <>
@@ -81,9 +134,26 @@ export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData }) => {
         />
       </div>
       
-      {/* Damage flash overlay */}
+      {/* Damage flash overlay (keyed so back-to-back hits restart the animation) */}
       {showDamageFlash && (
-        <div className="damage-overlay damage-flash" />
+        <div key={String(lastHitId)} className="damage-overlay damage-flash" />
+      )}
+      
+      {/* Capture progress for the square under the player */}
+      {captureFraction !== null && (
+        <div className="capture-bar-container">
+          <div className="capture-bar" style={{ width: `${Math.min(1, captureFraction) * 100}%` }} />
+        </div>
+      )}
+      
+      {/* Death overlay with respawn countdown */}
+      {isDead && (
+        <div className="death-overlay">
+          <div className="death-title">You died</div>
+          <div className="death-countdown">
+            {respawnSeconds > 0 ? `Respawning in ${respawnSeconds}s` : 'Respawning...'}
+          </div>
+        </div>
       )}
       
       {/* Player status text */}
@@ -91,6 +161,7 @@ export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData }) => {
         <div className="player-name">{playerData.username}</div>
         <div className="player-health">HP: {playerData.health}/{playerData.maxHealth}</div>
         <div className="player-mana">MP: {playerData.mana}/{playerData.maxMana}</div>
+        <div className="player-territory">Territory: {territoryCount} {territoryCount === 1 ? 'square' : 'squares'}</div>
       </div>
     </>
   );
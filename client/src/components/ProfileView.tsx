@@ -0,0 +1,125 @@
+/**
+ * ProfileView.tsx
+ *
+ * Lifetime stats for the local player, opened from the JoinGameDialog:
+ *
+ * Key functionality:
+ * - Shows kills, deaths, squares captured, matches played and wins from the
+ *   player_profile table, plus derived K/D and win rate
+ * - Shows total play time, including the current session while connected
+ *
+ * Props:
+ * - profile: The local player's profile (null until the subscription delivers it)
+ * - onClose: Returns to the join dialog
+ *
+ * Related files:
+ * - JoinGameDialog.tsx: Opens this view
+ * - server/src/profile_logic.rs: Maintains the profile rows
+ */
+
+import React, { useState, useEffect } from 'react';
+import { PlayerProfile } from '../generated';
+
+interface ProfileViewProps {
+  profile: PlayerProfile | null;
+  onClose: () => void;
+}
+
+// Closed sessions plus the one in progress
+const getPlaySeconds = (profile: PlayerProfile, now: number): number => {
+  const current = profile.sessionStartedAt
+    ? Math.max(0, Math.floor((now - profile.sessionStartedAt.toDate().getTime()) / 1000))
+    : 0;
+  return Number(profile.totalPlaySeconds) + current;
+};
+
+const formatPlayTime = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${totalSeconds % 60}s`;
+};
+
+export const ProfileView: React.FC<ProfileViewProps> = ({ profile, onClose }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the play time ticking while the view is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!profile) {
+    return (
+      <div>
+        <h2>Profile</h2>
+        <p style={styles.empty}>Profile not loaded yet.</p>
+        <button type="button" onClick={onClose} style={styles.button}>Back</button>
+      </div>
+    );
+  }
+
+  const kdRatio = profile.deaths > 0 ? (profile.kills / profile.deaths).toFixed(2) : String(profile.kills);
+  const winRate = profile.matchesPlayed > 0 ? `${Math.round((profile.wins / profile.matchesPlayed) * 100)}%` : '-';
+  const rows: [string, string | number][] = [
+    ['Kills', profile.kills],
+    ['Deaths', profile.deaths],
+    ['K/D', kdRatio],
+    ['Squares Captured', profile.squaresCaptured],
+    ['Matches Played', profile.matchesPlayed],
+    ['Wins', `${profile.wins} (${winRate})`],
+    ['Play Time', formatPlayTime(getPlaySeconds(profile, now))],
+    ['Playing Since', profile.createdAt.toDate().toLocaleDateString()],
+  ];
+
+  return (
+    <div>
+      <h2>{profile.username || 'Profile'}</h2>
+      <table style={styles.table}>
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td style={styles.label}>{label}</td>
+              <td style={styles.value}>{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" onClick={onClose} style={styles.button}>Back</button>
+    </div>
+  );
+};
+
+// Styles match JoinGameDialog
+const styles: { [key: string]: React.CSSProperties } = {
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    marginBottom: '20px',
+    fontSize: '14px',
+  },
+  label: {
+    textAlign: 'left',
+    padding: '6px',
+    color: '#aaa',
+    borderBottom: '1px solid #444',
+  },
+  value: {
+    textAlign: 'right',
+    padding: '6px',
+    borderBottom: '1px solid #444',
+  },
+  empty: {
+    color: '#aaa',
+    fontSize: '14px',
+    marginBottom: '20px',
+  },
+  button: {
+    padding: '12px 25px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#4a90e2',
+    color: 'white',
+    fontSize: '16px',
+    cursor: 'pointer',
+  },
+};
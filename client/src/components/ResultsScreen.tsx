@@ -0,0 +1,150 @@
+/**
+ * ResultsScreen.tsx
+ *
+ * Results of the finished match, shown between rounds in place of the
+ * JoinGameDialog:
+ *
+ * Key functionality:
+ * - Announces the winning team (or player) and why the round ended
+ * - Lists every player's kills, deaths and captured squares
+ * - Counts down to the next lobby; the server closes the screen by opening it
+ *
+ * Props:
+ * - match: The finished game_match row
+ * - results: match_result rows for that match
+ * - teams: Team id -> team, for names and colors
+ * - localIdentity: Highlights the local player's row
+ *
+ * Related files:
+ * - App.tsx: Shows this while the current match is finished
+ * - JoinGameDialog.tsx: Shares its overlay/dialog look
+ * - server/src/match_logic.rs: Writes the winner and match_result rows
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { GameMatch, MatchResult, Team } from '../generated';
+import { secondsUntil } from '../utils/matchState';
+
+interface ResultsScreenProps {
+  match: GameMatch;
+  results: MatchResult[];
+  teams: ReadonlyMap<number, Team>;
+  localIdentity: Identity | null;
+}
+
+const WIN_REASONS: Record<string, string> = {
+  territory: 'by territory',
+  kills: 'by kills',
+  time: 'when time ran out',
+};
+
+export const ResultsScreen: React.FC<ResultsScreenProps> = ({ match, results, teams, localIdentity }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the "next round" countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const winningTeam = teams.get(match.winnerTeam);
+  const winner = match.winner;
+  const winningPlayer = winner ? results.find((result) => result.identity.isEqual(winner)) : undefined;
+
+  let headline: string;
+  if (winningTeam) {
+    headline = `${winningTeam.name} team wins`;
+  } else if (winningPlayer) {
+    headline = `${winningPlayer.username} wins`;
+  } else {
+    headline = match.winReason === 'abandoned' ? 'Round abandoned' : 'Draw';
+  }
+  const reason = WIN_REASONS[match.winReason];
+
+  const sortedResults = [...results].sort((a, b) => b.squares - a.squares || b.kills - a.kills || a.deaths - b.deaths);
+
+  return (
+    <div style={styles.overlay}>
+      <div style={styles.dialog}>
+        <h2 style={{ margin: '0 0 5px 0', color: winningTeam?.color ?? '#eee' }}>{headline}</h2>
+        {reason && <div style={styles.subtitle}>{reason}</div>}
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.nameCell}>Player</th>
+              <th style={styles.cell}>Squares</th>
+              <th style={styles.cell}>Kills</th>
+              <th style={styles.cell}>Deaths</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedResults.map((result) => {
+              const team = teams.get(result.teamId);
+              const isLocal = localIdentity !== null && result.identity.isEqual(localIdentity);
+              return (
+                <tr key={String(result.id)} style={isLocal ? styles.localRow : undefined}>
+                  <td style={{ ...styles.nameCell, color: team?.color ?? '#eee' }}>{result.username}</td>
+                  <td style={styles.cell}>{result.squares}</td>
+                  <td style={styles.cell}>{result.kills}</td>
+                  <td style={styles.cell}>{result.deaths}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div style={styles.subtitle}>Next round in {secondsUntil(match.phaseEndsAt, now)}s</div>
+      </div>
+    </div>
+  );
+};
+
+// Styles match JoinGameDialog
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+  dialog: {
+    backgroundColor: '#2a2a3a',
+    padding: '30px',
+    borderRadius: '8px',
+    border: '1px solid #444',
+    boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)',
+    color: '#eee',
+    width: '420px',
+    textAlign: 'center',
+  },
+  subtitle: {
+    color: '#aaa',
+    fontSize: '14px',
+    margin: '10px 0',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    margin: '15px 0',
+    fontSize: '14px',
+  },
+  nameCell: {
+    textAlign: 'left',
+    padding: '6px',
+    borderBottom: '1px solid #444',
+  },
+  cell: {
+    textAlign: 'right',
+    padding: '6px',
+    borderBottom: '1px solid #444',
+  },
+  localRow: {
+    backgroundColor: 'rgba(74, 144, 226, 0.25)',
+  },
+};
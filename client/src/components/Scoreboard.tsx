@@ -0,0 +1,96 @@
+/**
+ * Scoreboard.tsx
+ *
+ * Overlay shown while Tab is held, next to the PlayerUI HUD:
+ *
+ * Key functionality:
+ * - Lists every active player with team, current-match score, kills, deaths and ping
+ * - Shows the all-time kills and territory leaderboards
+ * - Updates live: every value comes from subscribed player and leaderboard_entry rows
+ *
+ * Props:
+ * - players: player_summary rows of every active player (kills, deaths, ping, team)
+ * - teams: Team id -> team, for names and colors
+ * - leaderboards: leaderboard_entry rows grouped by board (see utils/leaderboards.ts)
+ * - localIdentity: Highlights the local player's row
+ *
+ * Related files:
+ * - App.tsx: Shows this while Tab is held
+ * - server/src/leaderboard_logic.rs: Computes scores and rankings
+ */
+
+import React from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerSummary, Team, LeaderboardEntry } from '../generated';
+import { LEADERBOARDS } from '../utils/leaderboards';
+
+interface ScoreboardProps {
+  players: ReadonlyMap<string, PlayerSummary>;
+  teams: ReadonlyMap<number, Team>;
+  leaderboards: ReadonlyMap<string, LeaderboardEntry[]>;
+  localIdentity: Identity | null;
+}
+
+const ALL_TIME_ROWS = 5;
+
+export const Scoreboard: React.FC<ScoreboardProps> = ({ players, teams, leaderboards, localIdentity }) => {
+  const scores = new Map<string, number>();
+  for (const entry of leaderboards.get(LEADERBOARDS.matchScore) ?? []) {
+    scores.set(entry.identity.toHexString(), entry.value);
+  }
+  const scoreOf = (player: PlayerSummary) => scores.get(player.identity.toHexString()) ?? 0;
+
+  // Grouped by team, best score first within a team
+  const rows = Array.from(players.values()).sort(
+    (a, b) => a.teamId - b.teamId || scoreOf(b) - scoreOf(a) || a.username.localeCompare(b.username),
+  );
+  const localHex = localIdentity?.toHexString();
+
+  const renderAllTime = (title: string, board: string, unit: string) => (
+    <div className="scoreboard-all-time">
+      <div className="scoreboard-subtitle">{title}</div>
+      {(leaderboards.get(board) ?? []).slice(0, ALL_TIME_ROWS).map((entry) => (
+        <div key={entry.key}>
+          {entry.rank}. {entry.username || entry.identity.toHexString().substring(0, 8)} - {entry.value} {unit}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="scoreboard">
+      <table className="scoreboard-table">
+        <thead>
+          <tr>
+            <th className="scoreboard-name">Player</th>
+            <th>Team</th>
+            <th>Score</th>
+            <th>K</th>
+            <th>D</th>
+            <th>Ping</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((player) => {
+            const hex = player.identity.toHexString();
+            const team = teams.get(player.teamId);
+            return (
+              <tr key={hex} className={hex === localHex ? 'scoreboard-local' : undefined}>
+                <td className="scoreboard-name">{player.username}</td>
+                <td style={{ color: team?.color }}>{team?.name ?? '-'}</td>
+                <td>{scoreOf(player)}</td>
+                <td>{player.kills}</td>
+                <td>{player.deaths}</td>
+                <td>{player.pingMs > 0 ? `${player.pingMs} ms` : '-'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="scoreboard-all-time-row">
+        {renderAllTime('All-time kills', LEADERBOARDS.allTimeKills, 'kills')}
+        {renderAllTime('All-time territory', LEADERBOARDS.allTimeTerritory, 'squares')}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type AbilityStats = {
+  damage: number,
+  range: number,
+  manaCost: number,
+  cooldownMs: number,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace AbilityStats {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("damage", AlgebraicType.createI32Type()),
+      new ProductTypeElement("range", AlgebraicType.createF32Type()),
+      new ProductTypeElement("manaCost", AlgebraicType.createI32Type()),
+      new ProductTypeElement("cooldownMs", AlgebraicType.createU32Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: AbilityStats): void {
+    AbilityStats.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): AbilityStats {
+    return AbilityStats.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
@@ -0,0 +1,106 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+import { Admin } from "./admin_type";
+import { EventContext, Reducer, RemoteReducers, RemoteTables } from ".";
+
+/**
+ * Table handle for the table `admin`.
+ *
+ * Obtain a handle from the [`admin`] property on [`RemoteTables`],
+ * like `ctx.db.admin`.
+ *
+ * Users are encouraged not to explicitly reference this type,
+ * but to directly chain method calls,
+ * like `ctx.db.admin.on_insert(...)`.
+ */
+export class AdminTableHandle {
+  tableCache: TableCache<Admin>;
+
+  constructor(tableCache: TableCache<Admin>) {
+    this.tableCache = tableCache;
+  }
+
+  count(): number {
+    return this.tableCache.count();
+  }
+
+  iter(): Iterable<Admin> {
+    return this.tableCache.iter();
+  }
+  /**
+   * Access to the `identity` unique index on the table `admin`,
+   * which allows point queries on the field of the same name
+   * via the [`AdminIdentityUnique.find`] method.
+   *
+   * Users are encouraged not to explicitly reference this type,
+   * but to directly chain method calls,
+   * like `ctx.db.admin.identity().find(...)`.
+   *
+   * Get a handle on the `identity` unique index on the table `admin`.
+   */
+  identity = {
+    // Find the subscribed row whose `identity` column value is equal to `col_val`,
+    // if such a row is present in the client cache.
+    find: (col_val: Identity): Admin | undefined => {
+      for (let row of this.tableCache.iter()) {
+        if (deepEqual(row.identity, col_val)) {
+          return row;
+        }
+      }
+    },
+  };
+
+  onInsert = (cb: (ctx: EventContext, row: Admin) => void) => {
+    return this.tableCache.onInsert(cb);
+  }
+
+  removeOnInsert = (cb: (ctx: EventContext, row: Admin) => void) => {
+    return this.tableCache.removeOnInsert(cb);
+  }
+
+  onDelete = (cb: (ctx: EventContext, row: Admin) => void) => {
+    return this.tableCache.onDelete(cb);
+  }
+
+  removeOnDelete = (cb: (ctx: EventContext, row: Admin) => void) => {
+    return this.tableCache.removeOnDelete(cb);
+  }
+
+  // Updates are only defined for tables with primary keys.
+  onUpdate = (cb: (ctx: EventContext, oldRow: Admin, newRow: Admin) => void) => {
+    return this.tableCache.onUpdate(cb);
+  }
+
+  removeOnUpdate = (cb: (ctx: EventContext, onRow: Admin, newRow: Admin) => void) => {
+    return this.tableCache.removeOnUpdate(cb);
+  }}
@@ -0,0 +1,63 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type Admin = {
+  identity: Identity,
+  addedAt: Timestamp,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace Admin {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("identity", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("addedAt", AlgebraicType.createTimestampType()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: Admin): void {
+    Admin.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): Admin {
+    return Admin.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
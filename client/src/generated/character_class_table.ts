@@ -0,0 +1,108 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+import { CharacterClass } from "./character_class_type";
+import { AbilityStats as __AbilityStats } from "./ability_stats_type";
+
+import { EventContext, Reducer, RemoteReducers, RemoteTables } from ".";
+
+/**
+ * Table handle for the table `character_class`.
+ *
+ * Obtain a handle from the [`characterClass`] property on [`RemoteTables`],
+ * like `ctx.db.characterClass`.
+ *
+ * Users are encouraged not to explicitly reference this type,
+ * but to directly chain method calls,
+ * like `ctx.db.characterClass.on_insert(...)`.
+ */
+export class CharacterClassTableHandle {
+  tableCache: TableCache<CharacterClass>;
+
+  constructor(tableCache: TableCache<CharacterClass>) {
+    this.tableCache = tableCache;
+  }
+
+  count(): number {
+    return this.tableCache.count();
+  }
+
+  iter(): Iterable<CharacterClass> {
+    return this.tableCache.iter();
+  }
+  /**
+   * Access to the `name` unique index on the table `character_class`,
+   * which allows point queries on the field of the same name
+   * via the [`CharacterClassNameUnique.find`] method.
+   *
+   * Users are encouraged not to explicitly reference this type,
+   * but to directly chain method calls,
+   * like `ctx.db.characterClass.name().find(...)`.
+   *
+   * Get a handle on the `name` unique index on the table `character_class`.
+   */
+  name = {
+    // Find the subscribed row whose `name` column value is equal to `col_val`,
+    // if such a row is present in the client cache.
+    find: (col_val: string): CharacterClass | undefined => {
+      for (let row of this.tableCache.iter()) {
+        if (deepEqual(row.name, col_val)) {
+          return row;
+        }
+      }
+    },
+  };
+
+  onInsert = (cb: (ctx: EventContext, row: CharacterClass) => void) => {
+    return this.tableCache.onInsert(cb);
+  }
+
+  removeOnInsert = (cb: (ctx: EventContext, row: CharacterClass) => void) => {
+    return this.tableCache.removeOnInsert(cb);
+  }
+
+  onDelete = (cb: (ctx: EventContext, row: CharacterClass) => void) => {
+    return this.tableCache.onDelete(cb);
+  }
+
+  removeOnDelete = (cb: (ctx: EventContext, row: CharacterClass) => void) => {
+    return this.tableCache.removeOnDelete(cb);
+  }
+
+  // Updates are only defined for tables with primary keys.
+  onUpdate = (cb: (ctx: EventContext, oldRow: CharacterClass, newRow: CharacterClass) => void) => {
+    return this.tableCache.onUpdate(cb);
+  }
+
+  removeOnUpdate = (cb: (ctx: EventContext, onRow: CharacterClass, newRow: CharacterClass) => void) => {
+    return this.tableCache.removeOnUpdate(cb);
+  }}
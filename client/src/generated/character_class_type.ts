@@ -0,0 +1,79 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+import { AbilityStats as __AbilityStats } from "./ability_stats_type";
+
+export type CharacterClass = {
+  name: string,
+  maxHealth: number,
+  maxMana: number,
+  healthRegenPerSecond: number,
+  manaRegenPerSecond: number,
+  speedMultiplier: number,
+  sprintMultiplier: number,
+  attack: __AbilityStats,
+  spell: __AbilityStats,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace CharacterClass {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("name", AlgebraicType.createStringType()),
+      new ProductTypeElement("maxHealth", AlgebraicType.createI32Type()),
+      new ProductTypeElement("maxMana", AlgebraicType.createI32Type()),
+      new ProductTypeElement("healthRegenPerSecond", AlgebraicType.createF32Type()),
+      new ProductTypeElement("manaRegenPerSecond", AlgebraicType.createF32Type()),
+      new ProductTypeElement("speedMultiplier", AlgebraicType.createF32Type()),
+      new ProductTypeElement("sprintMultiplier", AlgebraicType.createF32Type()),
+      new ProductTypeElement("attack", __AbilityStats.getTypeScriptAlgebraicType()),
+      new ProductTypeElement("spell", __AbilityStats.getTypeScriptAlgebraicType()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: CharacterClass): void {
+    CharacterClass.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): CharacterClass {
+    return CharacterClass.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
@@ -0,0 +1,106 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+import { ChatFilterWord } from "./chat_filter_word_type";
+import { EventContext, Reducer, RemoteReducers, RemoteTables } from ".";
+
+/**
+ * Table handle for the table `chat_filter_word`.
+ *
+ * Obtain a handle from the [`chatFilterWord`] property on [`RemoteTables`],
+ * like `ctx.db.chatFilterWord`.
+ *
+ * Users are encouraged not to explicitly reference this type,
+ * but to directly chain method calls,
+ * like `ctx.db.chatFilterWord.on_insert(...)`.
+ */
+export class ChatFilterWordTableHandle {
+  tableCache: TableCache<ChatFilterWord>;
+
+  constructor(tableCache: TableCache<ChatFilterWord>) {
+    this.tableCache = tableCache;
+  }
+
+  count(): number {
+    return this.tableCache.count();
+  }
+
+  iter(): Iterable<ChatFilterWord> {
+    return this.tableCache.iter();
+  }
+  /**
+   * Access to the `word` unique index on the table `chat_filter_word`,
+   * which allows point queries on the field of the same name
+   * via the [`ChatFilterWordWordUnique.find`] method.
+   *
+   * Users are encouraged not to explicitly reference this type,
+   * but to directly chain method calls,
+   * like `ctx.db.chatFilterWord.word().find(...)`.
+   *
+   * Get a handle on the `word` unique index on the table `chat_filter_word`.
+   */
+  word = {
+    // Find the subscribed row whose `word` column value is equal to `col_val`,
+    // if such a row is present in the client cache.
+    find: (col_val: string): ChatFilterWord | undefined => {
+      for (let row of this.tableCache.iter()) {
+        if (deepEqual(row.word, col_val)) {
+          return row;
+        }
+      }
+    },
+  };
+
+  onInsert = (cb: (ctx: EventContext, row: ChatFilterWord) => void) => {
+    return this.tableCache.onInsert(cb);
+  }
+
+  removeOnInsert = (cb: (ctx: EventContext, row: ChatFilterWord) => void) => {
+    return this.tableCache.removeOnInsert(cb);
+  }
+
+  onDelete = (cb: (ctx: EventContext, row: ChatFilterWord) => void) => {
+    return this.tableCache.onDelete(cb);
+  }
+
+  removeOnDelete = (cb: (ctx: EventContext, row: ChatFilterWord) => void) => {
+    return this.tableCache.removeOnDelete(cb);
+  }
+
+  // Updates are only defined for tables with primary keys.
+  onUpdate = (cb: (ctx: EventContext, oldRow: ChatFilterWord, newRow: ChatFilterWord) => void) => {
+    return this.tableCache.onUpdate(cb);
+  }
+
+  removeOnUpdate = (cb: (ctx: EventContext, onRow: ChatFilterWord, newRow: ChatFilterWord) => void) => {
+    return this.tableCache.removeOnUpdate(cb);
+  }}
@@ -0,0 +1,73 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type CombatEvent = {
+  id: bigint,
+  attacker: Identity,
+  target: Identity,
+  kind: string,
+  damage: number,
+  targetHealth: number,
+  timestamp: Timestamp,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace CombatEvent {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("id", AlgebraicType.createU64Type()),
+      new ProductTypeElement("attacker", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("target", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("kind", AlgebraicType.createStringType()),
+      new ProductTypeElement("damage", AlgebraicType.createI32Type()),
+      new ProductTypeElement("targetHealth", AlgebraicType.createI32Type()),
+      new ProductTypeElement("timestamp", AlgebraicType.createTimestampType()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: CombatEvent): void {
+    CombatEvent.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): CombatEvent {
+    return CombatEvent.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
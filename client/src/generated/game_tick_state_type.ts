@@ -0,0 +1,67 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type GameTickState = {
+  id: number,
+  lastTick: Timestamp,
+  appliedIntervalMs: bigint,
+  tickCount: bigint,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace GameTickState {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("id", AlgebraicType.createU32Type()),
+      new ProductTypeElement("lastTick", AlgebraicType.createTimestampType()),
+      new ProductTypeElement("appliedIntervalMs", AlgebraicType.createU64Type()),
+      new ProductTypeElement("tickCount", AlgebraicType.createU64Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: GameTickState): void {
+    GameTickState.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): GameTickState {
+    return GameTickState.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
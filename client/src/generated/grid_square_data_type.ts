@@ -32,8 +32,13 @@ import {
 } from "@clockworklabs/spacetimedb-sdk";
 export type GridSquareData = {
   key: string,
+  chunkX: number,
+  chunkZ: number,
   selected: boolean,
   lastModifiedBy: Identity,
+  owner: Identity | undefined,
+  ownerTeam: number,
+  capturedAt: Timestamp | undefined,
 };
 
 /**
@@ -47,8 +52,13 @@ export namespace GridSquareData {
   export function getTypeScriptAlgebraicType(): AlgebraicType {
     return AlgebraicType.createProductType([
       new ProductTypeElement("key", AlgebraicType.createStringType()),
+      new ProductTypeElement("chunkX", AlgebraicType.createU32Type()),
+      new ProductTypeElement("chunkZ", AlgebraicType.createU32Type()),
       new ProductTypeElement("selected", AlgebraicType.createBoolType()),
       new ProductTypeElement("lastModifiedBy", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("owner", AlgebraicType.createOptionType(AlgebraicType.createIdentityType())),
+      new ProductTypeElement("ownerTeam", AlgebraicType.createU32Type()),
+      new ProductTypeElement("capturedAt", AlgebraicType.createOptionType(AlgebraicType.createTimestampType())),
     ]);
   }
 
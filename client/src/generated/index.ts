@@ -32,67 +32,317 @@ import {
 } from "@clockworklabs/spacetimedb-sdk";
 
 // Import and reexport all reducer arg types
+import { Attack } from "./attack_reducer.ts";
+export { Attack };
+import { BanPlayer } from "./ban_player_reducer.ts";
+export { BanPlayer };
+import { CastSpell } from "./cast_spell_reducer.ts";
+export { CastSpell };
 import { GameTick } from "./game_tick_reducer.ts";
 export { GameTick };
 import { IdentityConnected } from "./identity_connected_reducer.ts";
 export { IdentityConnected };
 import { IdentityDisconnected } from "./identity_disconnected_reducer.ts";
 export { IdentityDisconnected };
+import { KickPlayer } from "./kick_player_reducer.ts";
+export { KickPlayer };
+import { MutePlayer } from "./mute_player_reducer.ts";
+export { MutePlayer };
+import { PlayEmote } from "./play_emote_reducer.ts";
+export { PlayEmote };
 import { RegisterPlayer } from "./register_player_reducer.ts";
 export { RegisterPlayer };
+import { ReportPing } from "./report_ping_reducer.ts";
+export { ReportPing };
+import { ResetGrid } from "./reset_grid_reducer.ts";
+export { ResetGrid };
+import { SendChatMessage } from "./send_chat_message_reducer.ts";
+export { SendChatMessage };
+import { TeleportPlayer } from "./teleport_player_reducer.ts";
+export { TeleportPlayer };
 import { ToggleGridSquare } from "./toggle_grid_square_reducer.ts";
 export { ToggleGridSquare };
-import { UpdatePlayerInput } from "./update_player_input_reducer.ts";
-export { UpdatePlayerInput };
+import { UpdatePlayerInputs } from "./update_player_inputs_reducer.ts";
+export { UpdatePlayerInputs };
 
 // Import and reexport all table handle types
+import { AdminTableHandle } from "./admin_table.ts";
+export { AdminTableHandle };
+import { BanTableHandle } from "./ban_table.ts";
+export { BanTableHandle };
+import { CaptureProgressTableHandle } from "./capture_progress_table.ts";
+export { CaptureProgressTableHandle };
+import { CharacterClassTableHandle } from "./character_class_table.ts";
+export { CharacterClassTableHandle };
+import { ChatFilterWordTableHandle } from "./chat_filter_word_table.ts";
+export { ChatFilterWordTableHandle };
+import { ChatMessageTableHandle } from "./chat_message_table.ts";
+export { ChatMessageTableHandle };
+import { ChatMuteTableHandle } from "./chat_mute_table.ts";
+export { ChatMuteTableHandle };
+import { ChatRateLimitTableHandle } from "./chat_rate_limit_table.ts";
+export { ChatRateLimitTableHandle };
+import { CombatEventTableHandle } from "./combat_event_table.ts";
+export { CombatEventTableHandle };
+import { CombatStateTableHandle } from "./combat_state_table.ts";
+export { CombatStateTableHandle };
+import { GameMatchTableHandle } from "./game_match_table.ts";
+export { GameMatchTableHandle };
 import { GameTickScheduleTableHandle } from "./game_tick_schedule_table.ts";
 export { GameTickScheduleTableHandle };
+import { GameTickStateTableHandle } from "./game_tick_state_table.ts";
+export { GameTickStateTableHandle };
 import { GridSquareTableHandle } from "./grid_square_table.ts";
 export { GridSquareTableHandle };
+import { LeaderboardEntryTableHandle } from "./leaderboard_entry_table.ts";
+export { LeaderboardEntryTableHandle };
 import { LoggedOutPlayerTableHandle } from "./logged_out_player_table.ts";
 export { LoggedOutPlayerTableHandle };
+import { MatchResultTableHandle } from "./match_result_table.ts";
+export { MatchResultTableHandle };
+import { MovementCheckTableHandle } from "./movement_check_table.ts";
+export { MovementCheckTableHandle };
 import { PlayerTableHandle } from "./player_table.ts";
 export { PlayerTableHandle };
+import { PlayerProfileTableHandle } from "./player_profile_table.ts";
+export { PlayerProfileTableHandle };
+import { PlayerSummaryTableHandle } from "./player_summary_table.ts";
+export { PlayerSummaryTableHandle };
+import { PrivateChatMessageTableHandle } from "./private_chat_message_table.ts";
+export { PrivateChatMessageTableHandle };
+import { RateLimitBucketTableHandle } from "./rate_limit_bucket_table.ts";
+export { RateLimitBucketTableHandle };
+import { RateLimitBudgetTableHandle } from "./rate_limit_budget_table.ts";
+export { RateLimitBudgetTableHandle };
+import { ServerConfigTableHandle } from "./server_config_table.ts";
+export { ServerConfigTableHandle };
+import { SpawnPointTableHandle } from "./spawn_point_table.ts";
+export { SpawnPointTableHandle };
+import { SuspiciousActivityTableHandle } from "./suspicious_activity_table.ts";
+export { SuspiciousActivityTableHandle };
+import { TeamTableHandle } from "./team_table.ts";
+export { TeamTableHandle };
 
 // Import and reexport all types
+import { AbilityStats } from "./ability_stats_type.ts";
+export { AbilityStats };
+import { Admin } from "./admin_type.ts";
+export { Admin };
+import { Ban } from "./ban_type.ts";
+export { Ban };
+import { CaptureProgress } from "./capture_progress_type.ts";
+export { CaptureProgress };
+import { CharacterClass } from "./character_class_type.ts";
+export { CharacterClass };
+import { ChatFilterWord } from "./chat_filter_word_type.ts";
+export { ChatFilterWord };
+import { ChatMessage } from "./chat_message_type.ts";
+export { ChatMessage };
+import { ChatMute } from "./chat_mute_type.ts";
+export { ChatMute };
+import { ChatRateLimit } from "./chat_rate_limit_type.ts";
+export { ChatRateLimit };
+import { CombatEvent } from "./combat_event_type.ts";
+export { CombatEvent };
+import { CombatState } from "./combat_state_type.ts";
+export { CombatState };
+import { GameMatch } from "./game_match_type.ts";
+export { GameMatch };
 import { GameTickSchedule } from "./game_tick_schedule_type.ts";
 export { GameTickSchedule };
+import { GameTickState } from "./game_tick_state_type.ts";
+export { GameTickState };
 import { GridSquareData } from "./grid_square_data_type.ts";
 export { GridSquareData };
 import { InputState } from "./input_state_type.ts";
 export { InputState };
+import { LeaderboardEntry } from "./leaderboard_entry_type.ts";
+export { LeaderboardEntry };
 import { LoggedOutPlayerData } from "./logged_out_player_data_type.ts";
 export { LoggedOutPlayerData };
+import { MatchResult } from "./match_result_type.ts";
+export { MatchResult };
+import { MovementCheck } from "./movement_check_type.ts";
+export { MovementCheck };
 import { PlayerData } from "./player_data_type.ts";
 export { PlayerData };
+import { PlayerProfile } from "./player_profile_type.ts";
+export { PlayerProfile };
+import { PlayerSummary } from "./player_summary_type.ts";
+export { PlayerSummary };
+import { PrivateChatMessage } from "./private_chat_message_type.ts";
+export { PrivateChatMessage };
+import { RateLimitBucket } from "./rate_limit_bucket_type.ts";
+export { RateLimitBucket };
+import { RateLimitBudget } from "./rate_limit_budget_type.ts";
+export { RateLimitBudget };
+import { ServerConfig } from "./server_config_type.ts";
+export { ServerConfig };
+import { SpawnPoint } from "./spawn_point_type.ts";
+export { SpawnPoint };
+import { SuspiciousActivity } from "./suspicious_activity_type.ts";
+export { SuspiciousActivity };
+import { Team } from "./team_type.ts";
+export { Team };
 import { Vector3 } from "./vector_3_type.ts";
 export { Vector3 };
 
 const REMOTE_MODULE = {
   tables: {
+    admin: {
+      tableName: "admin",
+      rowType: Admin.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    ban: {
+      tableName: "ban",
+      rowType: Ban.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    capture_progress: {
+      tableName: "capture_progress",
+      rowType: CaptureProgress.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    character_class: {
+      tableName: "character_class",
+      rowType: CharacterClass.getTypeScriptAlgebraicType(),
+      primaryKey: "name",
+    },
+    chat_filter_word: {
+      tableName: "chat_filter_word",
+      rowType: ChatFilterWord.getTypeScriptAlgebraicType(),
+      primaryKey: "word",
+    },
+    chat_message: {
+      tableName: "chat_message",
+      rowType: ChatMessage.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    chat_mute: {
+      tableName: "chat_mute",
+      rowType: ChatMute.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    chat_rate_limit: {
+      tableName: "chat_rate_limit",
+      rowType: ChatRateLimit.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    combat_event: {
+      tableName: "combat_event",
+      rowType: CombatEvent.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    combat_state: {
+      tableName: "combat_state",
+      rowType: CombatState.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    game_match: {
+      tableName: "game_match",
+      rowType: GameMatch.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
     game_tick_schedule: {
       tableName: "game_tick_schedule",
       rowType: GameTickSchedule.getTypeScriptAlgebraicType(),
       primaryKey: "scheduledId",
     },
+    game_tick_state: {
+      tableName: "game_tick_state",
+      rowType: GameTickState.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
     grid_square: {
       tableName: "grid_square",
       rowType: GridSquareData.getTypeScriptAlgebraicType(),
       primaryKey: "key",
     },
+    leaderboard_entry: {
+      tableName: "leaderboard_entry",
+      rowType: LeaderboardEntry.getTypeScriptAlgebraicType(),
+      primaryKey: "key",
+    },
     logged_out_player: {
       tableName: "logged_out_player",
       rowType: LoggedOutPlayerData.getTypeScriptAlgebraicType(),
       primaryKey: "identity",
     },
+    match_result: {
+      tableName: "match_result",
+      rowType: MatchResult.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    movement_check: {
+      tableName: "movement_check",
+      rowType: MovementCheck.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
     player: {
       tableName: "player",
       rowType: PlayerData.getTypeScriptAlgebraicType(),
       primaryKey: "identity",
     },
+    player_profile: {
+      tableName: "player_profile",
+      rowType: PlayerProfile.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    player_summary: {
+      tableName: "player_summary",
+      rowType: PlayerSummary.getTypeScriptAlgebraicType(),
+      primaryKey: "identity",
+    },
+    private_chat_message: {
+      tableName: "private_chat_message",
+      rowType: PrivateChatMessage.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    rate_limit_bucket: {
+      tableName: "rate_limit_bucket",
+      rowType: RateLimitBucket.getTypeScriptAlgebraicType(),
+      primaryKey: "key",
+    },
+    rate_limit_budget: {
+      tableName: "rate_limit_budget",
+      rowType: RateLimitBudget.getTypeScriptAlgebraicType(),
+      primaryKey: "reducer",
+    },
+    server_config: {
+      tableName: "server_config",
+      rowType: ServerConfig.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    spawn_point: {
+      tableName: "spawn_point",
+      rowType: SpawnPoint.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    suspicious_activity: {
+      tableName: "suspicious_activity",
+      rowType: SuspiciousActivity.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
+    team: {
+      tableName: "team",
+      rowType: Team.getTypeScriptAlgebraicType(),
+      primaryKey: "id",
+    },
   },
   reducers: {
+    attack: {
+      reducerName: "attack",
+      argsType: Attack.getTypeScriptAlgebraicType(),
+    },
+    ban_player: {
+      reducerName: "ban_player",
+      argsType: BanPlayer.getTypeScriptAlgebraicType(),
+    },
+    cast_spell: {
+      reducerName: "cast_spell",
+      argsType: CastSpell.getTypeScriptAlgebraicType(),
+    },
     game_tick: {
       reducerName: "game_tick",
       argsType: GameTick.getTypeScriptAlgebraicType(),
@@ -105,17 +355,45 @@ const REMOTE_MODULE = {
       reducerName: "identity_disconnected",
       argsType: IdentityDisconnected.getTypeScriptAlgebraicType(),
     },
+    kick_player: {
+      reducerName: "kick_player",
+      argsType: KickPlayer.getTypeScriptAlgebraicType(),
+    },
+    mute_player: {
+      reducerName: "mute_player",
+      argsType: MutePlayer.getTypeScriptAlgebraicType(),
+    },
+    play_emote: {
+      reducerName: "play_emote",
+      argsType: PlayEmote.getTypeScriptAlgebraicType(),
+    },
     register_player: {
       reducerName: "register_player",
       argsType: RegisterPlayer.getTypeScriptAlgebraicType(),
     },
+    report_ping: {
+      reducerName: "report_ping",
+      argsType: ReportPing.getTypeScriptAlgebraicType(),
+    },
+    reset_grid: {
+      reducerName: "reset_grid",
+      argsType: ResetGrid.getTypeScriptAlgebraicType(),
+    },
+    send_chat_message: {
+      reducerName: "send_chat_message",
+      argsType: SendChatMessage.getTypeScriptAlgebraicType(),
+    },
+    teleport_player: {
+      reducerName: "teleport_player",
+      argsType: TeleportPlayer.getTypeScriptAlgebraicType(),
+    },
     toggle_grid_square: {
       reducerName: "toggle_grid_square",
       argsType: ToggleGridSquare.getTypeScriptAlgebraicType(),
     },
-    update_player_input: {
-      reducerName: "update_player_input",
-      argsType: UpdatePlayerInput.getTypeScriptAlgebraicType(),
+    update_player_inputs: {
+      reducerName: "update_player_inputs",
+      argsType: UpdatePlayerInputs.getTypeScriptAlgebraicType(),
     },
   },
   // Constructors which are used by the DbConnectionImpl to
@@ -144,17 +422,75 @@ const REMOTE_MODULE = {
 
 // A type representing all the possible variants of a reducer.
 export type Reducer = never
+| { name: "Attack", args: Attack }
+| { name: "BanPlayer", args: BanPlayer }
+| { name: "CastSpell", args: CastSpell }
 | { name: "GameTick", args: GameTick }
 | { name: "IdentityConnected", args: IdentityConnected }
 | { name: "IdentityDisconnected", args: IdentityDisconnected }
+| { name: "KickPlayer", args: KickPlayer }
+| { name: "MutePlayer", args: MutePlayer }
+| { name: "PlayEmote", args: PlayEmote }
 | { name: "RegisterPlayer", args: RegisterPlayer }
+| { name: "ReportPing", args: ReportPing }
+| { name: "ResetGrid", args: ResetGrid }
+| { name: "SendChatMessage", args: SendChatMessage }
+| { name: "TeleportPlayer", args: TeleportPlayer }
 | { name: "ToggleGridSquare", args: ToggleGridSquare }
-| { name: "UpdatePlayerInput", args: UpdatePlayerInput }
+| { name: "UpdatePlayerInputs", args: UpdatePlayerInputs }
 ;
 
 export class RemoteReducers {
   constructor(private connection: DbConnectionImpl, private setCallReducerFlags: SetReducerFlags) {}
 
+  attack(targetIdentity: Identity) {
+    const __args = { targetIdentity };
+    let __writer = new BinaryWriter(1024);
+    Attack.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("attack", __argsBuffer, this.setCallReducerFlags.attackFlags);
+  }
+
+  onAttack(callback: (ctx: ReducerEventContext, targetIdentity: Identity) => void) {
+    this.connection.onReducer("attack", callback);
+  }
+
+  removeOnAttack(callback: (ctx: ReducerEventContext, targetIdentity: Identity) => void) {
+    this.connection.offReducer("attack", callback);
+  }
+
+  banPlayer(target: Identity, reason: string) {
+    const __args = { target, reason };
+    let __writer = new BinaryWriter(1024);
+    BanPlayer.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("ban_player", __argsBuffer, this.setCallReducerFlags.banPlayerFlags);
+  }
+
+  onBanPlayer(callback: (ctx: ReducerEventContext, target: Identity, reason: string) => void) {
+    this.connection.onReducer("ban_player", callback);
+  }
+
+  removeOnBanPlayer(callback: (ctx: ReducerEventContext, target: Identity, reason: string) => void) {
+    this.connection.offReducer("ban_player", callback);
+  }
+
+  castSpell(targetIdentity: Identity) {
+    const __args = { targetIdentity };
+    let __writer = new BinaryWriter(1024);
+    CastSpell.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("cast_spell", __argsBuffer, this.setCallReducerFlags.castSpellFlags);
+  }
+
+  onCastSpell(callback: (ctx: ReducerEventContext, targetIdentity: Identity) => void) {
+    this.connection.onReducer("cast_spell", callback);
+  }
+
+  removeOnCastSpell(callback: (ctx: ReducerEventContext, targetIdentity: Identity) => void) {
+    this.connection.offReducer("cast_spell", callback);
+  }
+
   gameTick(tickInfo: GameTickSchedule) {
     const __args = { tickInfo };
     let __writer = new BinaryWriter(1024);
@@ -187,22 +523,134 @@ export class RemoteReducers {
     this.connection.offReducer("identity_disconnected", callback);
   }
 
-  registerPlayer(username: string, characterClass: string) {
-    const __args = { username, characterClass };
+  kickPlayer(target: Identity) {
+    const __args = { target };
+    let __writer = new BinaryWriter(1024);
+    KickPlayer.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("kick_player", __argsBuffer, this.setCallReducerFlags.kickPlayerFlags);
+  }
+
+  onKickPlayer(callback: (ctx: ReducerEventContext, target: Identity) => void) {
+    this.connection.onReducer("kick_player", callback);
+  }
+
+  removeOnKickPlayer(callback: (ctx: ReducerEventContext, target: Identity) => void) {
+    this.connection.offReducer("kick_player", callback);
+  }
+
+  mutePlayer(target: Identity, muted: boolean) {
+    const __args = { target, muted };
+    let __writer = new BinaryWriter(1024);
+    MutePlayer.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("mute_player", __argsBuffer, this.setCallReducerFlags.mutePlayerFlags);
+  }
+
+  onMutePlayer(callback: (ctx: ReducerEventContext, target: Identity, muted: boolean) => void) {
+    this.connection.onReducer("mute_player", callback);
+  }
+
+  removeOnMutePlayer(callback: (ctx: ReducerEventContext, target: Identity, muted: boolean) => void) {
+    this.connection.offReducer("mute_player", callback);
+  }
+
+  playEmote(emote: string) {
+    const __args = { emote };
+    let __writer = new BinaryWriter(1024);
+    PlayEmote.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("play_emote", __argsBuffer, this.setCallReducerFlags.playEmoteFlags);
+  }
+
+  onPlayEmote(callback: (ctx: ReducerEventContext, emote: string) => void) {
+    this.connection.onReducer("play_emote", callback);
+  }
+
+  removeOnPlayEmote(callback: (ctx: ReducerEventContext, emote: string) => void) {
+    this.connection.offReducer("play_emote", callback);
+  }
+
+  registerPlayer(username: string, characterClass: string, teamId: number | undefined) {
+    const __args = { username, characterClass, teamId };
     let __writer = new BinaryWriter(1024);
     RegisterPlayer.getTypeScriptAlgebraicType().serialize(__writer, __args);
     let __argsBuffer = __writer.getBuffer();
     this.connection.callReducer("register_player", __argsBuffer, this.setCallReducerFlags.registerPlayerFlags);
   }
 
-  onRegisterPlayer(callback: (ctx: ReducerEventContext, username: string, characterClass: string) => void) {
+  onRegisterPlayer(callback: (ctx: ReducerEventContext, username: string, characterClass: string, teamId: number | undefined) => void) {
     this.connection.onReducer("register_player", callback);
   }
 
-  removeOnRegisterPlayer(callback: (ctx: ReducerEventContext, username: string, characterClass: string) => void) {
+  removeOnRegisterPlayer(callback: (ctx: ReducerEventContext, username: string, characterClass: string, teamId: number | undefined) => void) {
     this.connection.offReducer("register_player", callback);
   }
 
+  reportPing(pingMs: number) {
+    const __args = { pingMs };
+    let __writer = new BinaryWriter(1024);
+    ReportPing.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("report_ping", __argsBuffer, this.setCallReducerFlags.reportPingFlags);
+  }
+
+  onReportPing(callback: (ctx: ReducerEventContext, pingMs: number) => void) {
+    this.connection.onReducer("report_ping", callback);
+  }
+
+  removeOnReportPing(callback: (ctx: ReducerEventContext, pingMs: number) => void) {
+    this.connection.offReducer("report_ping", callback);
+  }
+
+  resetGrid() {
+    const __args = {  };
+    let __writer = new BinaryWriter(1024);
+    ResetGrid.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("reset_grid", __argsBuffer, this.setCallReducerFlags.resetGridFlags);
+  }
+
+  onResetGrid(callback: (ctx: ReducerEventContext) => void) {
+    this.connection.onReducer("reset_grid", callback);
+  }
+
+  removeOnResetGrid(callback: (ctx: ReducerEventContext) => void) {
+    this.connection.offReducer("reset_grid", callback);
+  }
+
+  sendChatMessage(channel: string, text: string, recipient: Identity | undefined) {
+    const __args = { channel, text, recipient };
+    let __writer = new BinaryWriter(1024);
+    SendChatMessage.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("send_chat_message", __argsBuffer, this.setCallReducerFlags.sendChatMessageFlags);
+  }
+
+  onSendChatMessage(callback: (ctx: ReducerEventContext, channel: string, text: string, recipient: Identity | undefined) => void) {
+    this.connection.onReducer("send_chat_message", callback);
+  }
+
+  removeOnSendChatMessage(callback: (ctx: ReducerEventContext, channel: string, text: string, recipient: Identity | undefined) => void) {
+    this.connection.offReducer("send_chat_message", callback);
+  }
+
+  teleportPlayer(target: Identity, position: Vector3) {
+    const __args = { target, position };
+    let __writer = new BinaryWriter(1024);
+    TeleportPlayer.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    let __argsBuffer = __writer.getBuffer();
+    this.connection.callReducer("teleport_player", __argsBuffer, this.setCallReducerFlags.teleportPlayerFlags);
+  }
+
+  onTeleportPlayer(callback: (ctx: ReducerEventContext, target: Identity, position: Vector3) => void) {
+    this.connection.onReducer("teleport_player", callback);
+  }
+
+  removeOnTeleportPlayer(callback: (ctx: ReducerEventContext, target: Identity, position: Vector3) => void) {
+    this.connection.offReducer("teleport_player", callback);
+  }
+
   toggleGridSquare(squareKey: string) {
     const __args = { squareKey };
     let __writer = new BinaryWriter(1024);
@@ -219,43 +667,93 @@ export class RemoteReducers {
     this.connection.offReducer("toggle_grid_square", callback);
   }
 
-  updatePlayerInput(input: InputState, clientPos: Vector3, clientRot: Vector3, clientAnimation: string) {
-    const __args = { input, clientPos, clientRot, clientAnimation };
+  updatePlayerInputs(inputs: InputState[], clientPos: Vector3, clientRot: Vector3, clientAnimation: string) {
+    const __args = { inputs, clientPos, clientRot, clientAnimation };
     let __writer = new BinaryWriter(1024);
-    UpdatePlayerInput.getTypeScriptAlgebraicType().serialize(__writer, __args);
+    UpdatePlayerInputs.getTypeScriptAlgebraicType().serialize(__writer, __args);
     let __argsBuffer = __writer.getBuffer();
-    this.connection.callReducer("update_player_input", __argsBuffer, this.setCallReducerFlags.updatePlayerInputFlags);
+    this.connection.callReducer("update_player_inputs", __argsBuffer, this.setCallReducerFlags.updatePlayerInputsFlags);
   }
 
-  onUpdatePlayerInput(callback: (ctx: ReducerEventContext, input: InputState, clientPos: Vector3, clientRot: Vector3, clientAnimation: string) => void) {
-    this.connection.onReducer("update_player_input", callback);
+  onUpdatePlayerInputs(callback: (ctx: ReducerEventContext, inputs: InputState[], clientPos: Vector3, clientRot: Vector3, clientAnimation: string) => void) {
+    this.connection.onReducer("update_player_inputs", callback);
   }
 
-  removeOnUpdatePlayerInput(callback: (ctx: ReducerEventContext, input: InputState, clientPos: Vector3, clientRot: Vector3, clientAnimation: string) => void) {
-    this.connection.offReducer("update_player_input", callback);
+  removeOnUpdatePlayerInputs(callback: (ctx: ReducerEventContext, inputs: InputState[], clientPos: Vector3, clientRot: Vector3, clientAnimation: string) => void) {
+    this.connection.offReducer("update_player_inputs", callback);
   }
 
 }
 
 export class SetReducerFlags {
+  attackFlags: CallReducerFlags = 'FullUpdate';
+  attack(flags: CallReducerFlags) {
+    this.attackFlags = flags;
+  }
+
+  banPlayerFlags: CallReducerFlags = 'FullUpdate';
+  banPlayer(flags: CallReducerFlags) {
+    this.banPlayerFlags = flags;
+  }
+
+  castSpellFlags: CallReducerFlags = 'FullUpdate';
+  castSpell(flags: CallReducerFlags) {
+    this.castSpellFlags = flags;
+  }
+
   gameTickFlags: CallReducerFlags = 'FullUpdate';
   gameTick(flags: CallReducerFlags) {
     this.gameTickFlags = flags;
   }
 
+  kickPlayerFlags: CallReducerFlags = 'FullUpdate';
+  kickPlayer(flags: CallReducerFlags) {
+    this.kickPlayerFlags = flags;
+  }
+
+  mutePlayerFlags: CallReducerFlags = 'FullUpdate';
+  mutePlayer(flags: CallReducerFlags) {
+    this.mutePlayerFlags = flags;
+  }
+
+  playEmoteFlags: CallReducerFlags = 'FullUpdate';
+  playEmote(flags: CallReducerFlags) {
+    this.playEmoteFlags = flags;
+  }
+
   registerPlayerFlags: CallReducerFlags = 'FullUpdate';
   registerPlayer(flags: CallReducerFlags) {
     this.registerPlayerFlags = flags;
   }
 
+  reportPingFlags: CallReducerFlags = 'FullUpdate';
+  reportPing(flags: CallReducerFlags) {
+    this.reportPingFlags = flags;
+  }
+
+  resetGridFlags: CallReducerFlags = 'FullUpdate';
+  resetGrid(flags: CallReducerFlags) {
+    this.resetGridFlags = flags;
+  }
+
+  sendChatMessageFlags: CallReducerFlags = 'FullUpdate';
+  sendChatMessage(flags: CallReducerFlags) {
+    this.sendChatMessageFlags = flags;
+  }
+
+  teleportPlayerFlags: CallReducerFlags = 'FullUpdate';
+  teleportPlayer(flags: CallReducerFlags) {
+    this.teleportPlayerFlags = flags;
+  }
+
   toggleGridSquareFlags: CallReducerFlags = 'FullUpdate';
   toggleGridSquare(flags: CallReducerFlags) {
     this.toggleGridSquareFlags = flags;
   }
 
-  updatePlayerInputFlags: CallReducerFlags = 'FullUpdate';
-  updatePlayerInput(flags: CallReducerFlags) {
-    this.updatePlayerInputFlags = flags;
+  updatePlayerInputsFlags: CallReducerFlags = 'FullUpdate';
+  updatePlayerInputs(flags: CallReducerFlags) {
+    this.updatePlayerInputsFlags = flags;
   }
 
 }
@@ -263,21 +761,117 @@ export class SetReducerFlags {
 export class RemoteTables {
   constructor(private connection: DbConnectionImpl) {}
 
+  get admin(): AdminTableHandle {
+    return new AdminTableHandle(this.connection.clientCache.getOrCreateTable<Admin>(REMOTE_MODULE.tables.admin));
+  }
+
+  get ban(): BanTableHandle {
+    return new BanTableHandle(this.connection.clientCache.getOrCreateTable<Ban>(REMOTE_MODULE.tables.ban));
+  }
+
+  get captureProgress(): CaptureProgressTableHandle {
+    return new CaptureProgressTableHandle(this.connection.clientCache.getOrCreateTable<CaptureProgress>(REMOTE_MODULE.tables.capture_progress));
+  }
+
+  get characterClass(): CharacterClassTableHandle {
+    return new CharacterClassTableHandle(this.connection.clientCache.getOrCreateTable<CharacterClass>(REMOTE_MODULE.tables.character_class));
+  }
+
+  get chatFilterWord(): ChatFilterWordTableHandle {
+    return new ChatFilterWordTableHandle(this.connection.clientCache.getOrCreateTable<ChatFilterWord>(REMOTE_MODULE.tables.chat_filter_word));
+  }
+
+  get chatMessage(): ChatMessageTableHandle {
+    return new ChatMessageTableHandle(this.connection.clientCache.getOrCreateTable<ChatMessage>(REMOTE_MODULE.tables.chat_message));
+  }
+
+  get chatMute(): ChatMuteTableHandle {
+    return new ChatMuteTableHandle(this.connection.clientCache.getOrCreateTable<ChatMute>(REMOTE_MODULE.tables.chat_mute));
+  }
+
+  get chatRateLimit(): ChatRateLimitTableHandle {
+    return new ChatRateLimitTableHandle(this.connection.clientCache.getOrCreateTable<ChatRateLimit>(REMOTE_MODULE.tables.chat_rate_limit));
+  }
+
+  get combatEvent(): CombatEventTableHandle {
+    return new CombatEventTableHandle(this.connection.clientCache.getOrCreateTable<CombatEvent>(REMOTE_MODULE.tables.combat_event));
+  }
+
+  get combatState(): CombatStateTableHandle {
+    return new CombatStateTableHandle(this.connection.clientCache.getOrCreateTable<CombatState>(REMOTE_MODULE.tables.combat_state));
+  }
+
+  get gameMatch(): GameMatchTableHandle {
+    return new GameMatchTableHandle(this.connection.clientCache.getOrCreateTable<GameMatch>(REMOTE_MODULE.tables.game_match));
+  }
+
   get gameTickSchedule(): GameTickScheduleTableHandle {
     return new GameTickScheduleTableHandle(this.connection.clientCache.getOrCreateTable<GameTickSchedule>(REMOTE_MODULE.tables.game_tick_schedule));
   }
 
+  get gameTickState(): GameTickStateTableHandle {
+    return new GameTickStateTableHandle(this.connection.clientCache.getOrCreateTable<GameTickState>(REMOTE_MODULE.tables.game_tick_state));
+  }
+
   get gridSquare(): GridSquareTableHandle {
     return new GridSquareTableHandle(this.connection.clientCache.getOrCreateTable<GridSquareData>(REMOTE_MODULE.tables.grid_square));
   }
 
+  get leaderboardEntry(): LeaderboardEntryTableHandle {
+    return new LeaderboardEntryTableHandle(this.connection.clientCache.getOrCreateTable<LeaderboardEntry>(REMOTE_MODULE.tables.leaderboard_entry));
+  }
+
   get loggedOutPlayer(): LoggedOutPlayerTableHandle {
     return new LoggedOutPlayerTableHandle(this.connection.clientCache.getOrCreateTable<LoggedOutPlayerData>(REMOTE_MODULE.tables.logged_out_player));
   }
 
+  get matchResult(): MatchResultTableHandle {
+    return new MatchResultTableHandle(this.connection.clientCache.getOrCreateTable<MatchResult>(REMOTE_MODULE.tables.match_result));
+  }
+
+  get movementCheck(): MovementCheckTableHandle {
+    return new MovementCheckTableHandle(this.connection.clientCache.getOrCreateTable<MovementCheck>(REMOTE_MODULE.tables.movement_check));
+  }
+
   get player(): PlayerTableHandle {
     return new PlayerTableHandle(this.connection.clientCache.getOrCreateTable<PlayerData>(REMOTE_MODULE.tables.player));
   }
+
+  get playerProfile(): PlayerProfileTableHandle {
+    return new PlayerProfileTableHandle(this.connection.clientCache.getOrCreateTable<PlayerProfile>(REMOTE_MODULE.tables.player_profile));
+  }
+
+  get playerSummary(): PlayerSummaryTableHandle {
+    return new PlayerSummaryTableHandle(this.connection.clientCache.getOrCreateTable<PlayerSummary>(REMOTE_MODULE.tables.player_summary));
+  }
+
+  get privateChatMessage(): PrivateChatMessageTableHandle {
+    return new PrivateChatMessageTableHandle(this.connection.clientCache.getOrCreateTable<PrivateChatMessage>(REMOTE_MODULE.tables.private_chat_message));
+  }
+
+  get rateLimitBucket(): RateLimitBucketTableHandle {
+    return new RateLimitBucketTableHandle(this.connection.clientCache.getOrCreateTable<RateLimitBucket>(REMOTE_MODULE.tables.rate_limit_bucket));
+  }
+
+  get rateLimitBudget(): RateLimitBudgetTableHandle {
+    return new RateLimitBudgetTableHandle(this.connection.clientCache.getOrCreateTable<RateLimitBudget>(REMOTE_MODULE.tables.rate_limit_budget));
+  }
+
+  get serverConfig(): ServerConfigTableHandle {
+    return new ServerConfigTableHandle(this.connection.clientCache.getOrCreateTable<ServerConfig>(REMOTE_MODULE.tables.server_config));
+  }
+
+  get spawnPoint(): SpawnPointTableHandle {
+    return new SpawnPointTableHandle(this.connection.clientCache.getOrCreateTable<SpawnPoint>(REMOTE_MODULE.tables.spawn_point));
+  }
+
+  get suspiciousActivity(): SuspiciousActivityTableHandle {
+    return new SuspiciousActivityTableHandle(this.connection.clientCache.getOrCreateTable<SuspiciousActivity>(REMOTE_MODULE.tables.suspicious_activity));
+  }
+
+  get team(): TeamTableHandle {
+    return new TeamTableHandle(this.connection.clientCache.getOrCreateTable<Team>(REMOTE_MODULE.tables.team));
+  }
 }
 
 export class SubscriptionBuilder extends SubscriptionBuilderImpl<RemoteTables, RemoteReducers, SetReducerFlags> { }
@@ -0,0 +1,73 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type LeaderboardEntry = {
+  key: string,
+  board: string,
+  rank: number,
+  identity: Identity,
+  username: string,
+  teamId: number,
+  value: number,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace LeaderboardEntry {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("key", AlgebraicType.createStringType()),
+      new ProductTypeElement("board", AlgebraicType.createStringType()),
+      new ProductTypeElement("rank", AlgebraicType.createU32Type()),
+      new ProductTypeElement("identity", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("username", AlgebraicType.createStringType()),
+      new ProductTypeElement("teamId", AlgebraicType.createU32Type()),
+      new ProductTypeElement("value", AlgebraicType.createU32Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: LeaderboardEntry): void {
+    LeaderboardEntry.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): LeaderboardEntry {
+    return LeaderboardEntry.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
@@ -43,6 +43,7 @@ export type LoggedOutPlayerData = {
   mana: number,
   maxMana: number,
   lastSeen: Timestamp,
+  teamId: number,
 };
 
 /**
@@ -65,6 +66,7 @@ export namespace LoggedOutPlayerData {
       new ProductTypeElement("mana", AlgebraicType.createI32Type()),
       new ProductTypeElement("maxMana", AlgebraicType.createI32Type()),
       new ProductTypeElement("lastSeen", AlgebraicType.createTimestampType()),
+      new ProductTypeElement("teamId", AlgebraicType.createU32Type()),
     ]);
   }
 
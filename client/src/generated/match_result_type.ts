@@ -0,0 +1,75 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type MatchResult = {
+  id: bigint,
+  matchId: bigint,
+  identity: Identity,
+  username: string,
+  teamId: number,
+  kills: number,
+  deaths: number,
+  squares: number,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace MatchResult {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("id", AlgebraicType.createU64Type()),
+      new ProductTypeElement("matchId", AlgebraicType.createU64Type()),
+      new ProductTypeElement("identity", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("username", AlgebraicType.createStringType()),
+      new ProductTypeElement("teamId", AlgebraicType.createU32Type()),
+      new ProductTypeElement("kills", AlgebraicType.createU32Type()),
+      new ProductTypeElement("deaths", AlgebraicType.createU32Type()),
+      new ProductTypeElement("squares", AlgebraicType.createU32Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: MatchResult): void {
+    MatchResult.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): MatchResult {
+    return MatchResult.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
@@ -49,9 +49,21 @@ export type PlayerData = {
   isAttacking: boolean,
   isCasting: boolean,
   isTeleporting: boolean,
+  isDead: boolean,
+  respawnAt: Timestamp | undefined,
   lastInputSeq: number,
   input: __InputState,
+  pendingInputs: __InputState[],
   color: string,
+  teamId: number,
+  kills: number,
+  deaths: number,
+  pingMs: number,
+  currentEmote: string | undefined,
+  emoteEndsAt: Timestamp | undefined,
+  squaresOwned: number,
+  cellX: number,
+  cellZ: number,
 };
 
 /**
@@ -79,9 +91,21 @@ export namespace PlayerData {
       new ProductTypeElement("isAttacking", AlgebraicType.createBoolType()),
       new ProductTypeElement("isCasting", AlgebraicType.createBoolType()),
       new ProductTypeElement("isTeleporting", AlgebraicType.createBoolType()),
+      new ProductTypeElement("isDead", AlgebraicType.createBoolType()),
+      new ProductTypeElement("respawnAt", AlgebraicType.createOptionType(AlgebraicType.createTimestampType())),
       new ProductTypeElement("lastInputSeq", AlgebraicType.createU32Type()),
       new ProductTypeElement("input", __InputState.getTypeScriptAlgebraicType()),
+      new ProductTypeElement("pendingInputs", AlgebraicType.createArrayType(__InputState.getTypeScriptAlgebraicType())),
       new ProductTypeElement("color", AlgebraicType.createStringType()),
+      new ProductTypeElement("teamId", AlgebraicType.createU32Type()),
+      new ProductTypeElement("kills", AlgebraicType.createU32Type()),
+      new ProductTypeElement("deaths", AlgebraicType.createU32Type()),
+      new ProductTypeElement("pingMs", AlgebraicType.createU32Type()),
+      new ProductTypeElement("currentEmote", AlgebraicType.createOptionType(AlgebraicType.createStringType())),
+      new ProductTypeElement("emoteEndsAt", AlgebraicType.createOptionType(AlgebraicType.createTimestampType())),
+      new ProductTypeElement("squaresOwned", AlgebraicType.createU32Type()),
+      new ProductTypeElement("cellX", AlgebraicType.createI32Type()),
+      new ProductTypeElement("cellZ", AlgebraicType.createI32Type()),
     ]);
   }
 
@@ -0,0 +1,79 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type PlayerProfile = {
+  identity: Identity,
+  username: string,
+  kills: number,
+  deaths: number,
+  squaresCaptured: number,
+  matchesPlayed: number,
+  wins: number,
+  totalPlaySeconds: bigint,
+  sessionStartedAt: Timestamp | undefined,
+  createdAt: Timestamp,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace PlayerProfile {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("identity", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("username", AlgebraicType.createStringType()),
+      new ProductTypeElement("kills", AlgebraicType.createU32Type()),
+      new ProductTypeElement("deaths", AlgebraicType.createU32Type()),
+      new ProductTypeElement("squaresCaptured", AlgebraicType.createU32Type()),
+      new ProductTypeElement("matchesPlayed", AlgebraicType.createU32Type()),
+      new ProductTypeElement("wins", AlgebraicType.createU32Type()),
+      new ProductTypeElement("totalPlaySeconds", AlgebraicType.createU64Type()),
+      new ProductTypeElement("sessionStartedAt", AlgebraicType.createOptionType(AlgebraicType.createTimestampType())),
+      new ProductTypeElement("createdAt", AlgebraicType.createTimestampType()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: PlayerProfile): void {
+    PlayerProfile.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): PlayerProfile {
+    return PlayerProfile.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
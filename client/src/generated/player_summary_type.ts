@@ -0,0 +1,77 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type PlayerSummary = {
+  identity: Identity,
+  username: string,
+  characterClass: string,
+  teamId: number,
+  color: string,
+  kills: number,
+  deaths: number,
+  pingMs: number,
+  squaresOwned: number,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace PlayerSummary {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("identity", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("username", AlgebraicType.createStringType()),
+      new ProductTypeElement("characterClass", AlgebraicType.createStringType()),
+      new ProductTypeElement("teamId", AlgebraicType.createU32Type()),
+      new ProductTypeElement("color", AlgebraicType.createStringType()),
+      new ProductTypeElement("kills", AlgebraicType.createU32Type()),
+      new ProductTypeElement("deaths", AlgebraicType.createU32Type()),
+      new ProductTypeElement("pingMs", AlgebraicType.createU32Type()),
+      new ProductTypeElement("squaresOwned", AlgebraicType.createU32Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: PlayerSummary): void {
+    PlayerSummary.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): PlayerSummary {
+    return PlayerSummary.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
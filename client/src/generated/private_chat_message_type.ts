@@ -0,0 +1,77 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type PrivateChatMessage = {
+  id: bigint,
+  reader: Identity,
+  sender: Identity,
+  senderName: string,
+  channel: string,
+  teamId: number,
+  recipient: Identity | undefined,
+  text: string,
+  sentAt: Timestamp,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace PrivateChatMessage {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("id", AlgebraicType.createU64Type()),
+      new ProductTypeElement("reader", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("sender", AlgebraicType.createIdentityType()),
+      new ProductTypeElement("senderName", AlgebraicType.createStringType()),
+      new ProductTypeElement("channel", AlgebraicType.createStringType()),
+      new ProductTypeElement("teamId", AlgebraicType.createU32Type()),
+      new ProductTypeElement("recipient", AlgebraicType.createOptionType(AlgebraicType.createIdentityType())),
+      new ProductTypeElement("text", AlgebraicType.createStringType()),
+      new ProductTypeElement("sentAt", AlgebraicType.createTimestampType()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: PrivateChatMessage): void {
+    PrivateChatMessage.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): PrivateChatMessage {
+    return PrivateChatMessage.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
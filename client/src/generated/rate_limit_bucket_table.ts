@@ -0,0 +1,106 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+import { RateLimitBucket } from "./rate_limit_bucket_type";
+import { EventContext, Reducer, RemoteReducers, RemoteTables } from ".";
+
+/**
+ * Table handle for the table `rate_limit_bucket`.
+ *
+ * Obtain a handle from the [`rateLimitBucket`] property on [`RemoteTables`],
+ * like `ctx.db.rateLimitBucket`.
+ *
+ * Users are encouraged not to explicitly reference this type,
+ * but to directly chain method calls,
+ * like `ctx.db.rateLimitBucket.on_insert(...)`.
+ */
+export class RateLimitBucketTableHandle {
+  tableCache: TableCache<RateLimitBucket>;
+
+  constructor(tableCache: TableCache<RateLimitBucket>) {
+    this.tableCache = tableCache;
+  }
+
+  count(): number {
+    return this.tableCache.count();
+  }
+
+  iter(): Iterable<RateLimitBucket> {
+    return this.tableCache.iter();
+  }
+  /**
+   * Access to the `key` unique index on the table `rate_limit_bucket`,
+   * which allows point queries on the field of the same name
+   * via the [`RateLimitBucketKeyUnique.find`] method.
+   *
+   * Users are encouraged not to explicitly reference this type,
+   * but to directly chain method calls,
+   * like `ctx.db.rateLimitBucket.key().find(...)`.
+   *
+   * Get a handle on the `key` unique index on the table `rate_limit_bucket`.
+   */
+  key = {
+    // Find the subscribed row whose `key` column value is equal to `col_val`,
+    // if such a row is present in the client cache.
+    find: (col_val: string): RateLimitBucket | undefined => {
+      for (let row of this.tableCache.iter()) {
+        if (deepEqual(row.key, col_val)) {
+          return row;
+        }
+      }
+    },
+  };
+
+  onInsert = (cb: (ctx: EventContext, row: RateLimitBucket) => void) => {
+    return this.tableCache.onInsert(cb);
+  }
+
+  removeOnInsert = (cb: (ctx: EventContext, row: RateLimitBucket) => void) => {
+    return this.tableCache.removeOnInsert(cb);
+  }
+
+  onDelete = (cb: (ctx: EventContext, row: RateLimitBucket) => void) => {
+    return this.tableCache.onDelete(cb);
+  }
+
+  removeOnDelete = (cb: (ctx: EventContext, row: RateLimitBucket) => void) => {
+    return this.tableCache.removeOnDelete(cb);
+  }
+
+  // Updates are only defined for tables with primary keys.
+  onUpdate = (cb: (ctx: EventContext, oldRow: RateLimitBucket, newRow: RateLimitBucket) => void) => {
+    return this.tableCache.onUpdate(cb);
+  }
+
+  removeOnUpdate = (cb: (ctx: EventContext, onRow: RateLimitBucket, newRow: RateLimitBucket) => void) => {
+    return this.tableCache.removeOnUpdate(cb);
+  }}
@@ -0,0 +1,106 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+import { RateLimitBudget } from "./rate_limit_budget_type";
+import { EventContext, Reducer, RemoteReducers, RemoteTables } from ".";
+
+/**
+ * Table handle for the table `rate_limit_budget`.
+ *
+ * Obtain a handle from the [`rateLimitBudget`] property on [`RemoteTables`],
+ * like `ctx.db.rateLimitBudget`.
+ *
+ * Users are encouraged not to explicitly reference this type,
+ * but to directly chain method calls,
+ * like `ctx.db.rateLimitBudget.on_insert(...)`.
+ */
+export class RateLimitBudgetTableHandle {
+  tableCache: TableCache<RateLimitBudget>;
+
+  constructor(tableCache: TableCache<RateLimitBudget>) {
+    this.tableCache = tableCache;
+  }
+
+  count(): number {
+    return this.tableCache.count();
+  }
+
+  iter(): Iterable<RateLimitBudget> {
+    return this.tableCache.iter();
+  }
+  /**
+   * Access to the `reducer` unique index on the table `rate_limit_budget`,
+   * which allows point queries on the field of the same name
+   * via the [`RateLimitBudgetReducerUnique.find`] method.
+   *
+   * Users are encouraged not to explicitly reference this type,
+   * but to directly chain method calls,
+   * like `ctx.db.rateLimitBudget.reducer().find(...)`.
+   *
+   * Get a handle on the `reducer` unique index on the table `rate_limit_budget`.
+   */
+  reducer = {
+    // Find the subscribed row whose `reducer` column value is equal to `col_val`,
+    // if such a row is present in the client cache.
+    find: (col_val: string): RateLimitBudget | undefined => {
+      for (let row of this.tableCache.iter()) {
+        if (deepEqual(row.reducer, col_val)) {
+          return row;
+        }
+      }
+    },
+  };
+
+  onInsert = (cb: (ctx: EventContext, row: RateLimitBudget) => void) => {
+    return this.tableCache.onInsert(cb);
+  }
+
+  removeOnInsert = (cb: (ctx: EventContext, row: RateLimitBudget) => void) => {
+    return this.tableCache.removeOnInsert(cb);
+  }
+
+  onDelete = (cb: (ctx: EventContext, row: RateLimitBudget) => void) => {
+    return this.tableCache.onDelete(cb);
+  }
+
+  removeOnDelete = (cb: (ctx: EventContext, row: RateLimitBudget) => void) => {
+    return this.tableCache.removeOnDelete(cb);
+  }
+
+  // Updates are only defined for tables with primary keys.
+  onUpdate = (cb: (ctx: EventContext, oldRow: RateLimitBudget, newRow: RateLimitBudget) => void) => {
+    return this.tableCache.onUpdate(cb);
+  }
+
+  removeOnUpdate = (cb: (ctx: EventContext, onRow: RateLimitBudget, newRow: RateLimitBudget) => void) => {
+    return this.tableCache.removeOnUpdate(cb);
+  }}
@@ -0,0 +1,65 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type RateLimitBudget = {
+  reducer: string,
+  capacity: number,
+  refillPerSecond: number,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace RateLimitBudget {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("reducer", AlgebraicType.createStringType()),
+      new ProductTypeElement("capacity", AlgebraicType.createF32Type()),
+      new ProductTypeElement("refillPerSecond", AlgebraicType.createF32Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: RateLimitBudget): void {
+    RateLimitBudget.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): RateLimitBudget {
+    return RateLimitBudget.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
@@ -34,6 +34,7 @@ import {
 export type RegisterPlayer = {
   username: string,
   characterClass: string,
+  teamId: number | undefined,
 };
 
 /**
@@ -48,6 +49,7 @@ export namespace RegisterPlayer {
     return AlgebraicType.createProductType([
       new ProductTypeElement("username", AlgebraicType.createStringType()),
       new ProductTypeElement("characterClass", AlgebraicType.createStringType()),
+      new ProductTypeElement("teamId", AlgebraicType.createOptionType(AlgebraicType.createU32Type())),
     ]);
   }
 
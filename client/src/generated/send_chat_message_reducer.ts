@@ -0,0 +1,65 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+
+export type SendChatMessage = {
+  channel: string,
+  text: string,
+  recipient: Identity | undefined,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace SendChatMessage {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("channel", AlgebraicType.createStringType()),
+      new ProductTypeElement("text", AlgebraicType.createStringType()),
+      new ProductTypeElement("recipient", AlgebraicType.createOptionType(AlgebraicType.createIdentityType())),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: SendChatMessage): void {
+    SendChatMessage.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): SendChatMessage {
+    return SendChatMessage.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
@@ -0,0 +1,89 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+// @ts-nocheck
+import {
+  AlgebraicType,
+  AlgebraicValue,
+  BinaryReader,
+  BinaryWriter,
+  CallReducerFlags,
+  ConnectionId,
+  DbConnectionBuilder,
+  DbConnectionImpl,
+  DbContext,
+  ErrorContextInterface,
+  Event,
+  EventContextInterface,
+  Identity,
+  ProductType,
+  ProductTypeElement,
+  ReducerEventContextInterface,
+  SubscriptionBuilderImpl,
+  SubscriptionEventContextInterface,
+  SumType,
+  SumTypeVariant,
+  TableCache,
+  TimeDuration,
+  Timestamp,
+  deepEqual,
+} from "@clockworklabs/spacetimedb-sdk";
+export type ServerConfig = {
+  id: number,
+  tickIntervalMs: bigint,
+  respawnDelayMs: bigint,
+  captureTicks: number,
+  friendlyFire: boolean,
+  minPlayers: number,
+  countdownSeconds: number,
+  roundDurationSeconds: number,
+  resultsDurationSeconds: number,
+  winTerritoryShare: number,
+  winKills: number,
+  chatMaxLength: number,
+  chatHistorySize: number,
+  chatRateLimitMessages: number,
+  chatRateLimitWindowSeconds: number,
+};
+
+/**
+ * A namespace for generated helper functions.
+ */
+export namespace ServerConfig {
+  /**
+  * A function which returns this type represented as an AlgebraicType.
+  * This function is derived from the AlgebraicType used to generate this type.
+  */
+  export function getTypeScriptAlgebraicType(): AlgebraicType {
+    return AlgebraicType.createProductType([
+      new ProductTypeElement("id", AlgebraicType.createU32Type()),
+      new ProductTypeElement("tickIntervalMs", AlgebraicType.createU64Type()),
+      new ProductTypeElement("respawnDelayMs", AlgebraicType.createU64Type()),
+      new ProductTypeElement("captureTicks", AlgebraicType.createU32Type()),
+      new ProductTypeElement("friendlyFire", AlgebraicType.createBoolType()),
+      new ProductTypeElement("minPlayers", AlgebraicType.createU32Type()),
+      new ProductTypeElement("countdownSeconds", AlgebraicType.createU32Type()),
+      new ProductTypeElement("roundDurationSeconds", AlgebraicType.createU32Type()),
+      new ProductTypeElement("resultsDurationSeconds", AlgebraicType.createU32Type()),
+      new ProductTypeElement("winTerritoryShare", AlgebraicType.createF32Type()),
+      new ProductTypeElement("winKills", AlgebraicType.createU32Type()),
+      new ProductTypeElement("chatMaxLength", AlgebraicType.createU32Type()),
+      new ProductTypeElement("chatHistorySize", AlgebraicType.createU32Type()),
+      new ProductTypeElement("chatRateLimitMessages", AlgebraicType.createU32Type()),
+      new ProductTypeElement("chatRateLimitWindowSeconds", AlgebraicType.createU32Type()),
+    ]);
+  }
+
+  export function serialize(writer: BinaryWriter, value: ServerConfig): void {
+    ServerConfig.getTypeScriptAlgebraicType().serialize(writer, value);
+  }
+
+  export function deserialize(reader: BinaryReader): ServerConfig {
+    return ServerConfig.getTypeScriptAlgebraicType().deserialize(reader);
+  }
+
+}
+
+
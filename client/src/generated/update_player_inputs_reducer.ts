@@ -34,8 +34,8 @@ import {
 import { Vector3 as __Vector3 } from "./vector_3_type";
 import { InputState as __InputState } from "./input_state_type";
 
-export type UpdatePlayerInput = {
-  input: __InputState,
+export type UpdatePlayerInputs = {
+  inputs: __InputState[],
   clientPos: __Vector3,
   clientRot: __Vector3,
   clientAnimation: string,
@@ -44,26 +44,26 @@ export type UpdatePlayerInput = {
 /**
  * A namespace for generated helper functions.
  */
-export namespace UpdatePlayerInput {
+export namespace UpdatePlayerInputs {
   /**
   * A function which returns this type represented as an AlgebraicType.
   * This function is derived from the AlgebraicType used to generate this type.
   */
   export function getTypeScriptAlgebraicType(): AlgebraicType {
     return AlgebraicType.createProductType([
-      new ProductTypeElement("input", __InputState.getTypeScriptAlgebraicType()),
+      new ProductTypeElement("inputs", AlgebraicType.createArrayType(__InputState.getTypeScriptAlgebraicType())),
       new ProductTypeElement("clientPos", __Vector3.getTypeScriptAlgebraicType()),
       new ProductTypeElement("clientRot", __Vector3.getTypeScriptAlgebraicType()),
       new ProductTypeElement("clientAnimation", AlgebraicType.createStringType()),
     ]);
   }
 
-  export function serialize(writer: BinaryWriter, value: UpdatePlayerInput): void {
-    UpdatePlayerInput.getTypeScriptAlgebraicType().serialize(writer, value);
+  export function serialize(writer: BinaryWriter, value: UpdatePlayerInputs): void {
+    UpdatePlayerInputs.getTypeScriptAlgebraicType().serialize(writer, value);
   }
 
-  export function deserialize(reader: BinaryReader): UpdatePlayerInput {
-    return UpdatePlayerInput.getTypeScriptAlgebraicType().deserialize(reader);
+  export function deserialize(reader: BinaryReader): UpdatePlayerInputs {
+    return UpdatePlayerInputs.getTypeScriptAlgebraicType().deserialize(reader);
   }
 
 }
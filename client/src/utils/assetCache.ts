@@ -0,0 +1,204 @@
+/**
+ * assetCache.ts
+ *
+ * Module-level cache of character class assets. Each class's model and animation
+ * FBX files are downloaded and processed once; every Player then gets its own
+ * skeleton-aware clone of the model and shares the class's AnimationClips (each
+ * Player still creates its own AnimationMixer and actions).
+ *
+ * Key components:
+ * - loadClassAssets: Loads (or returns the pending load of) one class's model and clips
+ * - preloadAllClasses: Loads every class in CLASS_MANIFEST, reporting file progress
+ * - getLoadedClassAssets: Synchronous lookup for a class that has finished loading
+ * - cloneClassModel: New instance of a class's model for one Player
+ *
+ * Clips are processed when they load: renamed to their ANIMATIONS key, retargeted
+ * to the class model's bone names and stripped of root motion, so players only
+ * wrap them in actions.
+ *
+ * Related files:
+ * - utils/characterClasses.ts: Model and animation paths per class
+ * - components/Player.tsx: Clones the model and plays the clips
+ * - components/GameScene.tsx: Preloads everything behind the LoadingScreen
+ */
+
+import * as THREE from 'three';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { CLASS_MANIFEST, getClassManifest } from './characterClasses';
+
+export interface ClassAssets {
+  model: THREE.Group; // Template only - add clones to the scene, never this
+  clips: Record<string, THREE.AnimationClip>; // Animation name -> processed clip
+}
+
+export interface AssetLoadProgress {
+  loaded: number; // Files finished (including failures)
+  total: number;
+}
+
+const loader = new FBXLoader();
+const pendingLoads = new Map<string, Promise<ClassAssets>>();
+const loadedAssets = new Map<string, ClassAssets>();
+
+const fileName = (path: string) => path.split('/').pop()?.split('.')[0] || '';
+
+// Removes root position tracks so animations play in place (movement comes from the server)
+const makeAnimationInPlace = (clip: THREE.AnimationClip) => {
+  const positionTracks = clip.tracks.filter(track => track.name.endsWith('.position'));
+  if (positionTracks.length === 0) return;
+
+  // Common root bone names: Hips, mixamorigHips, root, Armature
+  const rootNames = ['Hips.position', 'mixamorigHips.position', 'root.position', 'Armature.position', 'Root.position'];
+  const rootTrack = positionTracks.find(track => rootNames.some(name => track.name.toLowerCase().includes(name.toLowerCase())))
+    ?? positionTracks[0]; // Otherwise assume the first position track is the root
+
+  const rootTrackNameBase = rootTrack.name.split('.')[0];
+  clip.tracks = clip.tracks.filter(track => !track.name.startsWith(`${rootTrackNameBase}.position`));
+};
+
+// Maps bone names from the animation file's skeleton to the class model's
+const retargetClip = (clip: THREE.AnimationClip, sourcePath: string, modelPath: string): THREE.AnimationClip => {
+  if (fileName(sourcePath) === fileName(modelPath)) {
+    return clip;
+  }
+
+  const newTracks = clip.tracks.map(track => {
+    // The track name format is usually "boneName.property"
+    const trackNameParts = track.name.split('.');
+    if (trackNameParts.length < 2) return track;
+
+    const boneName = trackNameParts[0];
+    const property = trackNameParts.slice(1).join('.');
+
+    // ** Bone Name Mapping (Example) **
+    // If source uses "bip01_" prefix and target uses "mixamorig", map them:
+    // if (boneName.startsWith('bip01_')) {
+    //   targetBoneName = boneName.replace('bip01_', 'mixamorig');
+    // }
+    const targetBoneName = boneName;
+    const newTrackName = `${targetBoneName}.${property}`;
+    if (newTrackName === track.name) return track;
+
+    if (track instanceof THREE.QuaternionKeyframeTrack) {
+      return new THREE.QuaternionKeyframeTrack(newTrackName, Array.from(track.times), Array.from(track.values));
+    }
+    if (track instanceof THREE.VectorKeyframeTrack) {
+      return new THREE.VectorKeyframeTrack(newTrackName, Array.from(track.times), Array.from(track.values));
+    }
+    return new THREE.KeyframeTrack(newTrackName, Array.from(track.times), Array.from(track.values));
+  });
+
+  return new THREE.AnimationClip(clip.name, clip.duration, newTracks, clip.blendMode);
+};
+
+const loadModel = async (className: string): Promise<THREE.Group> => {
+  const manifest = getClassManifest(className);
+  const fbx = await loader.loadAsync(manifest.modelPath);
+  fbx.scale.setScalar(manifest.scale);
+
+  // Lights embedded in the FBX would be copied into every clone
+  const embeddedLights: THREE.Light[] = [];
+  fbx.traverse((child) => {
+    if (child instanceof THREE.Light) embeddedLights.push(child);
+  });
+  embeddedLights.forEach((light) => {
+    console.log(`[AssetCache] Removing embedded light "${light.name || 'Unnamed'}" from ${className} model`);
+    light.removeFromParent();
+  });
+
+  return fbx;
+};
+
+// Resolves to null (after logging) if the file is missing or has no animation
+const loadClip = async (name: string, path: string, modelPath: string): Promise<THREE.AnimationClip | null> => {
+  try {
+    const animFbx = await loader.loadAsync(path);
+    if (!animFbx.animations || animFbx.animations.length === 0) {
+      console.error(`[AssetCache] No animations found in ${path}`);
+      return null;
+    }
+    const clip = animFbx.animations[0];
+    clip.name = name;
+    const retargetedClip = retargetClip(clip, path, modelPath);
+    makeAnimationInPlace(retargetedClip);
+    return retargetedClip;
+  } catch (error) {
+    console.error(`[AssetCache] Error loading animation ${name} from ${path}:`, error);
+    return null;
+  }
+};
+
+// Number of files loadClassAssets downloads for a class
+const fileCount = (className: string) => 1 + Object.keys(getClassManifest(className).animations).length;
+
+export const loadClassAssets = (className: string, onFileLoaded?: () => void): Promise<ClassAssets> => {
+  const pending = pendingLoads.get(className);
+  if (pending) return pending;
+
+  const manifest = getClassManifest(className);
+  const fileDone = <T>(result: T) => {
+    onFileLoaded?.();
+    return result;
+  };
+
+  const load = Promise.all([
+    loadModel(className).then(fileDone),
+    Promise.all(Object.entries(manifest.animations).map(([name, path]) =>
+      loadClip(name, path, manifest.modelPath).then(fileDone)
+    )),
+  ]).then(([model, loadedClips]) => {
+    const clips: Record<string, THREE.AnimationClip> = {};
+    loadedClips.forEach((clip) => {
+      if (clip) clips[clip.name] = clip;
+    });
+    const total = Object.keys(manifest.animations).length;
+    if (Object.keys(clips).length < total) {
+      console.warn(`[AssetCache] Loaded ${Object.keys(clips).length}/${total} animations for ${className}`);
+    }
+    const assets = { model, clips };
+    loadedAssets.set(className, assets);
+    return assets;
+  });
+
+  // Forget failed loads (e.g. missing model) so a later call can retry
+  load.catch((error) => {
+    console.error(`[AssetCache] Error loading model for ${className}:`, error);
+    pendingLoads.delete(className);
+  });
+
+  pendingLoads.set(className, load);
+  return load;
+};
+
+// Resolves once every class has loaded or failed; failures fall back to per-Player loads
+export const preloadAllClasses = async (onProgress?: (progress: AssetLoadProgress) => void): Promise<void> => {
+  const classNames = Object.keys(CLASS_MANIFEST);
+  const progress: AssetLoadProgress = {
+    loaded: 0,
+    total: classNames.reduce((sum, className) => sum + fileCount(className), 0),
+  };
+  onProgress?.({ ...progress });
+
+  const onFileLoaded = () => {
+    progress.loaded += 1;
+    onProgress?.({ ...progress });
+  };
+
+  await Promise.allSettled(classNames.map((className) => {
+    if (pendingLoads.has(className)) {
+      // Already loaded or started by a Player - count its files when it settles
+      return loadClassAssets(className).finally(() => {
+        progress.loaded += fileCount(className);
+        onProgress?.({ ...progress });
+      });
+    }
+    return loadClassAssets(className, onFileLoaded);
+  }));
+};
+
+export const getLoadedClassAssets = (className: string): ClassAssets | undefined => loadedAssets.get(className);
+
+// Skinned meshes need SkeletonUtils.clone so each copy gets its own bones
+export const cloneClassModel = (assets: ClassAssets): THREE.Group =>
+  SkeletonUtils.clone(assets.model) as THREE.Group;
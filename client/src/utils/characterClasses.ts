@@ -0,0 +1,78 @@
+/**
+ * characterClasses.ts
+ *
+ * Client-side manifest of character class assets. Gameplay stats (health, mana,
+ * speed, ability ranges) come from the server's character_class table; this file
+ * only says how each class looks.
+ *
+ * Key components:
+ * - CLASS_MANIFEST: Model path, scale and animation file per class name
+ * - DEFAULT_CLASS: Used when a class has no manifest entry
+ * - getClassManifest: Manifest entry for a class, falling back to DEFAULT_CLASS
+ *
+ * Adding a class: insert a character_class row on the server (or add it to
+ * DEFAULT_CHARACTER_CLASSES in server/src/common.rs) and add an entry here whose
+ * animations cover every name in ANIMATIONS (Player.tsx).
+ *
+ * Related files:
+ * - components/Player.tsx: Loads the model and animations
+ * - components/JoinGameDialog.tsx: Lists the server's classes
+ * - README_3D_MODELS.md: Model and animation requirements
+ */
+
+export interface ClassManifest {
+  modelPath: string;
+  scale: number;
+  animations: Record<string, string>; // Animation name -> FBX path
+}
+
+const wizardPath = (file: string) => `/models/wizard/${file}`;
+const paladinPath = (file: string) => `/models/paladin/${file}`;
+
+export const CLASS_MANIFEST: Record<string, ClassManifest> = {
+  Wizard: {
+    modelPath: wizardPath('wizard.fbx'),
+    scale: 0.02,
+    animations: {
+      idle: wizardPath('wizard-standing-idle.fbx'),
+      'walk-forward': wizardPath('wizard-standing-walk-forward.fbx'),
+      'walk-back': wizardPath('wizard-standing-walk-back.fbx'),
+      'walk-left': wizardPath('wizard-standing-walk-left.fbx'),
+      'walk-right': wizardPath('wizard-standing-walk-right.fbx'),
+      'run-forward': wizardPath('wizard-standing-run-forward.fbx'),
+      'run-back': wizardPath('wizard-standing-run-back.fbx'),
+      'run-left': wizardPath('wizard-standing-run-left.fbx'),
+      'run-right': wizardPath('wizard-standing-run-right.fbx'),
+      jump: wizardPath('wizard-standing-jump.fbx'),
+      attack1: wizardPath('wizard-standing-1h-magic-attack-01.fbx'),
+      cast: wizardPath('wizard-standing-2h-magic-area-attack-02.fbx'),
+      damage: wizardPath('wizard-standing-react-small-from-front.fbx'),
+      death: wizardPath('wizard-standing-react-death-backward.fbx'),
+    },
+  },
+  Paladin: {
+    modelPath: paladinPath('paladin.fbx'),
+    scale: 1.0,
+    animations: {
+      idle: paladinPath('paladin-idle.fbx'),
+      'walk-forward': paladinPath('paladin-walk-forward.fbx'),
+      'walk-back': paladinPath('paladin-walk-back.fbx'),
+      'walk-left': paladinPath('paladin-walk-left.fbx'),
+      'walk-right': paladinPath('paladin-walk-right.fbx'),
+      'run-forward': paladinPath('paladin-run-forward.fbx'),
+      'run-back': paladinPath('paladin-run-back.fbx'),
+      'run-left': paladinPath('paladin-run-left.fbx'),
+      'run-right': paladinPath('paladin-run-right.fbx'),
+      jump: paladinPath('paladin-jump.fbx'),
+      attack1: paladinPath('paladin-attack.fbx'),
+      cast: paladinPath('paladin-cast.fbx'),
+      damage: paladinPath('paladin-damage.fbx'),
+      death: paladinPath('paladin-death.fbx'),
+    },
+  },
+};
+
+export const DEFAULT_CLASS = 'Wizard';
+
+export const getClassManifest = (className: string): ClassManifest =>
+  CLASS_MANIFEST[className] ?? CLASS_MANIFEST[DEFAULT_CLASS];
@@ -0,0 +1,74 @@
+/**
+ * chat.ts
+ *
+ * Client helpers for the chat tables and the send_chat_message reducer.
+ * The server validates, rate-limits, filters and delivers messages
+ * (chat_logic.rs): global ones in chat_message, team and whisper ones as
+ * private_chat_message rows only their reader receives. The client merges the
+ * two and turns typed commands into calls.
+ *
+ * Key components:
+ * - CHAT_CHANNELS: Channel names, mirrored from server common.rs
+ * - ChatLine / chatLineKey / byTimeSent: A row from either table, its unique
+ *   key and the log order
+ * - parseChatInput: "/t message" for team chat, "/w name message" to whisper,
+ *   anything else is global
+ * - CHAT_BUBBLE_*: How long and how far away chat shows as a speech bubble
+ *
+ * Related files:
+ * - components/ChatBox.tsx: Chat log and input
+ * - components/Player.tsx: Speech bubble above the nametag
+ * - App.tsx: Keeps recent messages in state and sends them
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { ChatMessage, PlayerSummary, PrivateChatMessage } from '../generated';
+
+// Match CHAT_* in server/src/common.rs
+export const CHAT_CHANNELS = {
+  global: 'global',
+  team: 'team',
+  whisper: 'whisper',
+} as const;
+
+// Live global and team messages also appear above the sender for this long,
+// to players within this distance (world units). Whispers never do.
+export const CHAT_BUBBLE_DURATION_MS = 5000;
+export const CHAT_BUBBLE_RANGE = 25;
+
+export type ChatChannel = typeof CHAT_CHANNELS[keyof typeof CHAT_CHANNELS];
+
+export interface ParsedChatInput {
+  channel: ChatChannel;
+  text: string;
+  recipient?: Identity;
+}
+
+// Global messages come from chat_message, team and whisper ones from private_chat_message
+export type ChatLine = ChatMessage | PrivateChatMessage;
+
+// Ids are only unique per table, and each table holds different channels
+export const chatLineKey = (line: ChatLine): string => `${line.channel}-${line.id}`;
+
+export const byTimeSent = (a: ChatLine, b: ChatLine): number =>
+  Number(a.sentAt.microsSinceUnixEpoch - b.sentAt.microsSinceUnixEpoch) || chatLineKey(a).localeCompare(chatLineKey(b));
+
+// Returns an error string for an unusable command; the server checks everything else
+export const parseChatInput = (input: string, players: Iterable<PlayerSummary>): ParsedChatInput | string => {
+  const trimmed = input.trim();
+  const team = trimmed.match(/^\/t\s+(.*)$/i);
+  if (team) {
+    return { channel: CHAT_CHANNELS.team, text: team[1] };
+  }
+  const whisper = trimmed.match(/^\/w\s+(\S+)\s+(.*)$/i);
+  if (whisper) {
+    const name = whisper[1].toLowerCase();
+    const target = Array.from(players).find((player) => player.username.toLowerCase() === name);
+    if (!target) return `No player named ${whisper[1]}`;
+    return { channel: CHAT_CHANNELS.whisper, text: whisper[2], recipient: target.identity };
+  }
+  if (trimmed.startsWith('/')) {
+    return 'Commands: /t message, /w name message';
+  }
+  return { channel: CHAT_CHANNELS.global, text: trimmed };
+};
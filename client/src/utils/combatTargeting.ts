@@ -0,0 +1,67 @@
+/**
+ * combatTargeting.ts
+ *
+ * Picks the target for the attack and cast_spell reducers. The server validates
+ * range (and cooldown/mana) itself; the client only needs to choose the most
+ * sensible living player to send, preferring whoever is in front of the camera.
+ *
+ * Key components:
+ * - getCombatRange: Ability range from the attacker's character_class row
+ * - findCombatTarget: Nearest living player in range, facing cone first;
+ *   teammates are skipped unless friendly fire is on
+ *
+ * Related files:
+ * - App.tsx: Calls the combat reducers on attack/cast input
+ * - server/src/combat_logic.rs: Authoritative stats and validation
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerData, CharacterClass } from '../generated';
+
+export type CombatAction = 'attack' | 'spell';
+
+const FACING_CONE_COS = Math.cos(Math.PI / 3); // Targets within 60° of facing are preferred
+
+// Same stats the server's action_stats uses; nothing is in range until the class rows arrive
+export const getCombatRange = (characterClass: CharacterClass | undefined, action: CombatAction): number => {
+  if (!characterClass) return 0;
+  return action === 'attack' ? characterClass.attack.range : characterClass.spell.range;
+};
+
+export const findCombatTarget = (
+  attacker: PlayerData,
+  yaw: number,
+  candidates: Iterable<PlayerData>,
+  action: CombatAction,
+  friendlyFire: boolean,
+  attackerClass: CharacterClass | undefined,
+): Identity | null => {
+  const range = getCombatRange(attackerClass, action);
+  // Local +Z is forward; rotated by yaw this is (sin, cos) on the XZ plane
+  const forwardX = Math.sin(yaw);
+  const forwardZ = Math.cos(yaw);
+
+  let bestInCone: { identity: Identity; distance: number } | null = null;
+  let bestOverall: { identity: Identity; distance: number } | null = null;
+
+  for (const candidate of candidates) {
+    if (candidate.health <= 0 || candidate.identity.isEqual(attacker.identity)) continue;
+    // Match are_teammates in server/src/team_logic.rs (team 0 means no team)
+    if (!friendlyFire && attacker.teamId !== 0 && candidate.teamId === attacker.teamId) continue;
+
+    const dx = candidate.position.x - attacker.position.x;
+    const dz = candidate.position.z - attacker.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance > range) continue;
+
+    if (!bestOverall || distance < bestOverall.distance) {
+      bestOverall = { identity: candidate.identity, distance };
+    }
+    const facing = distance > 0 ? (dx * forwardX + dz * forwardZ) / distance : 1;
+    if (facing >= FACING_CONE_COS && (!bestInCone || distance < bestInCone.distance)) {
+      bestInCone = { identity: candidate.identity, distance };
+    }
+  }
+
+  return (bestInCone ?? bestOverall)?.identity ?? null;
+};
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_RECONNECT_ATTEMPTS, getReconnectDelayMs, isRejectedTokenError } from './connectionConfig';
+
+describe('getReconnectDelayMs', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles from one second and caps at thirty', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // No jitter
+    expect([0, 1, 2, 5, MAX_RECONNECT_ATTEMPTS].map(getReconnectDelayMs)).toEqual([1000, 2000, 4000, 30000, 30000]);
+  });
+
+  it('jitters by at most 20%', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getReconnectDelayMs(0)).toBe(800);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getReconnectDelayMs(0)).toBe(1200);
+  });
+});
+
+describe('isRejectedTokenError', () => {
+  it("recognizes the SDK's token verification failure only", () => {
+    expect(isRejectedTokenError(new Error('Failed to verify token: Unauthorized'))).toBe(true);
+    expect(isRejectedTokenError(new Error('WebSocket closed'))).toBe(false);
+    expect(isRejectedTokenError({ type: 'error' })).toBe(false);
+  });
+});
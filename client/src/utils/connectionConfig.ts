@@ -0,0 +1,86 @@
+/**
+ * connectionConfig.ts
+ *
+ * Resolves where the client connects and keeps the auth token between sessions:
+ *
+ * - Connection target: URL query params (?host=...&module=...) override Vite env
+ *   variables (VITE_SPACETIMEDB_HOST / VITE_SPACETIMEDB_MODULE), which override
+ *   the maincloud defaults. A host without a scheme is treated as wss://.
+ * - Auth token: Stored in localStorage per host+module so a reload reuses the same
+ *   Identity (and the logged_out_player rejoin path on the server). A token the
+ *   server rejects is cleared rather than retried.
+ * - Reconnect backoff: Exponential delay with jitter for auto-reconnect, given
+ *   up after MAX_RECONNECT_ATTEMPTS.
+ *
+ * Related files:
+ * - App.tsx: Builds the DbConnection and drives reconnects
+ * - .env.example: Documents the supported environment variables
+ */
+
+const DEFAULT_HOST = 'maincloud.spacetimedb.com';
+const DEFAULT_MODULE = 'promptandconquer';
+const TOKEN_STORAGE_PREFIX = 'spacetimedb-auth-token';
+
+// --- Reconnect Constants ---
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+export const MAX_RECONNECT_ATTEMPTS = 8; // About 2.5 minutes of backoff
+
+export interface ConnectionConfig {
+  uri: string;
+  moduleName: string;
+}
+
+// Accept "host", "host:port", "ws://host:port", "wss://host" or "http(s)://host"
+const normalizeUri = (host: string): string => {
+  if (/^wss?:\/\//i.test(host)) return host;
+  if (/^https?:\/\//i.test(host)) return host.replace(/^http/i, 'ws');
+  return `wss://${host}`;
+};
+
+export const getConnectionConfig = (): ConnectionConfig => {
+  const params = new URLSearchParams(window.location.search);
+  const host = params.get('host') || import.meta.env.VITE_SPACETIMEDB_HOST || DEFAULT_HOST;
+  const moduleName = params.get('module') || import.meta.env.VITE_SPACETIMEDB_MODULE || DEFAULT_MODULE;
+  return { uri: normalizeUri(host), moduleName };
+};
+
+// Tokens are scoped per target so dev and production identities don't collide
+const tokenStorageKey = (config: ConnectionConfig): string =>
+  `${TOKEN_STORAGE_PREFIX}:${config.uri}/${config.moduleName}`;
+
+export const loadAuthToken = (config: ConnectionConfig): string | undefined => {
+  try {
+    return localStorage.getItem(tokenStorageKey(config)) ?? undefined;
+  } catch (error) {
+    console.warn("Unable to read auth token from localStorage:", error);
+    return undefined;
+  }
+};
+
+export const saveAuthToken = (config: ConnectionConfig, token: string): void => {
+  try {
+    localStorage.setItem(tokenStorageKey(config), token);
+  } catch (error) {
+    console.warn("Unable to save auth token to localStorage:", error);
+  }
+};
+
+export const clearAuthToken = (config: ConnectionConfig): void => {
+  try {
+    localStorage.removeItem(tokenStorageKey(config));
+  } catch (error) {
+    console.warn("Unable to clear auth token from localStorage:", error);
+  }
+};
+
+// The SDK exchanges a saved token for a websocket token first and fails with this
+// when the server doesn't accept it (expired, or issued by another server)
+export const isRejectedTokenError = (error: unknown): boolean =>
+  error instanceof Error && error.message.startsWith('Failed to verify token');
+
+// Exponential backoff: 1s, 2s, 4s ... capped at 30s, with +/-20% jitter
+export const getReconnectDelayMs = (attempt: number): number => {
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
@@ -0,0 +1,37 @@
+/**
+ * emotes.ts
+ *
+ * Client side of the emote system. The server validates emotes and clears them
+ * when their duration ends (play_emote / clear_expired_emotes in player_logic.rs);
+ * the client only maps emote names to icons and picks them from the wheel.
+ *
+ * Key components:
+ * - EMOTES: Emote names (mirrored from server common.rs) with label and icon
+ * - EMOTE_WHEEL_KEY: Hold to open the emote wheel; number keys pick an emote
+ * - getEmote: Looks up an emote by the name stored in PlayerData.currentEmote
+ *
+ * Related files:
+ * - components/EmoteWheel.tsx: The wheel overlay
+ * - components/Player.tsx: Shows the current emote above the nametag
+ */
+
+export interface Emote {
+  name: string; // Sent to play_emote
+  label: string;
+  icon: string;
+}
+
+// Match EMOTES in server/src/common.rs (durations live on the server)
+export const EMOTES: readonly Emote[] = [
+  { name: 'wave', label: 'Wave', icon: '👋' },
+  { name: 'cheer', label: 'Cheer', icon: '🎉' },
+  { name: 'laugh', label: 'Laugh', icon: '😂' },
+  { name: 'thumbs_up', label: 'Thumbs up', icon: '👍' },
+  { name: 'angry', label: 'Angry', icon: '😠' },
+  { name: 'dance', label: 'Dance', icon: '💃' },
+];
+
+export const EMOTE_WHEEL_KEY = 'KeyG';
+
+export const getEmote = (name: string | undefined): Emote | undefined =>
+  name ? EMOTES.find((emote) => emote.name === name) : undefined;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { GRID_GAP, GRID_SQUARE_SIZE, chunkAt, chunkKey, chunkQuery, chunksAround } from './gridChunks';
+
+describe('chunkAt', () => {
+  it('maps world positions to the chunk of the square under them', () => {
+    expect(chunkAt({ x: 0, z: 0 })).toEqual({ chunkX: 1, chunkZ: 1 });
+    // The 21st column (index 20) starts half a gap right of the origin
+    expect(chunkAt({ x: GRID_GAP / 2 + GRID_SQUARE_SIZE / 2, z: 0 })).toEqual({ chunkX: 2, chunkZ: 1 });
+  });
+
+  it('clamps positions off the grid to the edge chunks', () => {
+    expect(chunkAt({ x: -1000, z: 1000 })).toEqual({ chunkX: 0, chunkZ: 3 });
+  });
+});
+
+describe('chunksAround', () => {
+  it('returns the block of chunks around the center', () => {
+    expect(chunksAround({ chunkX: 1, chunkZ: 1 }).map(chunkKey)).toEqual([
+      '0,0', '1,0', '2,0',
+      '0,1', '1,1', '2,1',
+      '0,2', '1,2', '2,2',
+    ]);
+  });
+
+  it('stops at the grid edges', () => {
+    expect(chunksAround({ chunkX: 0, chunkZ: 3 }).map(chunkKey)).toEqual(['0,2', '1,2', '0,3', '1,3']);
+  });
+});
+
+describe('chunkQuery', () => {
+  it('selects one chunk of grid squares', () => {
+    expect(chunkQuery({ chunkX: 2, chunkZ: 3 })).toBe('SELECT * FROM grid_square WHERE chunk_x = 2 AND chunk_z = 3');
+  });
+});
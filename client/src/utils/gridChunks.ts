@@ -0,0 +1,66 @@
+/**
+ * gridChunks.ts
+ *
+ * Layout of the ground grid and its subscription chunks. The server stores a
+ * chunk_x/chunk_z on every grid_square row (territory_logic.rs square_chunk) so
+ * the client can subscribe to the squares near the local player instead of the
+ * whole world.
+ *
+ * Key components:
+ * - GRID_*: Grid layout, mirrored from server/src/common.rs - change both together
+ * - CHUNK_VIEW_RADIUS: How many chunks around the player's chunk stay subscribed
+ * - chunkAt: Chunk under a world position (clamped to the grid)
+ * - chunksAround: The chunks within CHUNK_VIEW_RADIUS of a chunk
+ * - chunkQuery: Subscription SQL for one chunk
+ *
+ * Related files:
+ * - components/GroundGrid.tsx: Subscribes and unsubscribes chunks as the player moves
+ * - components/GameScene.tsx: Passes the grid layout and the local player's position
+ */
+
+import { Vector3 } from '../generated';
+
+export const GRID_ROWS = 40;
+export const GRID_COLUMNS = 40;
+export const GRID_SQUARE_SIZE = 2.2;
+export const GRID_GAP = 0.15;
+export const GRID_CHUNK_SIZE = 10; // Squares per chunk side
+
+// 1 keeps a 3x3 block of chunks (30x30 squares) around the player
+export const CHUNK_VIEW_RADIUS = 1;
+
+export interface GridChunk {
+  chunkX: number; // Along x (columns)
+  chunkZ: number; // Along z (rows)
+}
+
+const GRID_PITCH = GRID_SQUARE_SIZE + GRID_GAP;
+const CHUNK_COLUMNS = Math.ceil(GRID_COLUMNS / GRID_CHUNK_SIZE);
+const CHUNK_ROWS = Math.ceil(GRID_ROWS / GRID_CHUNK_SIZE);
+
+// The grid is centered on the origin, so its first square starts at -total/2
+const gridOrigin = (count: number) => -(count * GRID_SQUARE_SIZE + (count - 1) * GRID_GAP) / 2;
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+export const chunkKey = (chunk: GridChunk): string => `${chunk.chunkX},${chunk.chunkZ}`;
+
+// Positions off the grid map to the nearest edge chunk
+export const chunkAt = (position: Pick<Vector3, 'x' | 'z'>): GridChunk => {
+  const col = clamp(Math.floor((position.x - gridOrigin(GRID_COLUMNS)) / GRID_PITCH), GRID_COLUMNS - 1);
+  const row = clamp(Math.floor((position.z - gridOrigin(GRID_ROWS)) / GRID_PITCH), GRID_ROWS - 1);
+  return { chunkX: Math.floor(col / GRID_CHUNK_SIZE), chunkZ: Math.floor(row / GRID_CHUNK_SIZE) };
+};
+
+export const chunksAround = (center: GridChunk, radius: number = CHUNK_VIEW_RADIUS): GridChunk[] => {
+  const chunks: GridChunk[] = [];
+  for (let chunkZ = Math.max(center.chunkZ - radius, 0); chunkZ <= Math.min(center.chunkZ + radius, CHUNK_ROWS - 1); chunkZ++) {
+    for (let chunkX = Math.max(center.chunkX - radius, 0); chunkX <= Math.min(center.chunkX + radius, CHUNK_COLUMNS - 1); chunkX++) {
+      chunks.push({ chunkX, chunkZ });
+    }
+  }
+  return chunks;
+};
+
+export const chunkQuery = (chunk: GridChunk): string =>
+  `SELECT * FROM grid_square WHERE chunk_x = ${chunk.chunkX} AND chunk_z = ${chunk.chunkZ}`;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { InputState } from '../generated';
+import { InputBatcher, INPUT_BATCH_TICKS } from './inputBatcher';
+
+const idle = (sequence: number): InputState => ({
+  forward: false, backward: false, left: false, right: false,
+  sprint: false, jump: false, attack: false, castSpell: false,
+  sequence,
+});
+const facing = (y: number) => ({ x: 0, y, z: 0 });
+
+describe('InputBatcher', () => {
+  it('sends changed samples once per batch', () => {
+    const batcher = new InputBatcher();
+    expect(batcher.sample(idle(1), facing(0))).toBeNull();
+    expect(batcher.sample({ ...idle(2), jump: true }, facing(0))).toBeNull();
+    const batch = batcher.sample({ ...idle(3), jump: true }, facing(0));
+
+    expect(batch?.inputs.map(input => input.sequence)).toEqual([1, 2]);
+  });
+
+  it('keeps a press and release within one batch', () => {
+    const batcher = new InputBatcher();
+    batcher.sample(idle(1), facing(0));
+    batcher.sample({ ...idle(2), attack: true }, facing(0));
+    const batch = batcher.sample(idle(3), facing(0));
+
+    expect(batch?.inputs.map(input => input.attack)).toEqual([false, true, false]);
+  });
+
+  it('sends nothing while idle input is unchanged', () => {
+    const batcher = new InputBatcher();
+    for (let tick = 1; tick <= INPUT_BATCH_TICKS; tick++) batcher.sample(idle(tick), facing(0));
+    for (let tick = INPUT_BATCH_TICKS + 1; tick <= 4 * INPUT_BATCH_TICKS; tick++) {
+      expect(batcher.sample(idle(tick), facing(0))).toBeNull();
+    }
+  });
+
+  it('sends nothing while a held movement key is unchanged', () => {
+    const batcher = new InputBatcher();
+    const walking = (sequence: number) => ({ ...idle(sequence), forward: true });
+    batcher.sample(walking(1), facing(0));
+    batcher.sample(walking(2), facing(0));
+    expect(batcher.sample(walking(3), facing(0))?.inputs.map(input => input.sequence)).toEqual([1]);
+
+    batcher.sample(walking(4), facing(0));
+    batcher.sample(walking(5), facing(0));
+    expect(batcher.sample(walking(6), facing(0))).toBeNull();
+  });
+
+  it('treats a new facing as a change and sends the latest rotation', () => {
+    const batcher = new InputBatcher();
+    batcher.sample(idle(1), facing(0));
+    batcher.sample(idle(2), facing(0.5));
+    const batch = batcher.sample(idle(3), facing(0.5));
+
+    expect(batch?.inputs.map(input => input.sequence)).toEqual([1, 2]);
+    expect(batch?.rotation).toEqual(facing(0.5));
+  });
+
+  it('sends the next sample after a reset', () => {
+    const batcher = new InputBatcher();
+    for (let tick = 1; tick <= INPUT_BATCH_TICKS; tick++) batcher.sample(idle(tick), facing(0));
+    batcher.reset();
+    batcher.sample(idle(4), facing(0));
+    batcher.sample(idle(5), facing(0));
+
+    expect(batcher.sample(idle(6), facing(0))?.inputs.map(input => input.sequence)).toEqual([4]);
+  });
+});
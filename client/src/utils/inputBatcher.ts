@@ -0,0 +1,75 @@
+/**
+ * inputBatcher.ts
+ *
+ * Fixed-rate input sampling, so input traffic doesn't scale with the monitor's
+ * refresh rate. App samples the held input every INPUT_TICK_MS; a sample is only
+ * recorded when it differs from the previous one (keys or facing), and recorded
+ * samples go to the server INPUT_BATCH_TICKS ticks at a time in one
+ * update_player_inputs call.
+ *
+ * The input sequence counts input ticks, so Player's prediction history shares
+ * a sequence across every frame rendered within a tick and is pruned by the
+ * last_input_seq the server reports once game_tick has simulated the inputs.
+ *
+ * Key components:
+ * - INPUT_TICK_RATE / INPUT_TICK_MS: Client input sampling rate
+ * - INPUT_BATCH_TICKS: Ticks collected before a batch is sent
+ * - InputBatcher: Records changed samples and hands out due batches
+ *
+ * Related files:
+ * - App.tsx: Runs the input tick and calls updatePlayerInputs
+ * - components/Player.tsx: Prediction and reconciliation against last_input_seq
+ * - server/src/player_logic.rs: queue_input_batch and simulate_inputs (server limit MAX_INPUT_BATCH_SIZE in common.rs)
+ */
+
+import { InputState, Vector3 } from '../generated';
+
+export const INPUT_TICK_RATE = 30; // Samples per second (CLIENT_INPUT_TICK_RATE in server/src/common.rs)
+export const INPUT_TICK_MS = 1000 / INPUT_TICK_RATE;
+export const INPUT_BATCH_TICKS = 3; // At most 10 update_player_inputs calls per second
+
+export interface InputBatch {
+  inputs: InputState[]; // Oldest first
+  rotation: Vector3; // Facing at the tick the batch was sent
+}
+
+export class InputBatcher {
+  private pending: InputState[] = [];
+  private lastInput: InputState | null = null;
+  private lastRotationY: number | null = null;
+  private ticksSinceFlush = 0;
+
+  // Call once per input tick; returns a batch when one is due and anything changed
+  sample(input: InputState, rotation: Vector3): InputBatch | null {
+    if (!this.isUnchanged(input, rotation.y)) {
+      this.lastInput = { ...input };
+      this.lastRotationY = rotation.y;
+      this.pending.push(this.lastInput);
+    }
+
+    this.ticksSinceFlush += 1;
+    if (this.ticksSinceFlush < INPUT_BATCH_TICKS) return null;
+    this.ticksSinceFlush = 0;
+    if (this.pending.length === 0) return null;
+
+    const inputs = this.pending;
+    this.pending = [];
+    return { inputs, rotation: { ...rotation } };
+  }
+
+  // Forget everything, e.g. after reconnecting, so the next sample is always sent
+  reset(): void {
+    this.pending = [];
+    this.lastInput = null;
+    this.lastRotationY = null;
+    this.ticksSinceFlush = 0;
+  }
+
+  // The sequence changes every tick, so it's excluded from the comparison
+  private isUnchanged(input: InputState, rotationY: number): boolean {
+    const last = this.lastInput;
+    if (!last || this.lastRotationY !== rotationY) return false;
+    return (Object.keys(input) as (keyof InputState)[])
+      .every(key => key === 'sequence' || last[key] === input[key]);
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { AOI_CELL_SIZE, cellOf, localPlayerQuery, playerCellQueries } from './interest';
+
+describe('cellOf', () => {
+  it('floors positions into cells, including negative ones', () => {
+    expect(cellOf({ x: 0, z: AOI_CELL_SIZE - 0.01 })).toEqual({ cellX: 0, cellZ: 0 });
+    expect(cellOf({ x: -0.01, z: AOI_CELL_SIZE })).toEqual({ cellX: -1, cellZ: 1 });
+  });
+});
+
+describe('playerCellQueries', () => {
+  it('subscribes the block of cells around the center, keyed by cell', () => {
+    const queries = playerCellQueries({ cellX: 0, cellZ: -1 });
+
+    expect(Array.from(queries.keys())).toEqual([
+      '-1,-2', '0,-2', '1,-2',
+      '-1,-1', '0,-1', '1,-1',
+      '-1,0', '0,0', '1,0',
+    ]);
+    expect(queries.get('1,0')).toBe('SELECT * FROM player WHERE cell_x = 1 AND cell_z = 0');
+  });
+});
+
+describe('localPlayerQuery', () => {
+  it('selects the row by identity hex', () => {
+    const identity = new Identity(255n);
+    expect(localPlayerQuery(identity)).toBe(`SELECT * FROM player WHERE identity = 0x${'0'.repeat(62)}ff`);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * interest.ts
+ *
+ * Area-of-interest (AOI) scoping for the player table. The server keeps a
+ * cell_x/cell_z on every player row (interest_logic.rs), so the client only
+ * subscribes to the players in the cells around the local player and
+ * re-scopes when the local player crosses into another cell. Players outside
+ * the area leave the client cache (onDelete) and come back as inserts.
+ *
+ * Key components:
+ * - AOI_CELL_SIZE: Cell side in world units, mirrored from server/src/common.rs
+ * - AOI_VIEW_RADIUS: How many cells around the local player's cell are subscribed
+ * - cellOf: Cell containing a world position
+ * - playerCellQueries: Subscription SQL (by key) for the cells around a cell
+ * - localPlayerQuery: The local player's own row, subscribed separately so it
+ *   never drops out while the cell subscriptions are being swapped
+ *
+ * Everything that needs every player regardless of distance (scoreboard, team
+ * sizes, names) reads the player_summary table instead.
+ *
+ * Related files:
+ * - App.tsx: Owns the subscriptions and re-scopes them
+ * - utils/scopedSubscriptions.ts: Subscribes/unsubscribes the changing set of cells
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { Vector3 } from '../generated';
+
+export const AOI_CELL_SIZE = 32;
+
+// 1 subscribes a 3x3 block of cells, so players are replicated at least
+// AOI_CELL_SIZE (and up to twice that) away from the local player
+export const AOI_VIEW_RADIUS = 1;
+
+export interface PlayerCell {
+  cellX: number;
+  cellZ: number;
+}
+
+export const cellOf = (position: Pick<Vector3, 'x' | 'z'>): PlayerCell => ({
+  cellX: Math.floor(position.x / AOI_CELL_SIZE),
+  cellZ: Math.floor(position.z / AOI_CELL_SIZE),
+});
+
+export const playerCellQueries = (center: PlayerCell, radius: number = AOI_VIEW_RADIUS): Map<string, string> => {
+  const queries = new Map<string, string>();
+  for (let cellZ = center.cellZ - radius; cellZ <= center.cellZ + radius; cellZ++) {
+    for (let cellX = center.cellX - radius; cellX <= center.cellX + radius; cellX++) {
+      queries.set(`${cellX},${cellZ}`, `SELECT * FROM player WHERE cell_x = ${cellX} AND cell_z = ${cellZ}`);
+    }
+  }
+  return queries;
+};
+
+export const localPlayerQuery = (identity: Identity): string =>
+  `SELECT * FROM player WHERE identity = 0x${identity.toHexString()}`;
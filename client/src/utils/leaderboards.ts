@@ -0,0 +1,39 @@
+/**
+ * leaderboards.ts
+ *
+ * Client helpers for the server-maintained leaderboard_entry table. Ranking is
+ * done by the server (leaderboard_logic.rs); the client only groups rows by board.
+ *
+ * Key components:
+ * - LEADERBOARDS: Board names, mirrored from server common.rs
+ * - groupLeaderboards: Entries per board, ordered by rank
+ *
+ * Related files:
+ * - components/Scoreboard.tsx: Tab-held scoreboard overlay
+ * - App.tsx: Keeps the grouped boards in state
+ */
+
+import { LeaderboardEntry } from '../generated';
+
+// Match LEADERBOARD_* in server/src/common.rs
+export const LEADERBOARDS = {
+  matchScore: 'match_score',
+  allTimeKills: 'all_time_kills',
+  allTimeTerritory: 'all_time_territory',
+} as const;
+
+export const groupLeaderboards = (entries: Iterable<LeaderboardEntry>): Map<string, LeaderboardEntry[]> => {
+  const boards = new Map<string, LeaderboardEntry[]>();
+  for (const entry of entries) {
+    const board = boards.get(entry.board);
+    if (board) {
+      board.push(entry);
+    } else {
+      boards.set(entry.board, [entry]);
+    }
+  }
+  for (const board of boards.values()) {
+    board.sort((a, b) => a.rank - b.rank);
+  }
+  return boards;
+};
@@ -0,0 +1,43 @@
+/**
+ * matchState.ts
+ *
+ * Client helpers for the match lifecycle. The server drives every transition
+ * (match_logic.rs); the client only reads the game_match row to show the
+ * lobby/countdown/timer banner and the results screen.
+ *
+ * Key components:
+ * - MATCH_STATES: game_match.state values, mirrored from server common.rs
+ * - getCurrentMatch: The match with the highest id
+ * - secondsUntil / formatClock: Countdown display helpers
+ *
+ * Related files:
+ * - components/MatchStatus.tsx: Top-of-screen match banner
+ * - components/ResultsScreen.tsx: Results shown between rounds
+ * - server/src/match_logic.rs: Authoritative state machine
+ */
+
+import { Timestamp } from '@clockworklabs/spacetimedb-sdk';
+import { GameMatch } from '../generated';
+
+// Match MATCH_* in server/src/common.rs
+export const MATCH_STATES = {
+  lobby: 'lobby',
+  countdown: 'countdown',
+  inProgress: 'in_progress',
+  finished: 'finished',
+} as const;
+
+export const getCurrentMatch = (matches: Iterable<GameMatch>): GameMatch | null => {
+  let current: GameMatch | null = null;
+  for (const match of matches) {
+    if (!current || match.id > current.id) current = match;
+  }
+  return current;
+};
+
+// Whole seconds left until a server timestamp (clamped at zero)
+export const secondsUntil = (at: Timestamp | undefined, now: number): number =>
+  at ? Math.max(0, Math.ceil((at.toDate().getTime() - now) / 1000)) : 0;
+
+export const formatClock = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
@@ -0,0 +1,44 @@
+/**
+ * rateLimits.ts
+ *
+ * Client view of the server's per-reducer rate limits (rate_limit_logic.rs).
+ * Every game reducer spends a token from the caller's bucket; buckets refill
+ * continuously up to their budget's capacity, so a bucket row is only written
+ * when a call spends from it and the current level is derived from its age.
+ *
+ * Key components:
+ * - localRateLimitQuery: Subscription SQL for the local identity's buckets
+ * - rateLimitUsage: Tokens spent per budgeted reducer at a given time
+ *
+ * Related files:
+ * - App.tsx: Subscribes to the budgets and the local buckets
+ * - components/DebugPanel.tsx: Shows the usage
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { RateLimitBucket, RateLimitBudget } from '../generated';
+
+export interface RateLimitUsage {
+  reducer: string;
+  used: number; // Tokens spent and not yet refilled
+  capacity: number;
+}
+
+export const localRateLimitQuery = (identity: Identity): string =>
+  `SELECT * FROM rate_limit_bucket WHERE identity = 0x${identity.toHexString()}`;
+
+// buckets: reducer -> the local identity's bucket (reducers never called have none)
+export const rateLimitUsage = (
+  budgets: ReadonlyMap<string, RateLimitBudget>,
+  buckets: ReadonlyMap<string, RateLimitBucket>,
+  now: number
+): RateLimitUsage[] =>
+  Array.from(budgets.values())
+    .map((budget) => {
+      const bucket = buckets.get(budget.reducer);
+      if (!bucket) return { reducer: budget.reducer, used: 0, capacity: budget.capacity };
+      const elapsedSeconds = Math.max(0, (now - bucket.updatedAt.toDate().getTime()) / 1000);
+      const tokens = Math.min(budget.capacity, bucket.tokens + elapsedSeconds * budget.refillPerSecond);
+      return { reducer: budget.reducer, used: budget.capacity - tokens, capacity: budget.capacity };
+    })
+    .sort((a, b) => a.reducer.localeCompare(b.reducer));
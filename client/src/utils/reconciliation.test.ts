@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { InputState } from '../generated';
+import { RingBuffer } from './ringBuffer';
+import { PendingInput, POSITION_RECONCILE_THRESHOLD, ReplayMove, reconcile } from './reconciliation';
+
+const SPEED = 10;
+const FRAME = 0.1;
+
+// Forward moves along +Z regardless of yaw, enough to follow the replay
+const move: ReplayMove = (position, _yaw, input, dt) =>
+  position.clone().add(new THREE.Vector3(0, 0, input.forward ? SPEED * dt : 0));
+
+const frame = (sequence: number, forward = true, yaw = 0): PendingInput => ({
+  sequence,
+  input: { forward, sequence } as InputState,
+  yaw,
+  dt: FRAME,
+});
+
+const pending = (...frames: PendingInput[]): RingBuffer<PendingInput> => {
+  const buffer = new RingBuffer<PendingInput>(16);
+  frames.forEach(entry => buffer.push(entry));
+  return buffer;
+};
+
+// Only the fields reconciliation reads
+const server = (z: number, lastInputSeq: number, yaw = 0, isTeleporting = false) => ({
+  position: { x: 0, y: 0, z },
+  rotation: { x: 0, y: yaw, z: 0 },
+  lastInputSeq,
+  isTeleporting,
+});
+
+const at = (z: number) => new THREE.Vector3(0, 0, z);
+
+describe('reconcile', () => {
+  it('drops the frames before the acknowledged sequence', () => {
+    const frames = pending(frame(1), frame(1), frame(2), frame(2), frame(3));
+    reconcile(frames, server(0, 2), at(0), move);
+
+    expect([...frames].map(entry => entry.sequence)).toEqual([2, 2, 3]);
+  });
+
+  it('replays the remaining frames on top of the server position', () => {
+    const frames = pending(frame(1), frame(2), frame(3, false), frame(4));
+    const result = reconcile(frames, server(1, 2), at(3), move);
+
+    expect(result.position.z).toBeCloseTo(1 + 2 * SPEED * FRAME);
+    expect(result.snap).toBe(true);
+  });
+
+  it('smooths a correction beyond POSITION_RECONCILE_THRESHOLD', () => {
+    const result = reconcile(pending(frame(2)), server(0, 2), at(SPEED * FRAME + POSITION_RECONCILE_THRESHOLD + 0.1), move);
+
+    expect(result.position.z).toBeCloseTo(SPEED * FRAME);
+    expect(result.snap).toBe(false);
+    expect(reconcile(pending(frame(2)), server(0, 2), at(SPEED * FRAME + POSITION_RECONCILE_THRESHOLD - 0.1), move).snap).toBe(true);
+  });
+
+  it('snaps to a server teleport however far it is', () => {
+    const result = reconcile(pending(), server(50, 2, 0, true), at(0), move);
+
+    expect(result.position.z).toBe(50);
+    expect(result.snap).toBe(true);
+  });
+
+  it('only reports the server yaw when it overrode the acknowledged facing', () => {
+    expect(reconcile(pending(frame(2, true, 0)), server(0, 2, 0.05), at(1), move).serverYaw).toBeNull();
+    expect(reconcile(pending(frame(2, true, 0)), server(0, 2, 0.5), at(1), move).serverYaw).toBe(0.5);
+    // Facings either side of PI are close
+    expect(reconcile(pending(frame(2, true, Math.PI - 0.01)), server(0, 2, -Math.PI + 0.01), at(1), move).serverYaw).toBeNull();
+  });
+});
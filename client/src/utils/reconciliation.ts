@@ -0,0 +1,74 @@
+/**
+ * reconciliation.ts
+ *
+ * Server reconciliation for the local player's client-side prediction. Player
+ * records every predicted frame (the input held, the facing and the frame time);
+ * when the server reports a newer last_input_seq, the frames it has processed are
+ * dropped and the rest are replayed on top of the authoritative position. The
+ * result is compared with the current prediction to decide how to correct it.
+ *
+ * Key components:
+ * - PendingInput: One predicted frame
+ * - POSITION_RECONCILE_THRESHOLD: Largest error corrected by snapping instead of smoothing
+ * - ROTATION_RECONCILE_THRESHOLD: Smallest yaw error treated as a server override
+ * - reconcile: Prunes acknowledged frames, replays the rest and measures the error
+ *
+ * Related files:
+ * - components/Player.tsx: Records frames and applies the correction
+ * - ringBuffer.ts: Holds the pending frames
+ */
+
+import * as THREE from 'three';
+import { InputState, PlayerData } from '../generated';
+import { RingBuffer } from './ringBuffer';
+
+export const POSITION_RECONCILE_THRESHOLD = 0.4;
+export const ROTATION_RECONCILE_THRESHOLD = 0.1; // Radians
+
+// One predicted frame: the input held and how long it was applied for
+export interface PendingInput {
+  sequence: number;
+  input: InputState;
+  yaw: number;
+  dt: number;
+}
+
+// One frame of movement from `position`, the same rules the prediction uses
+export type ReplayMove = (position: THREE.Vector3, yaw: number, input: InputState, dt: number) => THREE.Vector3;
+
+export interface Reconciliation {
+  position: THREE.Vector3; // Server position with the unacknowledged frames replayed on top
+  snap: boolean; // Small error (or a server teleport): correct immediately rather than smoothing
+  serverYaw: number | null; // Facing the server imposed, if it differs from the one we sent
+}
+
+// Shortest angle between two yaws, in [0, PI]
+const yawDifference = (a: number, b: number): number =>
+  Math.abs(THREE.MathUtils.euclideanModulo(a - b + Math.PI, 2 * Math.PI) - Math.PI);
+
+// Drops the frames before the acknowledged sequence from `pendingInputs` (they're
+// already reflected in the server position) and replays the rest from it.
+// `predicted` is where the client currently thinks the player is.
+export const reconcile = (
+  pendingInputs: RingBuffer<PendingInput>,
+  serverData: Pick<PlayerData, 'position' | 'rotation' | 'lastInputSeq' | 'isTeleporting'>,
+  predicted: THREE.Vector3,
+  move: ReplayMove
+): Reconciliation => {
+  const ackedSeq = serverData.lastInputSeq;
+  pendingInputs.dropWhile(entry => entry.sequence < ackedSeq);
+
+  // Rotation is client-driven, so only a large mismatch means the server overrode it
+  const ackedEntry = pendingInputs.peek();
+  const serverYaw = ackedEntry?.sequence === ackedSeq && yawDifference(serverData.rotation.y, ackedEntry.yaw) > ROTATION_RECONCILE_THRESHOLD
+    ? serverData.rotation.y
+    : null;
+
+  let position = new THREE.Vector3(serverData.position.x, serverData.position.y, serverData.position.z);
+  for (const entry of pendingInputs) {
+    position = move(position, entry.yaw, entry.input, entry.dt);
+  }
+
+  const snap = serverData.isTeleporting || position.distanceTo(predicted) <= POSITION_RECONCILE_THRESHOLD;
+  return { position, snap, serverYaw };
+};
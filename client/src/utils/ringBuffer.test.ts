@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { RingBuffer } from './ringBuffer';
+
+const filled = (capacity: number, items: number[]): RingBuffer<number> => {
+  const buffer = new RingBuffer<number>(capacity);
+  items.forEach(item => buffer.push(item));
+  return buffer;
+};
+
+describe('RingBuffer', () => {
+  it('iterates oldest first', () => {
+    expect([...filled(4, [1, 2, 3])]).toEqual([1, 2, 3]);
+  });
+
+  it('overwrites the oldest entry when full', () => {
+    const buffer = filled(3, [1, 2, 3, 4, 5]);
+
+    expect(buffer.size).toBe(3);
+    expect(buffer.peek()).toBe(3);
+    expect([...buffer]).toEqual([3, 4, 5]);
+  });
+
+  it('drops from the front while the predicate holds', () => {
+    const buffer = filled(3, [1, 2, 3, 4, 5]);
+    buffer.dropWhile(item => item < 5);
+
+    expect([...buffer]).toEqual([5]);
+    buffer.push(6);
+    buffer.push(7);
+    expect([...buffer]).toEqual([5, 6, 7]);
+  });
+
+  it('empties on shift and clear', () => {
+    const buffer = filled(2, [1, 2]);
+
+    expect(buffer.shift()).toBe(1);
+    buffer.clear();
+    expect(buffer.size).toBe(0);
+    expect(buffer.shift()).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * ringBuffer.ts
+ *
+ * Fixed-capacity FIFO buffer used by the netcode (e.g. unacknowledged inputs
+ * for client-side prediction). When full, pushing overwrites the oldest entry
+ * so memory stays bounded no matter how long acknowledgements take.
+ *
+ * Related files:
+ * - components/Player.tsx: Stores pending inputs for reconciliation
+ * - reconciliation.ts: Prunes and replays them
+ */
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private length = 0;
+
+  constructor(private readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.length) % this.capacity;
+    this.items[index] = item;
+    if (this.length < this.capacity) {
+      this.length++;
+    } else {
+      // Buffer full - the oldest entry was just overwritten
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  peek(): T | undefined {
+    return this.length > 0 ? this.items[this.start] : undefined;
+  }
+
+  shift(): T | undefined {
+    if (this.length === 0) return undefined;
+    const item = this.items[this.start];
+    this.items[this.start] = undefined;
+    this.start = (this.start + 1) % this.capacity;
+    this.length--;
+    return item;
+  }
+
+  // Remove entries from the front while the predicate holds
+  dropWhile(predicate: (item: T) => boolean): void {
+    let head = this.peek();
+    while (head !== undefined && predicate(head)) {
+      this.shift();
+      head = this.peek();
+    }
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.length = 0;
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this.length; i++) {
+      yield this.items[(this.start + i) % this.capacity] as T;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * scopedSubscriptions.ts
+ *
+ * A set of SpacetimeDB subscriptions that follows a moving area, e.g. the grid
+ * chunks or player cells around the local player. Each call to update() is
+ * given the queries that should be active (by key); new keys are subscribed and
+ * keys no longer wanted are unsubscribed, so their rows leave the client cache
+ * (and fire onDelete) while rows shared with a still-active query stay.
+ *
+ * A query dropped before the server applied it is unsubscribed as soon as it
+ * is applied.
+ *
+ * Related files:
+ * - components/GroundGrid.tsx: Grid chunks around the local player
+ * - App.tsx: Player cells around the local player (area of interest)
+ */
+
+import * as moduleBindings from '../generated';
+
+// Handle returned by subscriptionBuilder().subscribe()
+type SubscriptionHandle = ReturnType<moduleBindings.SubscriptionBuilder['subscribe']>;
+
+export class ScopedSubscriptions {
+  private handles = new Map<string, SubscriptionHandle>();
+
+  constructor(private readonly connection: moduleBindings.DbConnection, private readonly label: string) {}
+
+  get size(): number {
+    return this.handles.size;
+  }
+
+  // queries: key -> SQL for every query that should be active
+  update(queries: ReadonlyMap<string, string>): void {
+    this.handles.forEach((handle, key) => {
+      if (queries.has(key)) return;
+      this.handles.delete(key);
+      this.release(handle);
+    });
+
+    queries.forEach((query, key) => {
+      if (this.handles.has(key)) return;
+      const handle: SubscriptionHandle = this.connection.subscriptionBuilder()
+        .onApplied(() => {
+          if (this.handles.get(key) !== handle) handle.unsubscribe();
+        })
+        .onError((error) => {
+          console.error(`${this.label} ${key} subscription error:`, error);
+          if (this.handles.get(key) === handle) this.handles.delete(key);
+        })
+        .subscribe(query);
+      this.handles.set(key, handle);
+    });
+  }
+
+  clear(): void {
+    this.handles.forEach((handle) => this.release(handle));
+    this.handles.clear();
+  }
+
+  // Not applied yet: the onApplied check above unsubscribes it once it is
+  private release(handle: SubscriptionHandle): void {
+    if (handle.isActive()) handle.unsubscribe();
+  }
+}
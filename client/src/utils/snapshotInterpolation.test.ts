@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerData } from '../generated';
+import { SnapshotBuffer, clearSnapshots, recordSnapshot, shouldRecordSnapshot } from './snapshotInterpolation';
+
+const at = (time: number, x: number, yaw = 0) => ({ time, x, y: 0, z: 0, yaw });
+
+// Only the fields the interpolation reads
+const player = (x: number, yaw = 0): PlayerData => ({
+  identity: new Identity(1n),
+  position: { x, y: 0, z: 0 },
+  rotation: { x: 0, y: yaw, z: 0 },
+}) as PlayerData;
+
+describe('SnapshotBuffer', () => {
+  it('interpolates between the snapshots around the render time', () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(at(0, 0));
+    buffer.push(at(100, 10));
+
+    expect(buffer.sample(25)?.x).toBeCloseTo(2.5);
+  });
+
+  it('turns the short way across PI', () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(at(0, 0, Math.PI - 0.1));
+    buffer.push(at(100, 0, -Math.PI + 0.1));
+
+    expect(Math.abs(buffer.sample(50)?.yaw ?? 0)).toBeCloseTo(Math.PI);
+  });
+
+  it('extrapolates past the newest snapshot for a bounded time', () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(at(0, 0));
+    buffer.push(at(100, 10));
+
+    expect(buffer.sample(150)?.x).toBeCloseTo(15);
+    expect(buffer.sample(10_000)?.x).toBeCloseTo(35);
+  });
+
+  it('ignores snapshots that arrive out of order', () => {
+    const buffer = new SnapshotBuffer();
+    buffer.push(at(100, 10));
+    buffer.push(at(50, 5));
+
+    expect(buffer.size).toBe(1);
+  });
+});
+
+describe('shouldRecordSnapshot', () => {
+  beforeEach(() => clearSnapshots());
+
+  it('records updates that move or turn the player', () => {
+    recordSnapshot(player(0), 0);
+    recordSnapshot(player(0), 100);
+
+    expect(shouldRecordSnapshot(player(0), player(1))).toBe(true);
+    expect(shouldRecordSnapshot(player(0), player(0, 1))).toBe(true);
+    expect(shouldRecordSnapshot(player(0), player(0))).toBe(false);
+  });
+
+  it('records one unchanged update after movement, where the player stopped', () => {
+    recordSnapshot(player(0), 0);
+    recordSnapshot(player(1), 100);
+    expect(shouldRecordSnapshot(player(1), player(1))).toBe(true);
+
+    recordSnapshot(player(1), 200);
+    expect(shouldRecordSnapshot(player(1), player(1))).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * snapshotInterpolation.ts
+ *
+ * Snapshot interpolation for remote players. `player` row updates that move
+ * or turn a player are recorded with their local receive time, and remote players are rendered a
+ * fixed delay in the past so there are (almost) always two snapshots to
+ * interpolate between. When updates arrive late the last known velocity is
+ * extrapolated for a bounded time before holding position.
+ *
+ * Key components:
+ * - SnapshotBuffer: Per-entity timestamped history with sampling
+ * - recordSnapshot / removeSnapshots / getSnapshotBuffer: Module-level registry
+ *   keyed by identity hex string, fed from App.tsx table callbacks
+ * - shouldRecordSnapshot: Skips row updates that don't change the pose
+ *
+ * Related files:
+ * - App.tsx: Records snapshots from player onInsert/onUpdate/onDelete
+ * - components/Player.tsx: Samples the buffer for remote players each frame
+ * - components/DebugPanel.tsx: Displays and adjusts the interpolation delay
+ */
+
+import { PlayerData } from '../generated';
+
+// --- Interpolation Constants ---
+export const DEFAULT_INTERPOLATION_DELAY_MS = 100;
+export const MIN_INTERPOLATION_DELAY_MS = 0;
+export const MAX_INTERPOLATION_DELAY_MS = 500;
+const MAX_EXTRAPOLATION_MS = 250; // Stop predicting after this long without data
+const SNAPSHOT_HISTORY_MS = 1000; // How much history to keep behind the render time
+const MAX_SNAPSHOTS = 64;
+
+export interface Snapshot {
+  time: number; // performance.now() when the update was received
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+}
+
+export interface SampledState {
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+}
+
+// Shortest signed angle from a to b, in (-PI, PI]
+const angleDelta = (a: number, b: number): number => {
+  const twoPi = Math.PI * 2;
+  return ((((b - a + Math.PI) % twoPi) + twoPi) % twoPi) - Math.PI;
+};
+
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+
+  get latest(): Snapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  get size(): number {
+    return this.snapshots.length;
+  }
+
+  // Whether the two newest snapshots differ, i.e. sampling past them extrapolates
+  get isMoving(): boolean {
+    const snapshots = this.snapshots;
+    if (snapshots.length < 2) return false;
+    const prev = snapshots[snapshots.length - 2];
+    const last = snapshots[snapshots.length - 1];
+    return prev.x !== last.x || prev.y !== last.y || prev.z !== last.z || prev.yaw !== last.yaw;
+  }
+
+  push(snapshot: Snapshot): void {
+    // Ignore out-of-order arrivals (shouldn't happen over one websocket, but be safe)
+    const last = this.latest;
+    if (last && snapshot.time < last.time) return;
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > MAX_SNAPSHOTS) {
+      this.snapshots.shift();
+    }
+  }
+
+  // Sample the entity state at renderTime (already offset by the interpolation delay)
+  sample(renderTime: number): SampledState | null {
+    const snapshots = this.snapshots;
+    if (snapshots.length === 0) return null;
+
+    // Drop history we will never need again, but keep one snapshot before renderTime
+    while (snapshots.length > 2 && snapshots[1].time < renderTime - SNAPSHOT_HISTORY_MS) {
+      snapshots.shift();
+    }
+
+    const first = snapshots[0];
+    if (renderTime <= first.time || snapshots.length === 1) {
+      return { x: first.x, y: first.y, z: first.z, yaw: first.yaw };
+    }
+
+    // Interpolate between the two snapshots surrounding renderTime
+    for (let i = snapshots.length - 1; i > 0; i--) {
+      const from = snapshots[i - 1];
+      const to = snapshots[i];
+      if (renderTime >= from.time && renderTime <= to.time) {
+        const span = to.time - from.time;
+        const t = span > 0 ? (renderTime - from.time) / span : 1;
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          z: from.z + (to.z - from.z) * t,
+          yaw: from.yaw + angleDelta(from.yaw, to.yaw) * t,
+        };
+      }
+    }
+
+    // renderTime is past the newest snapshot - extrapolate for a bounded time
+    const prev = snapshots[snapshots.length - 2];
+    const last = snapshots[snapshots.length - 1];
+    const span = last.time - prev.time;
+    if (span <= 0) {
+      return { x: last.x, y: last.y, z: last.z, yaw: last.yaw };
+    }
+    const ahead = Math.min(renderTime - last.time, MAX_EXTRAPOLATION_MS);
+    const t = ahead / span;
+    return {
+      x: last.x + (last.x - prev.x) * t,
+      y: last.y + (last.y - prev.y) * t,
+      z: last.z + (last.z - prev.z) * t,
+      yaw: last.yaw + angleDelta(prev.yaw, last.yaw) * t,
+    };
+  }
+}
+
+// --- Registry keyed by identity hex string ---
+const buffers = new Map<string, SnapshotBuffer>();
+
+export const recordSnapshot = (player: PlayerData, time: number = performance.now()): void => {
+  const key = player.identity.toHexString();
+  let buffer = buffers.get(key);
+  if (!buffer) {
+    buffer = new SnapshotBuffer();
+    buffers.set(key, buffer);
+  }
+  buffer.push({
+    time,
+    x: player.position.x,
+    y: player.position.y,
+    z: player.position.z,
+    yaw: player.rotation.y,
+  });
+};
+
+const samePose = (a: PlayerData, b: PlayerData): boolean =>
+  a.position.x === b.position.x && a.position.y === b.position.y && a.position.z === b.position.z &&
+  a.rotation.x === b.rotation.x && a.rotation.y === b.rotation.y && a.rotation.z === b.rotation.z;
+
+// Most row updates (health, mana, input sequence, ...) leave the pose alone. The
+// first unchanged update after movement is still recorded: it marks where the
+// player stopped, so sampling settles there instead of extrapolating past it.
+export const shouldRecordSnapshot = (oldPlayer: PlayerData, newPlayer: PlayerData): boolean => {
+  if (!samePose(oldPlayer, newPlayer)) return true;
+  const buffer = buffers.get(newPlayer.identity.toHexString());
+  return buffer === undefined || buffer.isMoving;
+};
+
+export const removeSnapshots = (identityHex: string): void => {
+  buffers.delete(identityHex);
+};
+
+export const clearSnapshots = (): void => {
+  buffers.clear();
+};
+
+export const getSnapshotBuffer = (identityHex: string): SnapshotBuffer | undefined => {
+  return buffers.get(identityHex);
+};
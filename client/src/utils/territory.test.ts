@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_OWNER_COLORS, getOwnerColor, withPlayerColor, withTeamColor } from './territory';
+
+describe('OwnerColors', () => {
+  it('is only replaced when a color changes', () => {
+    const colors = withPlayerColor(EMPTY_OWNER_COLORS, 'aa', 'red');
+
+    expect(withPlayerColor(colors, 'aa', 'red')).toBe(colors);
+    expect(withPlayerColor(colors, 'aa', 'blue')).not.toBe(colors);
+    expect(withTeamColor(colors, 1, undefined)).toBe(colors);
+  });
+
+  it('forgets players and teams that leave', () => {
+    const colors = withTeamColor(withPlayerColor(EMPTY_OWNER_COLORS, 'aa', 'red'), 1, 'green');
+    const after = withTeamColor(withPlayerColor(colors, 'aa', undefined), 1, undefined);
+
+    expect(after.players.size).toBe(0);
+    expect(after.teams.size).toBe(0);
+  });
+});
+
+describe('getOwnerColor', () => {
+  const colors = withTeamColor(withPlayerColor(EMPTY_OWNER_COLORS, 'aa', 'red'), 1, 'green');
+
+  it("prefers the owner's team color, then their player color", () => {
+    expect(getOwnerColor('aa', 1, colors)).toBe('green');
+    expect(getOwnerColor('aa', 0, colors)).toBe('red');
+  });
+
+  it('hashes a stable color for owners who are offline', () => {
+    expect(getOwnerColor('bb', 0, colors)).toBe(getOwnerColor('bb', 0, EMPTY_OWNER_COLORS));
+    expect(getOwnerColor('bb', 0, colors)).toMatch(/^hsl\(/);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * territory.ts
+ *
+ * Client helpers for the territory capture mode. Ownership is decided by the
+ * server (territory_logic.rs); these helpers only derive display data from
+ * grid_square rows.
+ *
+ * Key components:
+ * - OwnerColors: Player colors (from player_summary) and team colors, rebuilt by App
+ *   only when one of them changes so the grid isn't repainted on unrelated updates
+ * - withPlayerColor / withTeamColor: Apply one row change to OwnerColors
+ * - getOwnerColor: Square color for an owner (their team's color, else their
+ *   player color, or a stable hashed color if the owner is offline)
+ *
+ * Related files:
+ * - App.tsx: Keeps OwnerColors in step with player_summary and team
+ * - components/GroundGrid.tsx: Colors squares by owner
+ */
+
+export interface OwnerColors {
+  players: ReadonlyMap<string, string>; // Identity hex -> player color, for every active player
+  teams: ReadonlyMap<number, string>; // Team id -> team color
+}
+
+export const EMPTY_OWNER_COLORS: OwnerColors = { players: new Map(), teams: new Map() };
+
+// Same object back when nothing changed, so React skips the update
+export const withPlayerColor = (colors: OwnerColors, ownerHex: string, color: string | undefined): OwnerColors => {
+  if (colors.players.get(ownerHex) === color) return colors;
+  const players = new Map(colors.players);
+  if (color === undefined) players.delete(ownerHex);
+  else players.set(ownerHex, color);
+  return { ...colors, players };
+};
+
+export const withTeamColor = (colors: OwnerColors, teamId: number, color: string | undefined): OwnerColors => {
+  if (colors.teams.get(teamId) === color) return colors;
+  const teams = new Map(colors.teams);
+  if (color === undefined) teams.delete(teamId);
+  else teams.set(teamId, color);
+  return { ...colors, teams };
+};
+
+// Stable color for owners that aren't currently in the player_summary table
+const hashedOwnerColor = (ownerHex: string): string => {
+  let hash = 0;
+  for (let i = 0; i < ownerHex.length; i++) {
+    hash = (hash * 31 + ownerHex.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 60%, 45%)`;
+};
+
+export const getOwnerColor = (ownerHex: string, ownerTeam: number, colors: OwnerColors): string =>
+  colors.teams.get(ownerTeam) ?? colors.players.get(ownerHex) ?? hashedOwnerColor(ownerHex);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerSummary } from '../generated';
+import { USERNAME_MAX_LENGTH, parseUsernameError, validateUsername } from './username';
+
+const alice = new Identity(1n);
+const bob = new Identity(2n);
+
+// Only the fields the uniqueness check reads
+const summary = (identity: Identity, username: string): PlayerSummary => ({ identity, username }) as PlayerSummary;
+
+describe('validateUsername', () => {
+  it('accepts a trimmed name of letters, digits, _ and -', () => {
+    expect(validateUsername('  Player_1-a ', [], null)).toBeNull();
+  });
+
+  it('checks length, characters and reserved names', () => {
+    expect(validateUsername('ab', [], null)?.code).toBe('username_too_short');
+    expect(validateUsername('a'.repeat(USERNAME_MAX_LENGTH + 1), [], null)?.code).toBe('username_too_long');
+    expect(validateUsername('bad name', [], null)?.code).toBe('username_invalid_characters');
+    expect(validateUsername('Admin', [], null)?.code).toBe('username_reserved');
+  });
+
+  it("rejects another player's name regardless of case, but not our own", () => {
+    const players = [summary(alice, 'Alice')];
+
+    expect(validateUsername('alice', players, bob)?.code).toBe('username_taken');
+    expect(validateUsername('alice', players, alice)).toBeNull();
+  });
+});
+
+describe('parseUsernameError', () => {
+  it('splits a coded server error and ignores others', () => {
+    expect(parseUsernameError('username_taken: That name is already taken')).toEqual({
+      code: 'username_taken',
+      message: 'That name is already taken',
+    });
+    expect(parseUsernameError('This identity is banned')).toBeNull();
+  });
+});
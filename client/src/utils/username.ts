@@ -0,0 +1,73 @@
+/**
+ * username.ts
+ *
+ * Client mirror of the username rules in server/src/username_logic.rs. The
+ * server is authoritative; checking here just lets the join dialog explain a
+ * bad name before the round trip.
+ *
+ * Key components:
+ * - USERNAME_MIN_LENGTH / USERNAME_MAX_LENGTH / RESERVED_USERNAMES: Mirrored from common.rs
+ * - validateUsername: Same checks as the server, with uniqueness limited to active players
+ * - parseUsernameError: Turns a register_player error ("<code>: <message>") into a UsernameError
+ *
+ * Related files:
+ * - components/JoinGameDialog.tsx: Shows errors under the name field
+ * - App.tsx: Passes rejected registrations back to the dialog
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerSummary } from '../generated';
+
+// Match server/src/common.rs
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 16;
+export const RESERVED_USERNAMES: readonly string[] = [
+  'admin', 'administrator', 'moderator', 'server', 'system', 'spacetimedb', 'null', 'undefined',
+];
+
+export type UsernameErrorCode =
+  | 'username_too_short'
+  | 'username_too_long'
+  | 'username_invalid_characters'
+  | 'username_reserved'
+  | 'username_taken';
+
+export interface UsernameError {
+  code: UsernameErrorCode;
+  message: string;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+export const validateUsername = (
+  username: string,
+  players: Iterable<PlayerSummary>,
+  localIdentity: Identity | null,
+): UsernameError | null => {
+  const name = username.trim();
+  if (name.length < USERNAME_MIN_LENGTH) {
+    return { code: 'username_too_short', message: `Name must be at least ${USERNAME_MIN_LENGTH} characters` };
+  }
+  if (name.length > USERNAME_MAX_LENGTH) {
+    return { code: 'username_too_long', message: `Name must be at most ${USERNAME_MAX_LENGTH} characters` };
+  }
+  if (!USERNAME_PATTERN.test(name)) {
+    return { code: 'username_invalid_characters', message: "Name may only contain letters, digits, '_' and '-'" };
+  }
+  const lowercase = name.toLowerCase();
+  if (RESERVED_USERNAMES.includes(lowercase)) {
+    return { code: 'username_reserved', message: 'That name is reserved' };
+  }
+  for (const player of players) {
+    if (player.username.toLowerCase() === lowercase && !(localIdentity && player.identity.isEqual(localIdentity))) {
+      return { code: 'username_taken', message: 'That name is already taken' };
+    }
+  }
+  return null;
+};
+
+// Null for errors that aren't about the username (shown as-is by the caller)
+export const parseUsernameError = (error: string): UsernameError | null => {
+  const match = error.match(/^(username_[a-z_]+): (.*)$/);
+  return match ? { code: match[1] as UsernameErrorCode, message: match[2] } : null;
+};
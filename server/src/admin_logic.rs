@@ -0,0 +1,198 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - admin_logic.rs
+ *
+ * This file contains the admin role and the moderation reducers' logic.
+ *
+ * Key components:
+ *
+ * 1. Admins:
+ *    - seed_owner_admin: Called from init; the identity that published the
+ *      module (init's caller) becomes the first admin
+ *    - require_admin: Every moderation reducer checks the caller is in the admin table
+ *      (check_admin)
+ *    - More admins can be added with `spacetime sql`
+ *
+ * 2. Moderation:
+ *    - kick_player: Moves an active player to logged_out_player, as if they had
+ *      disconnected. They can register again
+ *    - ban_player: Records a ban and kicks the player if active; identity_connected
+ *      and register_player reject banned identities. Admins can't be banned (check_ban_target)
+ *    - player_to_log_out: Which player a kick or ban logs out; kicks need them online
+ *    - set_chat_muted: Mutes or unmutes a player's chat (chat_logic checks chat_mute);
+ *      repeating a call changes nothing (mute_changes)
+ *    - reset_grid: Clears every square, capture and territory count
+ *    - teleport_player: Moves an active player; clients snap instead of smoothing
+ *
+ * Related files:
+ *    - lib.rs: Admin, Ban and ChatMute tables and the admin reducers
+ *    - player_logic.rs: log_out_player, shared with identity_disconnected
+ *    - territory_logic.rs: reset_grid, shared with match_logic's round start
+ *    - chat_logic.rs: Rejects messages from muted players
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::Vector3;
+use crate::{Admin, Ban, ChatMute, PlayerData};
+use crate::{player_logic, territory_logic, interest_logic};
+// Import the table traits for ctx.db.admin(), ctx.db.ban(), ctx.db.chat_mute(), ctx.db.player()
+use crate::{admin, ban, chat_mute, player};
+
+pub fn seed_owner_admin(ctx: &ReducerContext) {
+    if ctx.db.admin().identity().find(ctx.sender).is_none() {
+        ctx.db.admin().insert(Admin { identity: ctx.sender, added_at: ctx.timestamp });
+        spacetimedb::log::info!("[INIT] Added module owner {} as admin.", ctx.sender);
+    }
+}
+
+pub fn is_admin(ctx: &ReducerContext, identity: Identity) -> bool {
+    ctx.db.admin().identity().find(identity).is_some()
+}
+
+pub fn is_banned(ctx: &ReducerContext, identity: Identity) -> bool {
+    ctx.db.ban().identity().find(identity).is_some()
+}
+
+fn require_admin(ctx: &ReducerContext) -> Result<(), String> {
+    check_admin(is_admin(ctx, ctx.sender))
+}
+
+fn check_admin(caller_is_admin: bool) -> Result<(), String> {
+    if caller_is_admin {
+        Ok(())
+    } else {
+        Err("Only admins can do that".to_string())
+    }
+}
+
+fn check_ban_target(target_is_admin: bool) -> Result<(), String> {
+    if target_is_admin {
+        Err("Admins can't be banned".to_string())
+    } else {
+        Ok(())
+    }
+}
+
+// A kick needs the target online; a ban logs them out only if they are
+fn player_to_log_out(active: Option<PlayerData>, must_be_online: bool) -> Result<Option<PlayerData>, String> {
+    match active {
+        Some(player) => Ok(Some(player)),
+        None if must_be_online => Err("That player is not online".to_string()),
+        None => Ok(None),
+    }
+}
+
+// Whether set_chat_muted has anything to do; muting a muted player (or unmuting
+// an unmuted one) leaves the original mute record alone
+fn mute_changes(muted: bool, already_muted: bool) -> bool {
+    muted != already_muted
+}
+
+pub fn kick_player(ctx: &ReducerContext, target: Identity) -> Result<(), String> {
+    require_admin(ctx)?;
+    if let Some(player) = player_to_log_out(ctx.db.player().identity().find(target), true)? {
+        spacetimedb::log::info!("Admin {} kicked {} ({}).", ctx.sender, player.username, target);
+        player_logic::log_out_player(ctx, player, ctx.timestamp);
+    }
+    Ok(())
+}
+
+pub fn ban_player(ctx: &ReducerContext, target: Identity, reason: String) -> Result<(), String> {
+    require_admin(ctx)?;
+    check_ban_target(is_admin(ctx, target))?;
+
+    let ban = Ban {
+        identity: target,
+        reason: reason.trim().to_string(),
+        banned_by: ctx.sender,
+        banned_at: ctx.timestamp,
+    };
+    if is_banned(ctx, target) {
+        ctx.db.ban().identity().update(ban);
+    } else {
+        ctx.db.ban().insert(ban);
+    }
+    spacetimedb::log::info!("Admin {} banned {}: {}", ctx.sender, target, reason.trim());
+
+    if let Some(player) = player_to_log_out(ctx.db.player().identity().find(target), false)? {
+        player_logic::log_out_player(ctx, player, ctx.timestamp);
+    }
+    Ok(())
+}
+
+pub fn set_chat_muted(ctx: &ReducerContext, target: Identity, muted: bool) -> Result<(), String> {
+    require_admin(ctx)?;
+    let already_muted = ctx.db.chat_mute().identity().find(target).is_some();
+    if !mute_changes(muted, already_muted) {
+        return Ok(());
+    }
+    if muted {
+        ctx.db.chat_mute().insert(ChatMute { identity: target, muted_by: ctx.sender, muted_at: ctx.timestamp });
+        spacetimedb::log::info!("Admin {} muted {}.", ctx.sender, target);
+    } else {
+        ctx.db.chat_mute().identity().delete(target);
+        spacetimedb::log::info!("Admin {} unmuted {}.", ctx.sender, target);
+    }
+    Ok(())
+}
+
+pub fn reset_grid(ctx: &ReducerContext) -> Result<(), String> {
+    require_admin(ctx)?;
+    territory_logic::reset_grid(ctx);
+    spacetimedb::log::info!("Admin {} reset the grid.", ctx.sender);
+    Ok(())
+}
+
+pub fn teleport_player(ctx: &ReducerContext, target: Identity, position: Vector3) -> Result<(), String> {
+    require_admin(ctx)?;
+    if !(position.x.is_finite() && position.y.is_finite() && position.z.is_finite()) {
+        return Err("Invalid position".to_string());
+    }
+    let mut player = ctx.db.player().identity().find(target)
+        .ok_or_else(|| "That player is not online".to_string())?;
+    spacetimedb::log::info!(
+        "Admin {} teleported {} to ({}, {}, {}).", ctx.sender, player.username, position.x, position.y, position.z
+    );
+    player.position = position;
+    interest_logic::update_cell(&mut player);
+    player.is_teleporting = true; // Clients snap instead of smoothing to the new position
+    ctx.db.player().identity().update(player);
+    Ok(())
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use crate::player_logic::tests::test_player;
+
+    #[test]
+    fn only_admins_pass_the_admin_check() {
+        assert!(check_admin(true).is_ok());
+        assert_eq!(check_admin(false), Err("Only admins can do that".to_string()));
+    }
+
+    #[test]
+    fn admins_cant_be_banned() {
+        assert_eq!(check_ban_target(true), Err("Admins can't be banned".to_string()));
+        assert!(check_ban_target(false).is_ok());
+    }
+
+    #[test]
+    fn kicks_and_bans_log_out_an_active_player() {
+        assert!(player_to_log_out(Some(test_player()), true).unwrap().is_some());
+        assert!(player_to_log_out(Some(test_player()), false).unwrap().is_some());
+    }
+
+    #[test]
+    fn only_kicks_need_the_player_online() {
+        assert_eq!(player_to_log_out(None, true).err(), Some("That player is not online".to_string()));
+        assert!(player_to_log_out(None, false).unwrap().is_none());
+    }
+
+    #[test]
+    fn muting_twice_changes_nothing() {
+        assert!(mute_changes(true, false));
+        assert!(!mute_changes(true, true));
+        assert!(mute_changes(false, true));
+        assert!(!mute_changes(false, false));
+    }
+}
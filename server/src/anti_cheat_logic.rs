@@ -0,0 +1,235 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - anti_cheat_logic.rs
+ *
+ * This file contains the server-side checks applied to client input batches.
+ * Movement is already integrated by the server, so these checks keep the
+ * client-supplied values (rotation, animation, sequence) sane and flag clients
+ * whose reported position moves faster than their class allows.
+ *
+ * Key components:
+ *
+ * 1. Input Validation:
+ *    - validate_input_batch: Called by update_player_inputs before the batch is applied
+ *    - Rotation: every component must be finite and within MAX_ROTATION_RADIANS;
+ *      otherwise the player keeps their current rotation
+ *    - Animation: must be one of CLIENT_ANIMATIONS; otherwise "idle" is used
+ *    - Sequence: inputs at or below the last processed sequence (stale or
+ *      replayed) are dropped
+ *    - Movement: the reported position may move at most the class's sprint speed
+ *      for the input ticks since the previous batch (with MOVEMENT_TOLERANCE and
+ *      MOVEMENT_SLACK). Position stays server-authoritative, so this is only recorded
+ *
+ * 2. Suspicious Activity:
+ *    - record_suspicious_activity: Logs a violation to the private suspicious_activity
+ *      table (the newest MAX_SUSPICIOUS_ACTIVITY_ROWS are kept) for admins to review,
+ *      e.g. `spacetime sql vibe-multiplayer "SELECT * FROM suspicious_activity"`
+ *    - Violations never fail the reducer: a failed reducer would roll back the record
+ *
+ * Related files:
+ *    - lib.rs: SuspiciousActivity and MovementCheck tables, update_player_inputs
+ *    - common.rs: CLIENT_ANIMATIONS, SUSPICIOUS_* kinds and movement tolerances
+ *    - player_logic.rs: queue_input_batch queues what passes validation for game_tick
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{
+    Vector3, InputState, PLAYER_SPEED, CLIENT_ANIMATIONS, CLIENT_INPUT_TICK_RATE, INPUT_JITTER_TICKS,
+    MOVEMENT_TOLERANCE, MOVEMENT_SLACK, MAX_ROTATION_RADIANS, MAX_SUSPICIOUS_ACTIVITY_ROWS,
+    SUSPICIOUS_ROTATION, SUSPICIOUS_ANIMATION, SUSPICIOUS_SEQUENCE, SUSPICIOUS_MOVEMENT,
+};
+use crate::{PlayerData, SuspiciousActivity, MovementCheck};
+use crate::class_logic;
+// Import the table traits for ctx.db.suspicious_activity() and ctx.db.movement_check()
+use crate::{suspicious_activity, movement_check};
+
+// Longest client string copied into a suspicious_activity detail
+const MAX_DETAIL_VALUE_LENGTH: usize = 32;
+
+// The parts of a batch that passed validation, ready for player_logic::queue_input_batch
+pub struct ValidatedInputs {
+    pub inputs: Vec<InputState>,
+    pub rotation: Vector3,
+    pub animation: String,
+}
+
+pub fn validate_input_batch(
+    ctx: &ReducerContext,
+    player: &PlayerData,
+    inputs: Vec<InputState>,
+    client_pos: Vector3,
+    client_rot: Vector3,
+    client_animation: String,
+) -> ValidatedInputs {
+    let rotation = if is_valid_rotation(&client_rot) {
+        client_rot
+    } else {
+        record_suspicious_activity(ctx, player.identity, SUSPICIOUS_ROTATION, format!(
+            "Rotation ({}, {}, {}) out of range", client_rot.x, client_rot.y, client_rot.z
+        ));
+        player.rotation.clone()
+    };
+
+    let animation = if CLIENT_ANIMATIONS.contains(&client_animation.as_str()) {
+        client_animation
+    } else {
+        let shown: String = client_animation.chars().take(MAX_DETAIL_VALUE_LENGTH).collect();
+        record_suspicious_activity(ctx, player.identity, SUSPICIOUS_ANIMATION, format!("Unknown animation '{}'", shown));
+        "idle".to_string()
+    };
+
+    let (accepted, rejected) = accept_new_sequences(inputs, player.last_input_seq);
+    if rejected > 0 {
+        record_suspicious_activity(ctx, player.identity, SUSPICIOUS_SEQUENCE, format!(
+            "{} input(s) at or below sequence {}", rejected, player.last_input_seq
+        ));
+    }
+
+    // client_pos was sampled with the newest input
+    if let Some(newest) = accepted.last() {
+        check_movement(ctx, player, newest.sequence, client_pos);
+    }
+
+    ValidatedInputs { inputs: accepted, rotation, animation }
+}
+
+// Sequences must keep increasing; anything else has already been processed.
+// Returns the accepted inputs and how many were dropped.
+fn accept_new_sequences(inputs: Vec<InputState>, last_sequence: u32) -> (Vec<InputState>, u32) {
+    let mut newest_sequence = last_sequence;
+    let mut rejected = 0;
+    let accepted: Vec<InputState> = inputs.into_iter().filter(|input| {
+        if input.sequence > newest_sequence {
+            newest_sequence = input.sequence;
+            true
+        } else {
+            rejected += 1;
+            false
+        }
+    }).collect();
+    (accepted, rejected)
+}
+
+// Euler angles in radians; the client wraps yaw to [-PI, PI]
+fn is_valid_rotation(rotation: &Vector3) -> bool {
+    [rotation.x, rotation.y, rotation.z].iter()
+        .all(|angle| angle.is_finite() && angle.abs() <= MAX_ROTATION_RADIANS)
+}
+
+fn horizontal_distance(a: &Vector3, b: &Vector3) -> f32 {
+    ((a.x - b.x).powi(2) + (a.z - b.z).powi(2)).sqrt()
+}
+
+// Input ticks between two batches, capped by the real time between them
+fn allowed_move_ticks(sequence_ticks: f32, elapsed_seconds: f32) -> f32 {
+    sequence_ticks.min(elapsed_seconds * CLIENT_INPUT_TICK_RATE + INPUT_JITTER_TICKS)
+}
+
+fn max_move_distance(max_speed: f32, ticks: f32) -> f32 {
+    max_speed * (ticks / CLIENT_INPUT_TICK_RATE) * MOVEMENT_TOLERANCE + MOVEMENT_SLACK
+}
+
+// Compares the reported position with the one reported with the previous batch.
+// The time allowed is the input ticks between the two sequences, capped by the
+// real time between the batches (plus INPUT_JITTER_TICKS) so a client can't buy
+// distance by skipping sequence numbers.
+fn check_movement(ctx: &ReducerContext, player: &PlayerData, sequence: u32, client_pos: Vector3) {
+    let previous = ctx.db.movement_check().identity().find(player.identity);
+
+    // Dead or just-teleported players move without input; start over from here
+    if let Some(previous) = previous.as_ref().filter(|_| !player.is_dead && !player.is_teleporting) {
+        let class = class_logic::class_or_default(ctx, &player.character_class);
+        let max_speed = PLAYER_SPEED * class.speed_multiplier * class.sprint_multiplier.max(1.0);
+
+        let elapsed_seconds = (ctx.timestamp.to_micros_since_unix_epoch()
+            - previous.checked_at.to_micros_since_unix_epoch()).max(0) as f32 / 1_000_000.0;
+        let sequence_ticks = sequence.saturating_sub(previous.sequence) as f32;
+        let ticks = allowed_move_ticks(sequence_ticks, elapsed_seconds);
+        let max_distance = max_move_distance(max_speed, ticks);
+
+        let moved = horizontal_distance(&previous.position, &client_pos);
+        // Snapping back onto the server's position (reconciliation, respawn) is always allowed
+        let off_server = horizontal_distance(&player.position, &client_pos);
+        if moved > max_distance && off_server > max_distance {
+            record_suspicious_activity(ctx, player.identity, SUSPICIOUS_MOVEMENT, format!(
+                "Moved {:.2} units in {:.0} ticks (max {:.2})", moved, ticks, max_distance
+            ));
+        }
+    }
+
+    let check = MovementCheck {
+        identity: player.identity,
+        position: client_pos,
+        sequence,
+        checked_at: ctx.timestamp,
+    };
+    if previous.is_some() {
+        ctx.db.movement_check().identity().update(check);
+    } else {
+        ctx.db.movement_check().insert(check);
+    }
+}
+
+pub fn record_suspicious_activity(ctx: &ReducerContext, identity: Identity, kind: &str, detail: String) {
+    spacetimedb::log::warn!("Suspicious activity from {} ({}): {}", identity, kind, detail);
+    ctx.db.suspicious_activity().insert(SuspiciousActivity {
+        id: 0,
+        identity,
+        kind: kind.to_string(),
+        detail,
+        recorded_at: ctx.timestamp,
+    });
+    prune_suspicious_activity(ctx);
+}
+
+// Keep only the newest MAX_SUSPICIOUS_ACTIVITY_ROWS records
+fn prune_suspicious_activity(ctx: &ReducerContext) {
+    let mut ids: Vec<u64> = ctx.db.suspicious_activity().iter().map(|record| record.id).collect();
+    if ids.len() <= MAX_SUSPICIOUS_ACTIVITY_ROWS {
+        return;
+    }
+    ids.sort_unstable();
+    let excess = ids.len() - MAX_SUSPICIOUS_ACTIVITY_ROWS;
+    for id in ids.into_iter().take(excess) {
+        ctx.db.suspicious_activity().id().delete(id);
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn input(sequence: u32) -> InputState {
+        InputState { sequence, ..Default::default() }
+    }
+
+    #[test]
+    fn rotation_must_be_finite_and_in_range() {
+        assert!(is_valid_rotation(&Vector3 { x: 0.0, y: -std::f32::consts::PI, z: 0.0 }));
+        assert!(!is_valid_rotation(&Vector3 { x: 0.0, y: MAX_ROTATION_RADIANS + 0.1, z: 0.0 }));
+        assert!(!is_valid_rotation(&Vector3 { x: f32::NAN, y: 0.0, z: 0.0 }));
+        assert!(!is_valid_rotation(&Vector3 { x: 0.0, y: 0.0, z: f32::INFINITY }));
+    }
+
+    #[test]
+    fn stale_and_replayed_sequences_are_dropped() {
+        let inputs = vec![input(4), input(5), input(6), input(6), input(8), input(7)];
+        let (accepted, rejected) = accept_new_sequences(inputs, 5);
+        let sequences: Vec<u32> = accepted.iter().map(|input| input.sequence).collect();
+        assert_eq!(sequences, vec![6, 8]);
+        assert_eq!(rejected, 4);
+    }
+
+    #[test]
+    fn skipped_sequences_dont_buy_distance() {
+        // 300 sequence numbers in one second only count as a second of input (plus jitter)
+        assert_eq!(allowed_move_ticks(300.0, 1.0), CLIENT_INPUT_TICK_RATE + INPUT_JITTER_TICKS);
+        assert_eq!(allowed_move_ticks(10.0, 1.0), 10.0);
+    }
+
+    #[test]
+    fn distance_allowance_scales_with_ticks() {
+        assert_eq!(max_move_distance(PLAYER_SPEED, 0.0), MOVEMENT_SLACK);
+        let one_second = max_move_distance(PLAYER_SPEED, CLIENT_INPUT_TICK_RATE);
+        assert!((one_second - (PLAYER_SPEED * MOVEMENT_TOLERANCE + MOVEMENT_SLACK)).abs() < 1e-4);
+    }
+}
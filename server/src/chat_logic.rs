@@ -0,0 +1,235 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - chat_logic.rs
+ *
+ * This file contains the rules for the send_chat_message reducer.
+ *
+ * Key components:
+ *
+ * 1. Validation:
+ *    - send_chat_message: Checks the sender is an active player who isn't muted
+ *      (chat_mute, set by admins), the channel (global, team or whisper to
+ *      another active player) and the length limit
+ *    - check_rate_limit: At most chat_rate_limit_messages per
+ *      chat_rate_limit_window_seconds per identity (chat_rate_limit table)
+ *
+ * 2. Filtering:
+ *    - filter_words: Masks whole words listed in the chat_filter_word table
+ *      (case-insensitive), e.g. "Shit!" -> "****!"
+ *
+ * 3. Delivery:
+ *    - Global messages go to the public chat_message table
+ *    - Team and whisper messages are copied into private_chat_message, one row
+ *      per reader (the team's active players, or both ends of a whisper). Its
+ *      visibility filter (lib.rs) only sends clients the rows they are the reader of.
+ *
+ * 4. History:
+ *    - Only the newest chat_history_size global messages, and the newest
+ *      chat_history_size private messages per reader, are kept, so joining
+ *      clients receive a bounded history with their subscription
+ *
+ * Related files:
+ *    - lib.rs: ChatMessage/PrivateChatMessage/ChatRateLimit/ChatFilterWord/ChatMute tables and the reducer
+ *    - common.rs: Channel names and limit defaults
+ *    - client/src/components/ChatBox.tsx: Chat UI
+ */
+
+use std::collections::HashSet;
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{
+    CHAT_GLOBAL, CHAT_TEAM, CHAT_WHISPER, NO_TEAM, DEFAULT_CHAT_MAX_LENGTH, DEFAULT_CHAT_HISTORY_SIZE,
+    DEFAULT_CHAT_RATE_LIMIT_MESSAGES, DEFAULT_CHAT_RATE_LIMIT_WINDOW_SECONDS,
+};
+use crate::{ChatMessage, PrivateChatMessage, ChatRateLimit};
+// Import the table traits for ctx.db.chat_message(), ctx.db.chat_rate_limit(), ...
+use crate::{player, chat_message, private_chat_message, chat_rate_limit, chat_filter_word, chat_mute, server_config};
+
+struct ChatSettings {
+    max_length: u32,
+    history_size: u32,
+    rate_limit_messages: u32,
+    rate_limit_window_seconds: u32,
+}
+
+fn chat_settings(ctx: &ReducerContext) -> ChatSettings {
+    match ctx.db.server_config().id().find(0) {
+        Some(config) => ChatSettings {
+            max_length: config.chat_max_length,
+            history_size: config.chat_history_size,
+            rate_limit_messages: config.chat_rate_limit_messages,
+            rate_limit_window_seconds: config.chat_rate_limit_window_seconds,
+        },
+        None => ChatSettings {
+            max_length: DEFAULT_CHAT_MAX_LENGTH,
+            history_size: DEFAULT_CHAT_HISTORY_SIZE,
+            rate_limit_messages: DEFAULT_CHAT_RATE_LIMIT_MESSAGES,
+            rate_limit_window_seconds: DEFAULT_CHAT_RATE_LIMIT_WINDOW_SECONDS,
+        },
+    }
+}
+
+pub fn send_chat_message(ctx: &ReducerContext, channel: String, text: String, recipient: Option<Identity>) -> Result<(), String> {
+    let sender = ctx.db.player().identity().find(ctx.sender)
+        .ok_or_else(|| "Join the game before chatting".to_string())?;
+    if ctx.db.chat_mute().identity().find(ctx.sender).is_some() {
+        return Err("You have been muted by an admin".to_string());
+    }
+    let settings = chat_settings(ctx);
+
+    let text = text.trim();
+    if text.is_empty() {
+        return Err("Message is empty".to_string());
+    }
+    let length = text.chars().count() as u32;
+    if length > settings.max_length {
+        return Err(format!("Message is too long ({} > {} characters)", length, settings.max_length));
+    }
+
+    // Who can read the message (None: everyone)
+    let (team_id, recipient, readers) = match channel.as_str() {
+        CHAT_GLOBAL => (NO_TEAM, None, None),
+        CHAT_TEAM => {
+            if sender.team_id == NO_TEAM {
+                return Err("You are not on a team".to_string());
+            }
+            let team: Vec<Identity> = ctx.db.player().iter()
+                .filter(|player| player.team_id == sender.team_id)
+                .map(|player| player.identity)
+                .collect();
+            (sender.team_id, None, Some(team))
+        }
+        CHAT_WHISPER => {
+            let recipient = recipient.ok_or_else(|| "Whisper needs a recipient".to_string())?;
+            if recipient == ctx.sender {
+                return Err("Cannot whisper to yourself".to_string());
+            }
+            if ctx.db.player().identity().find(recipient).is_none() {
+                return Err("That player is not online".to_string());
+            }
+            (NO_TEAM, Some(recipient), Some(vec![ctx.sender, recipient]))
+        }
+        other => return Err(format!("Unknown chat channel '{}'", other)),
+    };
+
+    check_rate_limit(ctx, &settings)?;
+
+    let text = filter_words(ctx, text);
+    match readers {
+        None => {
+            ctx.db.chat_message().insert(ChatMessage {
+                id: 0,
+                sender: ctx.sender,
+                sender_name: sender.username.clone(),
+                channel,
+                team_id,
+                recipient,
+                text,
+                sent_at: ctx.timestamp,
+            });
+            prune_history(ctx, settings.history_size);
+        }
+        Some(readers) => {
+            for reader in readers {
+                ctx.db.private_chat_message().insert(PrivateChatMessage {
+                    id: 0,
+                    reader,
+                    sender: ctx.sender,
+                    sender_name: sender.username.clone(),
+                    channel: channel.clone(),
+                    team_id,
+                    recipient,
+                    text: text.clone(),
+                    sent_at: ctx.timestamp,
+                });
+                prune_private_history(ctx, reader, settings.history_size);
+            }
+        }
+    }
+    Ok(())
+}
+
+// Fixed-window limit per identity; the window restarts with the first message after it ends
+fn check_rate_limit(ctx: &ReducerContext, settings: &ChatSettings) -> Result<(), String> {
+    let now_micros = ctx.timestamp.to_micros_since_unix_epoch();
+    let window_micros = settings.rate_limit_window_seconds as i64 * 1_000_000;
+
+    let mut limit = ctx.db.chat_rate_limit().identity().find(ctx.sender).unwrap_or(ChatRateLimit {
+        identity: ctx.sender,
+        window_started_at: ctx.timestamp,
+        count: 0,
+    });
+    let window_elapsed = now_micros - limit.window_started_at.to_micros_since_unix_epoch();
+    if window_elapsed >= window_micros {
+        limit.window_started_at = ctx.timestamp;
+        limit.count = 0;
+    }
+    if limit.count >= settings.rate_limit_messages {
+        let wait_seconds = ((window_micros - window_elapsed) as f64 / 1_000_000.0).ceil() as i64;
+        return Err(format!("You're sending messages too fast, wait {} s", wait_seconds.max(1)));
+    }
+    limit.count += 1;
+
+    if ctx.db.chat_rate_limit().identity().find(ctx.sender).is_some() {
+        ctx.db.chat_rate_limit().identity().update(limit);
+    } else {
+        ctx.db.chat_rate_limit().insert(limit);
+    }
+    Ok(())
+}
+
+// Mask filtered words, keeping punctuation and spacing intact
+fn filter_words(ctx: &ReducerContext, text: &str) -> String {
+    let blocked: HashSet<String> = ctx.db.chat_filter_word().iter().map(|entry| entry.word.to_lowercase()).collect();
+    if blocked.is_empty() {
+        return text.to_string();
+    }
+
+    let mut filtered = String::with_capacity(text.len());
+    let mut word = String::new();
+    let flush = |word: &mut String, filtered: &mut String| {
+        if blocked.contains(&word.to_lowercase()) {
+            filtered.extend(std::iter::repeat('*').take(word.chars().count()));
+        } else {
+            filtered.push_str(word);
+        }
+        word.clear();
+    };
+    for c in text.chars() {
+        if c.is_alphanumeric() {
+            word.push(c);
+        } else {
+            flush(&mut word, &mut filtered);
+            filtered.push(c);
+        }
+    }
+    flush(&mut word, &mut filtered);
+    filtered
+}
+
+// Keep only the newest `history_size` global messages
+fn prune_history(ctx: &ReducerContext, history_size: u32) {
+    let mut ids: Vec<u64> = ctx.db.chat_message().iter().map(|message| message.id).collect();
+    if ids.len() <= history_size as usize {
+        return;
+    }
+    ids.sort_unstable();
+    let excess = ids.len() - history_size as usize;
+    for id in ids.into_iter().take(excess) {
+        ctx.db.chat_message().id().delete(id);
+    }
+}
+
+// Keep only the newest `history_size` private messages of one reader
+fn prune_private_history(ctx: &ReducerContext, reader: Identity, history_size: u32) {
+    let mut ids: Vec<u64> = ctx.db.private_chat_message().iter()
+        .filter(|message| message.reader == reader)
+        .map(|message| message.id)
+        .collect();
+    if ids.len() <= history_size as usize {
+        return;
+    }
+    ids.sort_unstable();
+    let excess = ids.len() - history_size as usize;
+    for id in ids.into_iter().take(excess) {
+        ctx.db.private_chat_message().id().delete(id);
+    }
+}
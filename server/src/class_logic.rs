@@ -0,0 +1,65 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - class_logic.rs
+ *
+ * This file contains the character class registry backed by the
+ * character_class table.
+ *
+ * Key components:
+ *
+ * 1. Seeding:
+ *    - seed_character_classes: Inserts DEFAULT_CHARACTER_CLASSES when the table is empty
+ *
+ * 2. Lookup:
+ *    - find_class: The row for a class name, used by register_player to reject unknown classes
+ *    - class_or_default: Stats for a player's class; players whose class row was
+ *      removed fall back to the first default class (fallback_class)
+ *
+ * Related files:
+ *    - lib.rs: CharacterClass table, init and register_player
+ *    - common.rs: AbilityStats and the default classes
+ *    - combat_logic.rs / player_logic.rs: Read ability, regeneration and speed stats
+ *    - client/src/utils/characterClasses.ts: Model and animation manifest per class
+ */
+
+use spacetimedb::{ReducerContext, Table};
+use crate::common::{ClassDefaults, DEFAULT_CHARACTER_CLASSES};
+use crate::CharacterClass;
+// Import the table trait for ctx.db.character_class()
+use crate::character_class;
+
+fn from_defaults(defaults: &ClassDefaults) -> CharacterClass {
+    CharacterClass {
+        name: defaults.name.to_string(),
+        max_health: defaults.max_health,
+        max_mana: defaults.max_mana,
+        health_regen_per_second: defaults.health_regen_per_second,
+        mana_regen_per_second: defaults.mana_regen_per_second,
+        speed_multiplier: defaults.speed_multiplier,
+        sprint_multiplier: defaults.sprint_multiplier,
+        attack: defaults.attack.clone(),
+        spell: defaults.spell.clone(),
+    }
+}
+
+pub fn seed_character_classes(ctx: &ReducerContext) {
+    if ctx.db.character_class().count() > 0 {
+        return;
+    }
+    for defaults in DEFAULT_CHARACTER_CLASSES.iter() {
+        ctx.db.character_class().insert(from_defaults(defaults));
+    }
+    spacetimedb::log::info!("[INIT] Seeded {} character classes.", DEFAULT_CHARACTER_CLASSES.len());
+}
+
+pub fn find_class(ctx: &ReducerContext, name: &str) -> Option<CharacterClass> {
+    ctx.db.character_class().name().find(&name.to_string())
+}
+
+pub fn class_or_default(ctx: &ReducerContext, name: &str) -> CharacterClass {
+    find_class(ctx, name).unwrap_or_else(fallback_class)
+}
+
+// The first default class, for players whose class row is gone
+pub fn fallback_class() -> CharacterClass {
+    from_defaults(&DEFAULT_CHARACTER_CLASSES[0])
+}
@@ -0,0 +1,206 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - combat_logic.rs
+ *
+ * This file contains the server-authoritative combat rules used by the
+ * attack and cast_spell reducers.
+ *
+ * Key components:
+ *
+ * 1. Class Stats:
+ *    - action_stats: Damage, range, mana cost and cooldown of the attacker's class
+ *      ability, from the character_class table (clients read ranges from the same rows)
+ *
+ * 2. Action Resolution:
+ *    - perform_combat_action: Validates the round state, attacker/target state, friendly
+ *      fire, range, cooldown and mana, then applies damage (killing the target at 0 HP,
+ *      which counts towards kills/deaths) and logs a CombatEvent
+ *    - Cooldowns and the last time a player was damaged are tracked per player
+ *      in the private combat_state table (see load_combat_state/save_combat_state)
+ *
+ * 3. Event Log:
+ *    - prune_combat_events: Called from game_tick to keep combat_event small;
+ *      clients only need recent events to drive hit feedback
+ *
+ * Extension points:
+ *    - Add new classes as character_class rows; new actions in action_stats
+ *    - Add line-of-sight or facing checks in perform_combat_action
+ *
+ * Related files:
+ *    - lib.rs: CombatEvent/CombatState tables and the attack/cast_spell reducers
+ *    - common.rs: Shared constants
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::COMBAT_EVENT_RETENTION_SECONDS;
+use crate::{player_logic, team_logic, match_logic, profile_logic, class_logic};
+use crate::{CombatEvent, CombatState};
+// Import the table traits for ctx.db.player(), ctx.db.combat_event(), ctx.db.combat_state()
+use crate::{player, combat_event, combat_state};
+
+#[derive(Clone, Copy, Debug, PartialEq)]
+pub enum CombatAction {
+    Attack,
+    Spell,
+}
+
+impl CombatAction {
+    // Stored in CombatEvent.kind
+    pub fn kind(&self) -> &'static str {
+        match self {
+            CombatAction::Attack => "attack",
+            CombatAction::Spell => "spell",
+        }
+    }
+}
+
+pub struct CombatActionStats {
+    pub damage: i32,
+    pub range: f32,
+    pub mana_cost: i32,
+    pub cooldown_ms: i64,
+}
+
+// Per-class tuning from the character_class table (see class_logic::class_or_default)
+pub fn action_stats(ctx: &ReducerContext, character_class: &str, action: CombatAction) -> CombatActionStats {
+    let class = class_logic::class_or_default(ctx, character_class);
+    let ability = match action {
+        CombatAction::Attack => class.attack,
+        CombatAction::Spell => class.spell,
+    };
+    CombatActionStats {
+        damage: ability.damage,
+        range: ability.range,
+        mana_cost: ability.mana_cost,
+        cooldown_ms: ability.cooldown_ms as i64,
+    }
+}
+
+pub fn perform_combat_action(ctx: &ReducerContext, target_identity: Identity, action: CombatAction) -> Result<(), String> {
+    let mut attacker = ctx.db.player().identity().find(ctx.sender)
+        .ok_or_else(|| "Player is not active".to_string())?;
+    if !match_logic::is_round_in_progress(ctx) {
+        return Err("No round in progress".to_string());
+    }
+    if target_identity == ctx.sender {
+        return Err("Cannot target yourself".to_string());
+    }
+    if attacker.is_dead {
+        return Err("Dead players cannot fight".to_string());
+    }
+    let mut target = ctx.db.player().identity().find(target_identity)
+        .ok_or_else(|| "Target is not active".to_string())?;
+    if target.is_dead {
+        return Err("Target is already dead".to_string());
+    }
+    if team_logic::are_teammates(&attacker, &target) && !team_logic::friendly_fire_enabled(ctx) {
+        return Err("Friendly fire is disabled".to_string());
+    }
+
+    let stats = action_stats(ctx, &attacker.character_class, action);
+
+    // Range check on the ground plane against the server's authoritative positions
+    let dx = target.position.x - attacker.position.x;
+    let dz = target.position.z - attacker.position.z;
+    let distance = (dx * dx + dz * dz).sqrt();
+    if distance > stats.range {
+        return Err(format!("Target out of range ({:.1} > {:.1})", distance, stats.range));
+    }
+
+    let now_micros = ctx.timestamp.to_micros_since_unix_epoch();
+    let mut state = load_combat_state(ctx, ctx.sender);
+    let last_used = match action {
+        CombatAction::Attack => &state.last_attack_at,
+        CombatAction::Spell => &state.last_spell_at,
+    };
+    if let Some(last_used) = last_used {
+        let elapsed_ms = (now_micros - last_used.to_micros_since_unix_epoch()) / 1000;
+        if elapsed_ms < stats.cooldown_ms {
+            return Err(format!("{} on cooldown ({} ms left)", action.kind(), stats.cooldown_ms - elapsed_ms));
+        }
+    }
+
+    if attacker.mana < stats.mana_cost {
+        return Err(format!("Not enough mana ({} < {})", attacker.mana, stats.mana_cost));
+    }
+
+    // --- All checks passed: apply the action ---
+    let mut attacker_changed = false;
+    if stats.mana_cost > 0 {
+        attacker.mana -= stats.mana_cost;
+        attacker_changed = true;
+    }
+
+    target.health = (target.health - stats.damage).max(0);
+    let target_health = target.health;
+    if target_health == 0 {
+        player_logic::kill_player(&mut target, ctx.timestamp, crate::current_respawn_delay_ms(ctx));
+        attacker.kills += 1;
+        attacker_changed = true;
+        profile_logic::record_kill(ctx, ctx.sender, target_identity);
+        spacetimedb::log::info!("Player {} was killed by {}", target_identity, ctx.sender);
+    }
+    ctx.db.player().identity().update(target);
+    if attacker_changed {
+        ctx.db.player().identity().update(attacker);
+    }
+
+    match action {
+        CombatAction::Attack => state.last_attack_at = Some(ctx.timestamp),
+        CombatAction::Spell => state.last_spell_at = Some(ctx.timestamp),
+    }
+    save_combat_state(ctx, state);
+
+    // Taking damage resets the target's out-of-combat regeneration timer
+    let mut target_state = load_combat_state(ctx, target_identity);
+    target_state.last_damaged_at = Some(ctx.timestamp);
+    target_state.health_regen_progress = 0.0;
+    save_combat_state(ctx, target_state);
+
+    ctx.db.combat_event().insert(CombatEvent {
+        id: 0,
+        attacker: ctx.sender,
+        target: target_identity,
+        kind: action.kind().to_string(),
+        damage: stats.damage,
+        target_health,
+        timestamp: ctx.timestamp,
+    });
+
+    spacetimedb::log::info!(
+        "{} hit {} with {} for {} damage ({} HP left)",
+        ctx.sender, target_identity, action.kind(), stats.damage, target_health
+    );
+    Ok(())
+}
+
+// Fetch a player's combat bookkeeping, or a fresh row if they have none yet
+pub fn load_combat_state(ctx: &ReducerContext, identity: Identity) -> CombatState {
+    ctx.db.combat_state().identity().find(identity).unwrap_or(CombatState {
+        identity,
+        last_attack_at: None,
+        last_spell_at: None,
+        last_damaged_at: None,
+        health_regen_progress: 0.0,
+        mana_regen_progress: 0.0,
+    })
+}
+
+pub fn save_combat_state(ctx: &ReducerContext, state: CombatState) {
+    if ctx.db.combat_state().identity().find(state.identity).is_some() {
+        ctx.db.combat_state().identity().update(state);
+    } else {
+        ctx.db.combat_state().insert(state);
+    }
+}
+
+// Delete combat events older than the retention window (called from game_tick)
+pub fn prune_combat_events(ctx: &ReducerContext) {
+    let cutoff_micros = ctx.timestamp.to_micros_since_unix_epoch() - COMBAT_EVENT_RETENTION_SECONDS * 1_000_000;
+    let expired: Vec<u64> = ctx.db.combat_event().iter()
+        .filter(|event| event.timestamp.to_micros_since_unix_epoch() < cutoff_micros)
+        .map(|event| event.id)
+        .collect();
+    for id in expired {
+        ctx.db.combat_event().id().delete(id);
+    }
+}
@@ -6,7 +6,11 @@
  * Key components:
  * - Vector3: 3D vector struct for positions, rotations and movement
  * - InputState: Player input tracking with all possible input actions
- * - Game constants: Speed values that affect player movement
+ * - AbilityStats: Damage, range, mana cost and cooldown of a class's attack or spell
+ * - Game constants: Base movement speed, the default character classes, tick timing defaults,
+ *   combat log retention, regeneration delay, respawn timing, the default spawn layout,
+ *   the ground grid layout used for territory capture, team defaults, match rules,
+ *   leaderboard scoring, chat limits, emotes and username rules
  * 
  * These structures are used by:
  * - lib.rs: For database table definitions
@@ -15,7 +19,8 @@
  * When modifying:
  * - Changes to Vector3 or InputState will affect database schema
  * - You may need to run 'spacetime delete <db_name>' after schema changes
- * - Adjust PLAYER_SPEED and SPRINT_MULTIPLIER to change movement feel
+ * - Adjust PLAYER_SPEED to change movement feel (keep Player.tsx in sync); per-class
+ *   multipliers live in the character_class table
  * - Adding new input types requires updates to InputState and UI event handlers
  */
 
@@ -31,8 +36,8 @@ pub struct Vector3 {
     pub z: f32,
 }
 
-// Helper struct for player input state
-#[derive(SpacetimeType, Clone, Debug)]
+// Helper struct for player input state (Default = nothing pressed)
+#[derive(SpacetimeType, Clone, Debug, Default)]
 pub struct InputState {
     pub forward: bool,
     pub backward: bool,
@@ -45,7 +50,230 @@ pub struct InputState {
     pub sequence: u32,
 }
 
+// Tuning for one class ability (attack or spell), stored on character_class
+#[derive(SpacetimeType, Clone, Debug, PartialEq)]
+pub struct AbilityStats {
+    pub damage: i32,
+    pub range: f32, // Ground-plane distance to the target
+    pub mana_cost: i32,
+    pub cooldown_ms: u32,
+}
+
 // --- Game Constants ---
 
+// Base movement speed in units per second, scaled by the class's speed_multiplier
+// (and sprint_multiplier while sprinting). Mirrored in client/src/components/Player.tsx
+// for client-side prediction - change both together.
 pub const PLAYER_SPEED: f32 = 7.5;
-pub const SPRINT_MULTIPLIER: f32 = 1.8;
+
+// Classes seeded into character_class by init when it's empty. Edit the table (or this
+// list before the first publish) to rebalance; a new class also needs an entry in
+// client/src/utils/characterClasses.ts for its model and animations.
+pub struct ClassDefaults {
+    pub name: &'static str,
+    pub max_health: i32,
+    pub max_mana: i32,
+    pub health_regen_per_second: f32,
+    pub mana_regen_per_second: f32,
+    pub speed_multiplier: f32,
+    pub sprint_multiplier: f32,
+    pub attack: AbilityStats,
+    pub spell: AbilityStats,
+}
+
+pub const DEFAULT_CHARACTER_CLASSES: [ClassDefaults; 2] = [
+    ClassDefaults {
+        name: "Wizard",
+        max_health: 100,
+        max_mana: 100,
+        health_regen_per_second: 2.0,
+        mana_regen_per_second: 6.0,
+        speed_multiplier: 1.0,
+        sprint_multiplier: 1.8,
+        attack: AbilityStats { damage: 8, range: 6.0, mana_cost: 0, cooldown_ms: 800 },
+        spell: AbilityStats { damage: 25, range: 15.0, mana_cost: 20, cooldown_ms: 1500 },
+    },
+    ClassDefaults {
+        name: "Paladin",
+        max_health: 100,
+        max_mana: 100,
+        health_regen_per_second: 4.0,
+        mana_regen_per_second: 3.0,
+        speed_multiplier: 1.0,
+        sprint_multiplier: 1.8,
+        attack: AbilityStats { damage: 15, range: 2.5, mana_cost: 0, cooldown_ms: 1000 },
+        spell: AbilityStats { damage: 15, range: 8.0, mana_cost: 15, cooldown_ms: 2000 },
+    },
+];
+
+// Server simulation tick. The live value comes from the server_config row;
+// this is only the default inserted by init.
+pub const DEFAULT_TICK_INTERVAL_MS: u64 = 50; // 20 Hz
+pub const MIN_TICK_INTERVAL_MS: u64 = 16; // ~60 Hz upper bound
+pub const MAX_TICK_INTERVAL_MS: u64 = 1000; // 1 Hz lower bound
+// Cap on the delta handed to simulation so a stalled tick doesn't teleport players
+pub const MAX_TICK_DELTA_SECONDS: f64 = 0.25;
+
+// Most input samples accepted in one update_player_inputs call
+// (clients send INPUT_BATCH_TICKS samples per call, see client/src/utils/inputBatcher.ts)
+pub const MAX_INPUT_BATCH_SIZE: usize = 16;
+// Most input samples queued on a player between game ticks (player.pending_inputs)
+pub const MAX_PENDING_INPUTS: usize = 2 * MAX_INPUT_BATCH_SIZE;
+
+// Input validation (see anti_cheat_logic.rs)
+// Animations clients may report; damage and death are only set by the server
+pub const CLIENT_ANIMATIONS: [&str; 12] = [
+    "idle",
+    "walk-forward", "walk-back", "walk-left", "walk-right",
+    "run-forward", "run-back", "run-left", "run-right",
+    "jump", "attack1", "cast",
+];
+// Rotation components are Euler angles; yaw is wrapped to [-PI, PI] by the client
+pub const MAX_ROTATION_RADIANS: f32 = std::f32::consts::PI + 0.01;
+// Client input ticks per second (INPUT_TICK_RATE in client/src/utils/inputBatcher.ts)
+pub const CLIENT_INPUT_TICK_RATE: f32 = 30.0;
+// Ticks of network jitter allowed on top of the real time between two batches
+pub const INPUT_JITTER_TICKS: f32 = 15.0;
+// The fastest legal distance is scaled by MOVEMENT_TOLERANCE, then MOVEMENT_SLACK units are added
+pub const MOVEMENT_TOLERANCE: f32 = 1.25;
+pub const MOVEMENT_SLACK: f32 = 1.0;
+// Values of suspicious_activity.kind
+pub const SUSPICIOUS_ROTATION: &str = "invalid_rotation";
+pub const SUSPICIOUS_ANIMATION: &str = "unknown_animation";
+pub const SUSPICIOUS_SEQUENCE: &str = "stale_sequence";
+pub const SUSPICIOUS_MOVEMENT: &str = "speed";
+// Older suspicious_activity rows are deleted
+pub const MAX_SUSPICIOUS_ACTIVITY_ROWS: usize = 1000;
+
+// Rate limits seeded into rate_limit_budget by init: (reducer, capacity, refill per second).
+// Capacity is the burst allowed; the refill rate is the sustained calls per second.
+pub const DEFAULT_RATE_LIMITS: [(&str, f32, f32); 8] = [
+    ("register_player", 5.0, 0.2),
+    ("update_player_inputs", 20.0, 12.0), // Clients send at most 10 batches a second
+    ("attack", 10.0, 4.0),
+    ("cast_spell", 10.0, 4.0),
+    ("report_ping", 5.0, 1.0), // Clients report every 2 s
+    ("send_chat_message", 10.0, 2.0), // chat_logic also applies the chat_rate_limit window
+    ("play_emote", 5.0, 1.0),
+    ("toggle_grid_square", 10.0, 5.0),
+];
+// Buckets back at capacity are deleted every N game ticks (every 10 s at the default 20 Hz)
+pub const RATE_LIMIT_PRUNE_TICKS: u64 = 200;
+
+// How long combat_event rows are kept before game_tick prunes them
+pub const COMBAT_EVENT_RETENTION_SECONDS: i64 = 10;
+
+// Health only regenerates once a player hasn't taken damage for this long
+pub const REGEN_OUT_OF_COMBAT_DELAY_MS: i64 = 5000;
+
+// Delay between death and respawn. The live value comes from server_config.respawn_delay_ms.
+pub const DEFAULT_RESPAWN_DELAY_MS: u64 = 5000;
+
+// Spawn points (x, z) seeded into the spawn_point table by init when it's empty.
+// Spread around the 40x40 ground grid so respawning players don't land on each other.
+pub const SPAWN_HEIGHT: f32 = 1.0;
+pub const DEFAULT_SPAWN_POINTS: [(f32, f32); 8] = [
+    (-2.5, 0.0),
+    (20.0, 20.0),
+    (-20.0, -20.0),
+    (20.0, -20.0),
+    (-20.0, 20.0),
+    (0.0, 30.0),
+    (0.0, -30.0),
+    (30.0, 0.0),
+];
+
+// Ground grid layout (centered on the origin). Mirrors GRID_* in
+// client/src/utils/gridChunks.ts - change both together.
+pub const GRID_ROWS: u32 = 40;
+pub const GRID_COLUMNS: u32 = 40;
+pub const GRID_SQUARE_SIZE: f32 = 2.2;
+pub const GRID_GAP: f32 = 0.15;
+// Squares per side of a grid_square chunk (clients subscribe to the chunks around them)
+pub const GRID_CHUNK_SIZE: u32 = 10;
+
+// Side of an area-of-interest cell in world units. Clients subscribe to the player
+// rows in the cells around their own. Mirrored in client/src/utils/interest.ts.
+pub const AOI_CELL_SIZE: f32 = 32.0;
+
+// Consecutive game ticks a player must stand on a square to capture it.
+// The live value comes from server_config.capture_ticks.
+pub const DEFAULT_CAPTURE_TICKS: u32 = 40; // 2 seconds at the default 20 Hz
+// How close a player must be to a square's center to mark it with toggle_grid_square
+pub const GRID_MARK_RANGE: f32 = 6.0;
+
+// Teams seeded into the team table by init when it's empty: (name, CSS color)
+pub const DEFAULT_TEAMS: [(&str, &str); 2] = [
+    ("Red", "#e74c3c"),
+    ("Blue", "#3498db"),
+];
+// team_id used when no teams exist
+pub const NO_TEAM: u32 = 0;
+// A requested team is honored unless it would end up this many players larger than the smallest team
+pub const MAX_TEAM_IMBALANCE: usize = 1;
+// Whether teammates can damage each other and capture each other's squares.
+// The live value comes from server_config.friendly_fire.
+pub const DEFAULT_FRIENDLY_FIRE: bool = false;
+
+// Match lifecycle states stored in game_match.state (lobby -> countdown -> in_progress -> finished -> new lobby)
+pub const MATCH_LOBBY: &str = "lobby";
+pub const MATCH_COUNTDOWN: &str = "countdown";
+pub const MATCH_IN_PROGRESS: &str = "in_progress";
+pub const MATCH_FINISHED: &str = "finished";
+
+// Match rule defaults. The live values come from server_config.
+pub const DEFAULT_MIN_PLAYERS: u32 = 2;
+pub const DEFAULT_COUNTDOWN_SECONDS: u32 = 10;
+pub const DEFAULT_ROUND_DURATION_SECONDS: u32 = 300;
+pub const DEFAULT_RESULTS_DURATION_SECONDS: u32 = 15;
+// A side wins early by owning this share of the grid or reaching this many kills (0 disables)
+pub const DEFAULT_WIN_TERRITORY_SHARE: f32 = 0.3;
+pub const DEFAULT_WIN_KILLS: u32 = 25;
+
+// Boards kept in the leaderboard_entry table. The match board ranks every active player;
+// the all-time boards keep the top LEADERBOARD_SIZE profiles.
+pub const LEADERBOARD_MATCH_SCORE: &str = "match_score";
+pub const LEADERBOARD_ALL_TIME_KILLS: &str = "all_time_kills";
+pub const LEADERBOARD_ALL_TIME_TERRITORY: &str = "all_time_territory";
+pub const LEADERBOARD_SIZE: usize = 10;
+// Leaderboards are recomputed every N game ticks (twice a second at the default 20 Hz)
+pub const LEADERBOARD_REFRESH_TICKS: u64 = 10;
+// Current-match score = kills * SCORE_PER_KILL + owned squares * SCORE_PER_SQUARE
+pub const SCORE_PER_KILL: u32 = 10;
+pub const SCORE_PER_SQUARE: u32 = 1;
+
+// Upper bound on the round-trip time clients may report with report_ping
+pub const MAX_REPORTED_PING_MS: u32 = 5000;
+
+// Chat channels stored in chat_message.channel and private_chat_message.channel
+pub const CHAT_GLOBAL: &str = "global";
+pub const CHAT_TEAM: &str = "team";
+pub const CHAT_WHISPER: &str = "whisper";
+
+// Chat limit defaults. The live values come from server_config.
+pub const DEFAULT_CHAT_MAX_LENGTH: u32 = 200; // Characters, after trimming
+pub const DEFAULT_CHAT_HISTORY_SIZE: u32 = 50; // Older chat_message rows (and private_chat_message rows, per reader) are deleted
+pub const DEFAULT_CHAT_RATE_LIMIT_MESSAGES: u32 = 5; // Messages allowed per window
+pub const DEFAULT_CHAT_RATE_LIMIT_WINDOW_SECONDS: u32 = 10;
+// Words seeded into chat_filter_word by init when it's empty; matches are masked with '*'
+pub const DEFAULT_CHAT_FILTER_WORDS: [&str; 4] = ["fuck", "shit", "bitch", "asshole"];
+
+// Emotes accepted by play_emote and how long each stays on the player (ms).
+// Keep in sync with EMOTES in client/src/utils/emotes.ts.
+pub const EMOTES: [(&str, u64); 6] = [
+    ("wave", 2500),
+    ("cheer", 3000),
+    ("laugh", 3000),
+    ("thumbs_up", 2000),
+    ("angry", 2500),
+    ("dance", 4000),
+];
+
+// Username rules enforced by register_player (see username_logic.rs).
+// Keep in sync with client/src/utils/username.ts.
+pub const USERNAME_MIN_LENGTH: usize = 3;
+pub const USERNAME_MAX_LENGTH: usize = 16;
+// Compared case-insensitively
+pub const RESERVED_USERNAMES: [&str; 8] = [
+    "admin", "administrator", "moderator", "server", "system", "spacetimedb", "null", "undefined",
+];
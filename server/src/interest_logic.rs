@@ -0,0 +1,89 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - interest_logic.rs
+ *
+ * This file contains the area-of-interest bookkeeping that lets clients
+ * subscribe to nearby players instead of the whole player table.
+ *
+ * Key components:
+ *
+ * 1. Spatial Cells:
+ *    - cell_of: The AOI_CELL_SIZE x AOI_CELL_SIZE cell (cell_x, cell_z) containing
+ *      a world position
+ *    - update_cell: Refreshes a player's cell_x/cell_z after its position changes;
+ *      called wherever the server moves a player (movement, respawn), so the
+ *      columns are always current when the row is written
+ *    - Clients subscribe to the player rows in the cells around their own
+ *      (client/src/utils/interest.ts) and re-scope when they cross a boundary
+ *
+ * 2. Player Summaries:
+ *    - sync_player_summaries: Called from game_tick. Mirrors the slow-changing
+ *      fields every client needs regardless of distance (name, team, color,
+ *      kills, deaths, ping, territory) into the public player_summary table. Rows are
+ *      only written when something changed, so position updates never reach
+ *      clients outside the area of interest
+ *
+ * Related files:
+ *    - lib.rs: PlayerData cell columns, PlayerSummary table and game_tick
+ *    - common.rs: AOI_CELL_SIZE
+ *    - player_logic.rs: Calls update_cell when moving and respawning players
+ */
+
+use std::collections::HashSet;
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{Vector3, AOI_CELL_SIZE};
+use crate::{PlayerData, PlayerSummary};
+// Import the table traits for ctx.db.player() and ctx.db.player_summary()
+use crate::{player, player_summary};
+
+pub fn cell_of(position: &Vector3) -> (i32, i32) {
+    (
+        (position.x / AOI_CELL_SIZE).floor() as i32,
+        (position.z / AOI_CELL_SIZE).floor() as i32,
+    )
+}
+
+pub fn update_cell(player: &mut PlayerData) {
+    let (cell_x, cell_z) = cell_of(&player.position);
+    player.cell_x = cell_x;
+    player.cell_z = cell_z;
+}
+
+fn summary_of(player: &PlayerData) -> PlayerSummary {
+    PlayerSummary {
+        identity: player.identity,
+        username: player.username.clone(),
+        character_class: player.character_class.clone(),
+        team_id: player.team_id,
+        color: player.color.clone(),
+        kills: player.kills,
+        deaths: player.deaths,
+        ping_ms: player.ping_ms,
+        squares_owned: player.squares_owned,
+    }
+}
+
+pub fn sync_player_summaries(ctx: &ReducerContext) {
+    let mut active: HashSet<Identity> = HashSet::new();
+    for player in ctx.db.player().iter() {
+        active.insert(player.identity);
+        let summary = summary_of(&player);
+        match ctx.db.player_summary().identity().find(player.identity) {
+            Some(existing) if existing == summary => {}
+            Some(_) => {
+                ctx.db.player_summary().identity().update(summary);
+            }
+            None => {
+                ctx.db.player_summary().insert(summary);
+            }
+        }
+    }
+
+    // Players who disconnected since the last tick
+    let departed: Vec<Identity> = ctx.db.player_summary().iter()
+        .map(|summary| summary.identity)
+        .filter(|identity| !active.contains(identity))
+        .collect();
+    for identity in departed {
+        ctx.db.player_summary().identity().delete(identity);
+    }
+}
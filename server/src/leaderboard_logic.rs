@@ -0,0 +1,118 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - leaderboard_logic.rs
+ *
+ * This file maintains the leaderboard_entry table from match and profile data.
+ * Clients only read the boards; ranking happens here.
+ *
+ * Key components:
+ *
+ * 1. Boards:
+ *    - LEADERBOARD_MATCH_SCORE: Every active player by current-match score
+ *      (kills and owned squares, see match_score)
+ *    - LEADERBOARD_ALL_TIME_KILLS / LEADERBOARD_ALL_TIME_TERRITORY: Top
+ *      LEADERBOARD_SIZE player_profile rows by lifetime kills / squares captured
+ *
+ * 2. Refresh:
+ *    - refresh_leaderboards: Called from game_tick every LEADERBOARD_REFRESH_TICKS;
+ *      only rows whose contents changed are written, so idle boards cause no updates
+ *
+ * Related files:
+ *    - lib.rs: LeaderboardEntry table, game_tick
+ *    - common.rs: Board names, size and scoring
+ *    - client/src/components/Scoreboard.tsx: Tab-held scoreboard overlay
+ */
+
+use std::collections::HashMap;
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{
+    NO_TEAM, LEADERBOARD_MATCH_SCORE, LEADERBOARD_ALL_TIME_KILLS, LEADERBOARD_ALL_TIME_TERRITORY,
+    LEADERBOARD_SIZE, SCORE_PER_KILL, SCORE_PER_SQUARE,
+};
+use crate::{LeaderboardEntry, PlayerProfile};
+// Import the table traits for ctx.db.leaderboard_entry(), ctx.db.player(), ...
+use crate::{leaderboard_entry, player, grid_square, player_profile};
+
+pub fn match_score(kills: u32, squares: u32) -> u32 {
+    kills * SCORE_PER_KILL + squares * SCORE_PER_SQUARE
+}
+
+struct Ranked {
+    identity: Identity,
+    username: String,
+    team_id: u32,
+    value: u32,
+}
+
+pub fn refresh_leaderboards(ctx: &ReducerContext) {
+    let mut owned_squares: HashMap<Identity, u32> = HashMap::new();
+    for square in ctx.db.grid_square().iter() {
+        if let Some(owner) = square.owner {
+            *owned_squares.entry(owner).or_insert(0) += 1;
+        }
+    }
+    let match_rows: Vec<Ranked> = ctx.db.player().iter()
+        .map(|player| Ranked {
+            identity: player.identity,
+            value: match_score(player.kills, owned_squares.get(&player.identity).copied().unwrap_or(0)),
+            username: player.username,
+            team_id: player.team_id,
+        })
+        .collect();
+    write_board(ctx, LEADERBOARD_MATCH_SCORE, match_rows, None);
+
+    let profiles: Vec<PlayerProfile> = ctx.db.player_profile().iter().collect();
+    write_board(ctx, LEADERBOARD_ALL_TIME_KILLS, all_time_rows(&profiles, |profile| profile.kills), Some(LEADERBOARD_SIZE));
+    write_board(ctx, LEADERBOARD_ALL_TIME_TERRITORY, all_time_rows(&profiles, |profile| profile.squares_captured), Some(LEADERBOARD_SIZE));
+}
+
+// Profiles with a non-zero stat. Teams change between matches, so all-time rows have none.
+fn all_time_rows(profiles: &[PlayerProfile], stat: impl Fn(&PlayerProfile) -> u32) -> Vec<Ranked> {
+    profiles.iter()
+        .filter(|profile| stat(profile) > 0)
+        .map(|profile| Ranked {
+            identity: profile.identity,
+            username: profile.username.clone(),
+            team_id: NO_TEAM,
+            value: stat(profile),
+        })
+        .collect()
+}
+
+// Rank rows (highest value first, ties by name) and store them as "{board}:{rank}" entries
+fn write_board(ctx: &ReducerContext, board: &str, mut rows: Vec<Ranked>, limit: Option<usize>) {
+    rows.sort_by(|a, b| b.value.cmp(&a.value).then_with(|| a.username.cmp(&b.username)));
+    if let Some(limit) = limit {
+        rows.truncate(limit);
+    }
+
+    for (index, row) in rows.iter().enumerate() {
+        let rank = index as u32 + 1;
+        let entry = LeaderboardEntry {
+            key: format!("{}:{}", board, rank),
+            board: board.to_string(),
+            rank,
+            identity: row.identity,
+            username: row.username.clone(),
+            team_id: row.team_id,
+            value: row.value,
+        };
+        match ctx.db.leaderboard_entry().key().find(&entry.key) {
+            Some(existing) if same_entry(&existing, &entry) => {}
+            Some(_) => { ctx.db.leaderboard_entry().key().update(entry); }
+            None => { ctx.db.leaderboard_entry().insert(entry); }
+        }
+    }
+
+    // Drop ranks the board no longer has (e.g. a player left)
+    let stale: Vec<String> = ctx.db.leaderboard_entry().iter()
+        .filter(|entry| entry.board == board && entry.rank as usize > rows.len())
+        .map(|entry| entry.key)
+        .collect();
+    for key in stale {
+        ctx.db.leaderboard_entry().key().delete(key);
+    }
+}
+
+fn same_entry(a: &LeaderboardEntry, b: &LeaderboardEntry) -> bool {
+    a.identity == b.identity && a.username == b.username && a.team_id == b.team_id && a.value == b.value
+}
@@ -4,17 +4,49 @@
  * Main entry point for the SpacetimeDB module. This file contains:
  * 
  * 1. Database Schema:
- *    - PlayerData: Active player information
+ *    - PlayerData: Active player information (with a spatial cell for area-of-interest subscriptions)
  *    - LoggedOutPlayerData: Persistent data for disconnected players
  *    - GameTickSchedule: Periodic update scheduling
- *    - GridSquareData: Data for grid squares
+ *    - GridSquareData: Data for grid squares (territory owner, marker and chunk)
+ *    - CaptureProgress: Ticks each player has spent on the square they're capturing
+ *    - ServerConfig: Runtime-tunable settings (tick interval, ...)
+ *    - GameTickState: Timing of the previous tick for real delta time
+ *    - CombatEvent: Recent hits, used by clients for damage feedback
+ *    - CombatState: Per-player cooldown and regeneration bookkeeping
+ *    - SpawnPoint: Locations players spawn and respawn at
+ *    - Team: Team names and colors players are balanced across
+ *    - GameMatch: Current match state (lobby, countdown, in progress, finished)
+ *    - MatchResult: Per-player results of the finished match
+ *    - PlayerProfile: Lifetime stats and play time per identity
+ *    - LeaderboardEntry: Ranked rows for the match and all-time leaderboards
+ *    - ChatMessage: Recent global chat history
+ *    - PrivateChatMessage: Recent team and whisper messages, one row per reader, each
+ *      visible only to its reader (client visibility filter)
+ *    - ChatRateLimit / ChatFilterWord: Private chat rate-limit windows and filtered words
+ *    - CharacterClass: Playable classes with health/mana, regeneration, speed and ability stats
+ *    - PlayerSummary: Name, team and stats of every active player, for clients that
+ *      only subscribe to nearby player rows
+ *    - SuspiciousActivity / MovementCheck: Private input-validation log for admins and
+ *      the last reported position used by the movement check
+ *    - RateLimitBudget / RateLimitBucket: Per-reducer call budgets and each identity's
+ *      token buckets
+ *    - Admin / Ban / ChatMute: Moderators, banned identities and muted players
  * 
  * 2. Reducer Functions (Server Endpoints):
  *    - init: Module initialization and game tick scheduling
- *    - identity_connected/disconnected: Connection lifecycle management
- *    - register_player: Player registration with username and character class
- *    - update_player_input: Processes player movement and state updates
- *    - game_tick: Periodic update for game state (scheduled)
+ *    - identity_connected/disconnected: Connection lifecycle management (banned identities are refused)
+ *    - register_player: Player registration with a validated, unique username, a known character class and optional team
+ *    - update_player_inputs: Validates a batch of fixed-rate input samples and queues it
+ *      for game_tick
+ *    - attack/cast_spell: Validated combat actions against another player
+ *    - report_ping: Client-measured round-trip time shown on the scoreboard
+ *    - send_chat_message: Rate-limited, filtered chat
+ *    - play_emote: Shows an emote above the player for its duration
+ *    - toggle_grid_square: Marks/unmarks a nearby square (ownership comes from capture)
+ *    - register_player through toggle_grid_square first spend a token from the caller's
+ *      rate_limit_bucket (rate_limit_logic::run_limited)
+ *    - kick_player/ban_player/mute_player/reset_grid/teleport_player: Admin-only moderation
+ *    - game_tick: Fixed-rate update for movement, regeneration, respawns, emote expiry, territory capture, the match lifecycle and player summaries
  * 
  * 3. Table Structure:
  *    - All tables use Identity as primary keys where appropriate
@@ -30,17 +62,52 @@
  * Related files:
  *    - common.rs: Shared data structures used in table definitions
  *    - player_logic.rs: Player movement and state update calculations
+ *    - combat_logic.rs: Combat stats, validation and damage
+ *    - territory_logic.rs: Grid geometry and territory capture
+ *    - team_logic.rs: Team assignment and friendly-fire rules
+ *    - match_logic.rs: Match lifecycle, win conditions and round resets
+ *    - profile_logic.rs: Lifetime stats and play time
+ *    - leaderboard_logic.rs: Leaderboard ranking and scoring
+ *    - chat_logic.rs: Chat validation, rate limiting and word filter
+ *    - username_logic.rs: Username rules for register_player
+ *    - class_logic.rs: Character class registry and defaults
+ *    - interest_logic.rs: Area-of-interest cells and player summaries
+ *    - anti_cheat_logic.rs: Input validation and the suspicious activity log
+ *    - rate_limit_logic.rs: Per-identity, per-reducer token buckets
+ *    - admin_logic.rs: Admin role and moderation
  */
 
 // Declare modules
 mod common;
 mod player_logic;
+mod combat_logic;
+mod territory_logic;
+mod team_logic;
+mod match_logic;
+mod profile_logic;
+mod leaderboard_logic;
+mod chat_logic;
+mod username_logic;
+mod class_logic;
+mod interest_logic;
+mod anti_cheat_logic;
+mod rate_limit_logic;
+mod admin_logic;
 
-use spacetimedb::{ReducerContext, Identity, Table, Timestamp, ScheduleAt};
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp, ScheduleAt, Filter};
 use std::time::Duration; // Import standard Duration
 
 // Use items from common module (structs are needed for table definitions)
-use crate::common::{Vector3, InputState};
+use crate::common::{
+    Vector3, InputState, AbilityStats, DEFAULT_TICK_INTERVAL_MS, MIN_TICK_INTERVAL_MS, MAX_TICK_INTERVAL_MS,
+    MAX_INPUT_BATCH_SIZE, DEFAULT_RESPAWN_DELAY_MS, DEFAULT_SPAWN_POINTS, SPAWN_HEIGHT,
+    DEFAULT_CAPTURE_TICKS, GRID_MARK_RANGE, DEFAULT_TEAMS, NO_TEAM, DEFAULT_FRIENDLY_FIRE,
+    DEFAULT_MIN_PLAYERS, DEFAULT_COUNTDOWN_SECONDS, DEFAULT_ROUND_DURATION_SECONDS,
+    DEFAULT_RESULTS_DURATION_SECONDS, DEFAULT_WIN_TERRITORY_SHARE, DEFAULT_WIN_KILLS,
+    LEADERBOARD_REFRESH_TICKS, RATE_LIMIT_PRUNE_TICKS, MAX_REPORTED_PING_MS, DEFAULT_CHAT_MAX_LENGTH, DEFAULT_CHAT_HISTORY_SIZE,
+    DEFAULT_CHAT_RATE_LIMIT_MESSAGES, DEFAULT_CHAT_RATE_LIMIT_WINDOW_SECONDS, DEFAULT_CHAT_FILTER_WORDS,
+};
+use crate::combat_logic::CombatAction;
 
 // --- Schema Definitions ---
 
@@ -63,9 +130,23 @@ pub struct PlayerData {
     is_attacking: bool,
     is_casting: bool,
     is_teleporting: bool,
+    is_dead: bool,
+    respawn_at: Option<Timestamp>, // Set while dead; game_tick respawns the player after this
     last_input_seq: u32,
-    input: InputState,
-    color: String,
+    input: InputState, // Held input, moving the player every game_tick
+    pending_inputs: Vec<InputState>, // Samples from update_player_inputs not yet simulated by game_tick
+    color: String, // Team color
+    team_id: u32, // NO_TEAM (0) if no teams exist
+    kills: u32, // Reset at the start of every round
+    deaths: u32,
+    ping_ms: u32, // Last round-trip time reported by the client
+    current_emote: Option<String>, // One of EMOTES, cleared by game_tick at emote_ends_at
+    emote_ends_at: Option<Timestamp>,
+    squares_owned: u32, // Grid squares this player owns (kept current by territory_logic)
+    #[index(btree)]
+    cell_x: i32, // Area-of-interest cell (see interest_logic::cell_of); clients subscribe per cell
+    #[index(btree)]
+    cell_z: i32,
 }
 
 #[spacetimedb::table(name = grid_square, public)]
@@ -73,8 +154,25 @@ pub struct PlayerData {
 pub struct GridSquareData {
     #[primary_key]
     key: String,
-    selected: bool,
+    #[index(btree)]
+    chunk_x: u32, // Chunk column (see territory_logic::square_chunk); clients subscribe per chunk
+    #[index(btree)]
+    chunk_z: u32,
+    selected: bool, // Marker toggled by nearby players; doesn't affect ownership
     last_modified_by: Identity,
+    owner: Option<Identity>, // Last player to capture the square
+    owner_team: u32, // Team of the owner at capture time (0 = no team)
+    captured_at: Option<Timestamp>,
+}
+
+// In-progress capture: the square a player is standing on and for how many ticks
+#[spacetimedb::table(name = capture_progress, public)]
+#[derive(Clone)]
+pub struct CaptureProgress {
+    #[primary_key]
+    identity: Identity,
+    square_key: String,
+    ticks: u32,
 }
 
 #[spacetimedb::table(name = logged_out_player)]
@@ -91,6 +189,7 @@ pub struct LoggedOutPlayerData {
     mana: i32,
     max_mana: i32,
     last_seen: Timestamp,
+    team_id: u32, // Preferred on rejoin if still balanced
 }
 
 #[spacetimedb::table(name = game_tick_schedule, public, scheduled(game_tick))]
@@ -101,32 +200,448 @@ pub struct GameTickSchedule {
     scheduled_at: ScheduleAt,
 }
 
+// Single-row table (id = 0) of settings that can be tuned per deployment
+// without republishing, e.g.:
+//   spacetime sql <db_name> "UPDATE server_config SET tick_interval_ms = 33 WHERE id = 0"
+// game_tick picks up a changed interval and reschedules itself.
+#[spacetimedb::table(name = server_config, public)]
+#[derive(Clone)]
+pub struct ServerConfig {
+    #[primary_key]
+    id: u32,
+    tick_interval_ms: u64,
+    respawn_delay_ms: u64,
+    capture_ticks: u32,
+    friendly_fire: bool,
+    min_players: u32,
+    countdown_seconds: u32,
+    round_duration_seconds: u32,
+    results_duration_seconds: u32,
+    win_territory_share: f32, // 0 disables the territory win
+    win_kills: u32, // 0 disables the kill win
+    chat_max_length: u32,
+    chat_history_size: u32,
+    chat_rate_limit_messages: u32,
+    chat_rate_limit_window_seconds: u32,
+}
+
+// Single-row table (id = 0) tracking when the last tick ran and at which interval
+#[spacetimedb::table(name = game_tick_state)]
+#[derive(Clone)]
+pub struct GameTickState {
+    #[primary_key]
+    id: u32,
+    last_tick: Timestamp,
+    applied_interval_ms: u64,
+    tick_count: u64,
+}
+
+// One row per successful hit. Pruned by game_tick after COMBAT_EVENT_RETENTION_SECONDS.
+#[spacetimedb::table(name = combat_event, public)]
+#[derive(Clone)]
+pub struct CombatEvent {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    attacker: Identity,
+    target: Identity,
+    kind: String, // "attack" or "spell"
+    damage: i32,
+    target_health: i32, // Target health after the hit
+    timestamp: Timestamp,
+}
+
+// Per-player cooldowns, out-of-combat timer and fractional regeneration carried between ticks
+#[spacetimedb::table(name = combat_state)]
+#[derive(Clone)]
+pub struct CombatState {
+    #[primary_key]
+    identity: Identity,
+    last_attack_at: Option<Timestamp>,
+    last_spell_at: Option<Timestamp>,
+    last_damaged_at: Option<Timestamp>,
+    health_regen_progress: f32, // Partial points not yet added to health
+    mana_regen_progress: f32,
+}
+
+// Locations players spawn and respawn at. init seeds DEFAULT_SPAWN_POINTS when empty;
+// edit with spacetime sql to change the layout.
+#[spacetimedb::table(name = spawn_point, public)]
+#[derive(Clone)]
+pub struct SpawnPoint {
+    #[primary_key]
+    #[auto_inc]
+    id: u32,
+    position: Vector3,
+}
+
+// Teams players are balanced across. init seeds DEFAULT_TEAMS (ids start at 1) when empty.
+#[spacetimedb::table(name = team, public)]
+#[derive(Clone)]
+pub struct Team {
+    #[primary_key]
+    #[auto_inc]
+    id: u32,
+    name: String,
+    color: String,
+}
+
+// Match lifecycle driven by game_tick (see match_logic.rs). The row with the highest id is
+// the current match; older rows are dropped when a new lobby opens.
+// Named game_match because `match` is a Rust keyword.
+#[spacetimedb::table(name = game_match, public)]
+#[derive(Clone)]
+pub struct GameMatch {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    state: String, // MATCH_LOBBY, MATCH_COUNTDOWN, MATCH_IN_PROGRESS or MATCH_FINISHED
+    phase_ends_at: Option<Timestamp>, // End of the countdown, round or results screen
+    started_at: Option<Timestamp>,
+    finished_at: Option<Timestamp>,
+    winner_team: u32, // NO_TEAM unless a team won
+    winner: Option<Identity>, // Set instead of winner_team when there are no teams
+    win_reason: String, // "territory", "kills", "time", "draw" or "abandoned" once finished
+}
+
+// One row per active player when a match finishes, shown on the results screen
+#[spacetimedb::table(name = match_result, public)]
+#[derive(Clone)]
+pub struct MatchResult {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    match_id: u64,
+    identity: Identity,
+    username: String,
+    team_id: u32,
+    kills: u32,
+    deaths: u32,
+    squares: u32,
+}
+
+// Lifetime stats per identity. Created on first connect and never reset (see profile_logic.rs).
+#[spacetimedb::table(name = player_profile, public)]
+#[derive(Clone)]
+pub struct PlayerProfile {
+    #[primary_key]
+    identity: Identity,
+    username: String, // Last name registered with
+    kills: u32,
+    deaths: u32,
+    squares_captured: u32,
+    matches_played: u32,
+    wins: u32,
+    total_play_seconds: u64, // Closed sessions only; add now - session_started_at for the live total
+    session_started_at: Option<Timestamp>, // Set while connected
+    created_at: Timestamp,
+}
+
+// One ranked row of a leaderboard, keyed "{board}:{rank}" (see leaderboard_logic.rs)
+#[spacetimedb::table(name = leaderboard_entry, public)]
+#[derive(Clone)]
+pub struct LeaderboardEntry {
+    #[primary_key]
+    key: String,
+    board: String, // LEADERBOARD_MATCH_SCORE, LEADERBOARD_ALL_TIME_KILLS or LEADERBOARD_ALL_TIME_TERRITORY
+    rank: u32, // 1-based
+    identity: Identity,
+    username: String,
+    team_id: u32, // NO_TEAM on the all-time boards
+    value: u32, // Score, kills or squares depending on the board
+}
+
+// Global chat history, pruned to server_config.chat_history_size (see chat_logic.rs)
+#[spacetimedb::table(name = chat_message, public)]
+#[derive(Clone)]
+pub struct ChatMessage {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    sender: Identity,
+    sender_name: String,
+    channel: String, // CHAT_GLOBAL, CHAT_TEAM or CHAT_WHISPER
+    team_id: u32, // Team channel only
+    recipient: Option<Identity>, // Whisper channel only
+    text: String, // Already filtered
+    sent_at: Timestamp,
+}
+
+// Team and whisper messages, copied once per reader and pruned to
+// server_config.chat_history_size per reader (see chat_logic.rs)
+#[spacetimedb::table(name = private_chat_message, public)]
+#[derive(Clone)]
+pub struct PrivateChatMessage {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    reader: Identity, // The only client this row is sent to
+    sender: Identity,
+    sender_name: String,
+    channel: String, // CHAT_TEAM or CHAT_WHISPER
+    team_id: u32, // Team channel only
+    recipient: Option<Identity>, // Whisper channel only
+    text: String, // Already filtered
+    sent_at: Timestamp,
+}
+
+// Clients only receive their own private_chat_message rows, whatever they subscribe to
+#[spacetimedb::client_visibility_filter]
+const PRIVATE_CHAT_MESSAGE_FILTER: Filter = Filter::Sql(
+    "SELECT * FROM private_chat_message WHERE reader = :sender"
+);
+
+// Per-identity chat rate-limit window
+#[spacetimedb::table(name = chat_rate_limit)]
+#[derive(Clone)]
+pub struct ChatRateLimit {
+    #[primary_key]
+    identity: Identity,
+    window_started_at: Timestamp,
+    count: u32,
+}
+
+// Playable classes, seeded from DEFAULT_CHARACTER_CLASSES (see class_logic.rs).
+// register_player only accepts classes listed here.
+#[spacetimedb::table(name = character_class, public)]
+#[derive(Clone)]
+pub struct CharacterClass {
+    #[primary_key]
+    name: String,
+    max_health: i32,
+    max_mana: i32,
+    health_regen_per_second: f32, // Only while out of combat
+    mana_regen_per_second: f32,
+    speed_multiplier: f32, // Times PLAYER_SPEED
+    sprint_multiplier: f32, // Times the class's walking speed
+    attack: AbilityStats,
+    spell: AbilityStats,
+}
+
+// Words masked in chat. Seeded from DEFAULT_CHAT_FILTER_WORDS; edit with `spacetime sql`.
+#[spacetimedb::table(name = chat_filter_word)]
+#[derive(Clone)]
+pub struct ChatFilterWord {
+    #[primary_key]
+    word: String, // Lowercase
+}
+
+// Fields of PlayerData every client needs, whatever its area of interest
+// (scoreboard, team sizes, whisper names, territory colors). Synced by game_tick.
+#[spacetimedb::table(name = player_summary, public)]
+#[derive(Clone, PartialEq)]
+pub struct PlayerSummary {
+    #[primary_key]
+    identity: Identity,
+    username: String,
+    character_class: String,
+    team_id: u32,
+    color: String,
+    kills: u32,
+    deaths: u32,
+    ping_ms: u32,
+    squares_owned: u32,
+}
+
+// Input validation violations for admins to review (see anti_cheat_logic.rs)
+#[spacetimedb::table(name = suspicious_activity)]
+#[derive(Clone)]
+pub struct SuspiciousActivity {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    #[index(btree)]
+    identity: Identity,
+    kind: String, // SUSPICIOUS_ROTATION, SUSPICIOUS_ANIMATION, SUSPICIOUS_SEQUENCE or SUSPICIOUS_MOVEMENT
+    detail: String,
+    recorded_at: Timestamp,
+}
+
+// Position the client reported with its last input batch, for the movement check
+#[spacetimedb::table(name = movement_check)]
+#[derive(Clone)]
+pub struct MovementCheck {
+    #[primary_key]
+    identity: Identity,
+    position: Vector3,
+    sequence: u32, // Newest input in that batch
+    checked_at: Timestamp,
+}
+
+// Token bucket size and refill rate per reducer, seeded from DEFAULT_RATE_LIMITS
+// (see rate_limit_logic.rs). Reducers without a row are not limited.
+#[spacetimedb::table(name = rate_limit_budget, public)]
+#[derive(Clone)]
+pub struct RateLimitBudget {
+    #[primary_key]
+    reducer: String,
+    capacity: f32, // Calls allowed in a burst
+    refill_per_second: f32,
+}
+
+// One identity's bucket for one reducer, keyed "{identity}:{reducer}"
+#[spacetimedb::table(name = rate_limit_bucket, public)]
+#[derive(Clone)]
+pub struct RateLimitBucket {
+    #[primary_key]
+    key: String,
+    #[index(btree)]
+    identity: Identity,
+    reducer: String,
+    tokens: f32, // As of updated_at; refills continuously up to the budget's capacity
+    updated_at: Timestamp,
+}
+
+// Identities allowed to call the moderation reducers (see admin_logic.rs).
+// init adds the module owner; add more with `spacetime sql`.
+#[spacetimedb::table(name = admin, public)]
+#[derive(Clone)]
+pub struct Admin {
+    #[primary_key]
+    identity: Identity,
+    added_at: Timestamp,
+}
+
+// Banned identities, rejected by identity_connected and register_player.
+// Unban with `spacetime sql` (DELETE FROM ban WHERE identity = ...).
+#[spacetimedb::table(name = ban)]
+#[derive(Clone)]
+pub struct Ban {
+    #[primary_key]
+    identity: Identity,
+    reason: String,
+    banned_by: Identity,
+    banned_at: Timestamp,
+}
+
+// Players who can't send chat messages until an admin unmutes them
+#[spacetimedb::table(name = chat_mute, public)]
+#[derive(Clone)]
+pub struct ChatMute {
+    #[primary_key]
+    identity: Identity,
+    muted_by: Identity,
+    muted_at: Timestamp,
+}
+
 // --- Lifecycle Reducers ---
 
 #[spacetimedb::reducer(init)]
 pub fn init(ctx: &ReducerContext) -> Result<(), String> {
     spacetimedb::log::info!("[INIT] Initializing Vibe Multiplayer module...");
-    if ctx.db.game_tick_schedule().count() == 0 {
-        spacetimedb::log::info!("[INIT] Scheduling initial game tick (every 1 second)...");
-        let loop_duration = Duration::from_secs(1);
-        let schedule = GameTickSchedule {
-            scheduled_id: 0,
-            scheduled_at: ScheduleAt::Interval(loop_duration.into()),
-        };
-        match ctx.db.game_tick_schedule().try_insert(schedule) {
-            Ok(row) => spacetimedb::log::info!("[INIT] Game tick schedule inserted successfully. ID: {}", row.scheduled_id),
-            Err(e) => spacetimedb::log::error!("[INIT] FAILED to insert game tick schedule: {}", e),
+
+    if ctx.db.server_config().id().find(0).is_none() {
+        ctx.db.server_config().insert(ServerConfig {
+            id: 0,
+            tick_interval_ms: DEFAULT_TICK_INTERVAL_MS,
+            respawn_delay_ms: DEFAULT_RESPAWN_DELAY_MS,
+            capture_ticks: DEFAULT_CAPTURE_TICKS,
+            friendly_fire: DEFAULT_FRIENDLY_FIRE,
+            min_players: DEFAULT_MIN_PLAYERS,
+            countdown_seconds: DEFAULT_COUNTDOWN_SECONDS,
+            round_duration_seconds: DEFAULT_ROUND_DURATION_SECONDS,
+            results_duration_seconds: DEFAULT_RESULTS_DURATION_SECONDS,
+            win_territory_share: DEFAULT_WIN_TERRITORY_SHARE,
+            win_kills: DEFAULT_WIN_KILLS,
+            chat_max_length: DEFAULT_CHAT_MAX_LENGTH,
+            chat_history_size: DEFAULT_CHAT_HISTORY_SIZE,
+            chat_rate_limit_messages: DEFAULT_CHAT_RATE_LIMIT_MESSAGES,
+            chat_rate_limit_window_seconds: DEFAULT_CHAT_RATE_LIMIT_WINDOW_SECONDS,
+        });
+    }
+
+    if ctx.db.team().count() == 0 {
+        for (name, color) in DEFAULT_TEAMS {
+            ctx.db.team().insert(Team {
+                id: 0,
+                name: name.to_string(),
+                color: color.to_string(),
+            });
+        }
+        spacetimedb::log::info!("[INIT] Seeded {} teams.", DEFAULT_TEAMS.len());
+    }
+
+    class_logic::seed_character_classes(ctx);
+    rate_limit_logic::seed_rate_limit_budgets(ctx);
+    admin_logic::seed_owner_admin(ctx);
+
+    if ctx.db.chat_filter_word().count() == 0 {
+        for word in DEFAULT_CHAT_FILTER_WORDS {
+            ctx.db.chat_filter_word().insert(ChatFilterWord { word: word.to_string() });
         }
+    }
+
+    if ctx.db.spawn_point().count() == 0 {
+        for (x, z) in DEFAULT_SPAWN_POINTS {
+            ctx.db.spawn_point().insert(SpawnPoint {
+                id: 0,
+                position: Vector3 { x, y: SPAWN_HEIGHT, z },
+            });
+        }
+        spacetimedb::log::info!("[INIT] Seeded {} spawn points.", DEFAULT_SPAWN_POINTS.len());
+    }
+    let tick_interval_ms = current_tick_interval_ms(ctx);
+
+    if ctx.db.game_tick_state().id().find(0).is_none() {
+        ctx.db.game_tick_state().insert(GameTickState {
+            id: 0,
+            last_tick: ctx.timestamp,
+            applied_interval_ms: tick_interval_ms,
+            tick_count: 0,
+        });
+    }
+
+    if ctx.db.game_tick_schedule().count() == 0 {
+        spacetimedb::log::info!("[INIT] Scheduling initial game tick (every {} ms)...", tick_interval_ms);
+        schedule_game_tick(ctx, tick_interval_ms);
     } else {
         spacetimedb::log::info!("[INIT] Game tick already scheduled.");
     }
     Ok(())
 }
 
+// Read the configured tick interval, clamped to a sane range
+fn current_tick_interval_ms(ctx: &ReducerContext) -> u64 {
+    ctx.db.server_config().id().find(0)
+        .map(|config| config.tick_interval_ms)
+        .unwrap_or(DEFAULT_TICK_INTERVAL_MS)
+        .clamp(MIN_TICK_INTERVAL_MS, MAX_TICK_INTERVAL_MS)
+}
+
+// Read the configured respawn delay
+fn current_respawn_delay_ms(ctx: &ReducerContext) -> u64 {
+    ctx.db.server_config().id().find(0)
+        .map(|config| config.respawn_delay_ms)
+        .unwrap_or(DEFAULT_RESPAWN_DELAY_MS)
+}
+
+// Replace any existing game tick schedule with one at the given interval
+fn schedule_game_tick(ctx: &ReducerContext, interval_ms: u64) {
+    for existing in ctx.db.game_tick_schedule().iter() {
+        ctx.db.game_tick_schedule().scheduled_id().delete(existing.scheduled_id);
+    }
+    let loop_duration = Duration::from_millis(interval_ms);
+    let schedule = GameTickSchedule {
+        scheduled_id: 0,
+        scheduled_at: ScheduleAt::Interval(loop_duration.into()),
+    };
+    match ctx.db.game_tick_schedule().try_insert(schedule) {
+        Ok(row) => spacetimedb::log::info!("Game tick scheduled every {} ms. ID: {}", interval_ms, row.scheduled_id),
+        Err(e) => spacetimedb::log::error!("FAILED to insert game tick schedule: {}", e),
+    }
+}
+
 #[spacetimedb::reducer(client_connected)]
-pub fn identity_connected(ctx: &ReducerContext) {
+pub fn identity_connected(ctx: &ReducerContext) -> Result<(), String> {
     spacetimedb::log::info!("Client connected: {}", ctx.sender);
+    // Failing here refuses the connection
+    if admin_logic::is_banned(ctx, ctx.sender) {
+        spacetimedb::log::info!("Refused connection from banned identity {}.", ctx.sender);
+        return Err("This identity is banned".to_string());
+    }
+    profile_logic::start_session(ctx, ctx.sender);
     // Player registration/re-joining happens in register_player reducer called by client
+    Ok(())
 }
 
 #[spacetimedb::reducer(client_disconnected)]
@@ -134,23 +649,10 @@ pub fn identity_disconnected(ctx: &ReducerContext) {
     let player_identity: Identity = ctx.sender;
     spacetimedb::log::info!("Client disconnected: {}", player_identity);
     let logout_time: Timestamp = ctx.timestamp;
+    profile_logic::end_session(ctx, player_identity);
 
     if let Some(player) = ctx.db.player().identity().find(player_identity) {
-        spacetimedb::log::info!("Moving player {} to logged_out_player table.", player_identity);
-        let logged_out_player = LoggedOutPlayerData {
-            identity: player.identity,
-            username: player.username.clone(),
-            character_class: player.character_class.clone(),
-            position: player.position.clone(),
-            rotation: player.rotation.clone(),
-            health: player.health,
-            max_health: player.max_health,
-            mana: player.mana,
-            max_mana: player.max_mana,
-            last_seen: logout_time,
-        };
-        ctx.db.logged_out_player().insert(logged_out_player);
-        ctx.db.player().identity().delete(player_identity);
+        player_logic::log_out_player(ctx, player, logout_time);
     } else {
         spacetimedb::log::warn!("Disconnect by player {} not found in active player table.", player_identity);
         if let Some(mut logged_out_player) = ctx.db.logged_out_player().identity().find(player_identity) {
@@ -164,41 +666,64 @@ pub fn identity_disconnected(ctx: &ReducerContext) {
 // --- Game Specific Reducers ---
 
 #[spacetimedb::reducer]
-pub fn register_player(ctx: &ReducerContext, username: String, character_class: String) {
+pub fn register_player(ctx: &ReducerContext, username: String, character_class: String, team_id: Option<u32>) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "register_player", || try_register_player(ctx, username, character_class, team_id))
+}
+
+fn try_register_player(ctx: &ReducerContext, username: String, character_class: String, team_id: Option<u32>) -> Result<(), String> {
     let player_identity: Identity = ctx.sender;
     spacetimedb::log::info!(
-        "Registering player {} ({}) with class {}",
+        "Registering player {} ({}) with class {} (team {:?})",
         username,
         player_identity,
-        character_class
+        character_class,
+        team_id
     );
 
+    if admin_logic::is_banned(ctx, player_identity) {
+        return Err("This identity is banned".to_string());
+    }
     if ctx.db.player().identity().find(player_identity).is_some() {
         spacetimedb::log::warn!("Player {} is already active.", player_identity);
-        return;
+        return Ok(());
     }
 
-    // Assign color and position based on current player count
-    let player_count = ctx.db.player().iter().count();
-    let colors = ["cyan", "magenta", "yellow", "lightgreen", "white", "orange"];
-    let assigned_color = colors[player_count % colors.len()].to_string();
-    // Simple horizontal offset for spawning, start Y at 1.0
-    let spawn_position = Vector3 { x: (player_count as f32 * 5.0) - 2.5, y: 1.0, z: 0.0 };
+    let username = username_logic::validate_username(ctx, player_identity, &username).map_err(|error| {
+        spacetimedb::log::info!("Rejected username for {}: {}", player_identity, error);
+        error.to_string()
+    })?;
+    let class = class_logic::find_class(ctx, &character_class)
+        .ok_or_else(|| format!("Unknown character class '{}'", character_class))?;
+
+    let logged_out = ctx.db.logged_out_player().identity().find(player_identity);
+    profile_logic::record_username(ctx, player_identity, &username);
+
+    // Balance teams; an explicit pick (or the team from a previous session) is kept if it's not full
+    let preferred_team = team_id.or_else(|| logged_out.as_ref().map(|p| p.team_id));
+    let (assigned_team_id, assigned_color) = match team_logic::choose_team(ctx, player_identity, preferred_team) {
+        Some(team) => (team.id, team.color),
+        None => (NO_TEAM, "white".to_string()),
+    };
+    let spawn_position = player_logic::choose_spawn_point(ctx, player_identity);
+    let (cell_x, cell_z) = interest_logic::cell_of(&spawn_position);
 
-    if let Some(logged_out_player) = ctx.db.logged_out_player().identity().find(player_identity) {
+    if let Some(logged_out_player) = logged_out {
         spacetimedb::log::info!("Player {} is rejoining.", player_identity);
         let default_input = InputState {
             forward: false, backward: false, left: false, right: false,
             sprint: false, jump: false, attack: false, cast_spell: false,
             sequence: 0
         };
+        // Players who logged out while dead come back alive
+        let health = if logged_out_player.health <= 0 { logged_out_player.max_health } else { logged_out_player.health };
+        // The name is the one just validated (and recorded in the profile), not the old session's
         let rejoining_player = PlayerData {
             identity: logged_out_player.identity,
-            username: logged_out_player.username.clone(),
+            username,
             character_class: logged_out_player.character_class.clone(),
             position: spawn_position,
             rotation: logged_out_player.rotation.clone(),
-            health: logged_out_player.health,
+            health,
             max_health: logged_out_player.max_health,
             mana: logged_out_player.mana,
             max_mana: logged_out_player.max_mana,
@@ -208,9 +733,21 @@ pub fn register_player(ctx: &ReducerContext, username: String, character_class:
             is_attacking: false,
             is_casting: false,
             is_teleporting: false,
+            is_dead: false,
+            respawn_at: None,
             last_input_seq: 0,
             input: default_input,
+            pending_inputs: Vec::new(),
             color: assigned_color,
+            team_id: assigned_team_id,
+            kills: 0, // Stats from a previous session don't carry over
+            deaths: 0,
+            ping_ms: 0,
+            current_emote: None,
+            emote_ends_at: None,
+            squares_owned: territory_logic::count_owned_squares(ctx, player_identity),
+            cell_x,
+            cell_z,
         };
         ctx.db.player().insert(rejoining_player);
         ctx.db.logged_out_player().identity().delete(player_identity);
@@ -227,42 +764,132 @@ pub fn register_player(ctx: &ReducerContext, username: String, character_class:
             character_class,
             position: spawn_position,
             rotation: Vector3 { x: 0.0, y: 0.0, z: 0.0 },
-            health: 100,
-            max_health: 100,
-            mana: 100,
-            max_mana: 100,
+            health: class.max_health,
+            max_health: class.max_health,
+            mana: class.max_mana,
+            max_mana: class.max_mana,
             current_animation: "idle".to_string(),
             is_moving: false,
             is_running: false,
             is_attacking: false,
             is_casting: false,
             is_teleporting: false,
+            is_dead: false,
+            respawn_at: None,
             last_input_seq: 0,
             input: default_input,
+            pending_inputs: Vec::new(),
             color: assigned_color,
+            team_id: assigned_team_id,
+            kills: 0,
+            deaths: 0,
+            ping_ms: 0,
+            current_emote: None,
+            emote_ends_at: None,
+            squares_owned: 0,
+            cell_x,
+            cell_z,
         });
     }
+    Ok(())
 }
 
+// Clients sample input at a fixed rate and send several changed samples per call
 #[spacetimedb::reducer]
-pub fn update_player_input(
+pub fn update_player_inputs(
+    ctx: &ReducerContext,
+    inputs: Vec<InputState>,
+    client_pos: Vector3,
+    client_rot: Vector3,
+    client_animation: String,
+) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "update_player_inputs", || {
+        apply_player_inputs(ctx, inputs, client_pos, client_rot, client_animation)
+    })
+}
+
+fn apply_player_inputs(
     ctx: &ReducerContext,
-    input: InputState,
-    _client_pos: Vector3,
+    inputs: Vec<InputState>,
+    client_pos: Vector3,
     client_rot: Vector3,
     client_animation: String,
-) {
+) -> Result<(), String> {
+    if inputs.is_empty() {
+        return Ok(());
+    }
+    if inputs.len() > MAX_INPUT_BATCH_SIZE {
+        return Err(format!("Input batch too large ({} inputs, max {})", inputs.len(), MAX_INPUT_BATCH_SIZE));
+    }
     if let Some(mut player) = ctx.db.player().identity().find(ctx.sender) {
-        player_logic::update_input_state(&mut player, input, client_rot, client_animation);
+        let validated = anti_cheat_logic::validate_input_batch(ctx, &player, inputs, client_pos, client_rot, client_animation);
+        player_logic::queue_input_batch(&mut player, validated.inputs, validated.rotation, validated.animation);
         ctx.db.player().identity().update(player);
     } else {
         spacetimedb::log::warn!("Player {} tried to update input but is not active.", ctx.sender);
     }
+    Ok(())
+}
+
+#[spacetimedb::reducer]
+pub fn attack(ctx: &ReducerContext, target_identity: Identity) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "attack", || {
+        combat_logic::perform_combat_action(ctx, target_identity, CombatAction::Attack)
+    })
 }
 
 #[spacetimedb::reducer]
-pub fn toggle_grid_square(ctx: &ReducerContext, square_key: String) {
+pub fn cast_spell(ctx: &ReducerContext, target_identity: Identity) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "cast_spell", || {
+        combat_logic::perform_combat_action(ctx, target_identity, CombatAction::Spell)
+    })
+}
+
+// Clients time this reducer's own round trip and report the previous measurement
+#[spacetimedb::reducer]
+pub fn report_ping(ctx: &ReducerContext, ping_ms: u32) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "report_ping", || {
+        let mut player = ctx.db.player().identity().find(ctx.sender)
+            .ok_or_else(|| "Player is not active".to_string())?;
+        let ping_ms = ping_ms.min(MAX_REPORTED_PING_MS);
+        if player.ping_ms != ping_ms {
+            player.ping_ms = ping_ms;
+            ctx.db.player().identity().update(player);
+        }
+        Ok(())
+    })
+}
+
+#[spacetimedb::reducer]
+pub fn send_chat_message(ctx: &ReducerContext, channel: String, text: String, recipient: Option<Identity>) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "send_chat_message", || {
+        chat_logic::send_chat_message(ctx, channel, text, recipient)
+    })
+}
+
+#[spacetimedb::reducer]
+pub fn play_emote(ctx: &ReducerContext, emote: String) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "play_emote", || player_logic::play_emote(ctx, emote))
+}
+
+#[spacetimedb::reducer]
+pub fn toggle_grid_square(ctx: &ReducerContext, square_key: String) -> Result<(), String> {
+    rate_limit_logic::run_limited(ctx, "toggle_grid_square", || try_toggle_grid_square(ctx, square_key))
+}
+
+fn try_toggle_grid_square(ctx: &ReducerContext, square_key: String) -> Result<(), String> {
     spacetimedb::log::info!("Player {} toggling grid square {}", ctx.sender, square_key);
+
+    // Only squares within reach of an active player can be marked
+    let player = ctx.db.player().identity().find(ctx.sender)
+        .ok_or_else(|| "Player is not active".to_string())?;
+    let center = territory_logic::square_center(&square_key)
+        .ok_or_else(|| format!("Invalid grid square {}", square_key))?;
+    let dx = center.x - player.position.x;
+    let dz = center.z - player.position.z;
+    if (dx * dx + dz * dz).sqrt() > GRID_MARK_RANGE {
+        return Err(format!("Grid square {} is out of reach", square_key));
+    }
     
     // Check if the square exists
     if let Some(mut square) = ctx.db.grid_square().key().find(&square_key) {
@@ -274,24 +901,108 @@ pub fn toggle_grid_square(ctx: &ReducerContext, square_key: String) {
         spacetimedb::log::info!("Square {} is now {}", square_key, if new_selected_state { "selected" } else { "deselected" });
     } else {
         // Create a new square record
+        let (chunk_x, chunk_z) = territory_logic::square_chunk(&square_key)
+            .ok_or_else(|| format!("Invalid grid square {}", square_key))?;
         let new_square = GridSquareData {
             key: square_key.clone(),
+            chunk_x,
+            chunk_z,
             selected: true,
             last_modified_by: ctx.sender,
+            owner: None,
+            owner_team: 0,
+            captured_at: None,
         };
         match ctx.db.grid_square().try_insert(new_square) {
             Ok(_) => spacetimedb::log::info!("New square {} created and selected", square_key),
             Err(e) => spacetimedb::log::error!("Error creating square {}: {}", square_key, e),
         }
     }
+    Ok(())
+}
+
+// --- Admin Reducers (see admin_logic.rs) ---
+
+#[spacetimedb::reducer]
+pub fn kick_player(ctx: &ReducerContext, target: Identity) -> Result<(), String> {
+    admin_logic::kick_player(ctx, target)
+}
+
+#[spacetimedb::reducer]
+pub fn ban_player(ctx: &ReducerContext, target: Identity, reason: String) -> Result<(), String> {
+    admin_logic::ban_player(ctx, target, reason)
+}
+
+#[spacetimedb::reducer]
+pub fn mute_player(ctx: &ReducerContext, target: Identity, muted: bool) -> Result<(), String> {
+    admin_logic::set_chat_muted(ctx, target, muted)
+}
+
+#[spacetimedb::reducer]
+pub fn reset_grid(ctx: &ReducerContext) -> Result<(), String> {
+    admin_logic::reset_grid(ctx)
+}
+
+#[spacetimedb::reducer]
+pub fn teleport_player(ctx: &ReducerContext, target: Identity, position: Vector3) -> Result<(), String> {
+    admin_logic::teleport_player(ctx, target, position)
 }
 
 #[spacetimedb::reducer(update)]
-pub fn game_tick(ctx: &ReducerContext, _tick_info: GameTickSchedule) {
-    // Just use a simple log message without timestamp conversion
-    let delta_time = 1.0; // Fixed 1-second tick for simplicity
-    
+pub fn game_tick(ctx: &ReducerContext, _tick_info: GameTickSchedule) -> Result<(), String> {
+    // Only the scheduler may run the simulation
+    if ctx.sender != ctx.identity() {
+        return Err("game_tick may only be invoked by the scheduler".to_string());
+    }
+
+    let tick_interval_ms = current_tick_interval_ms(ctx);
+    // Missing state (e.g. module republished over an older database) forces a reschedule below
+    let mut tick_state = ctx.db.game_tick_state().id().find(0).unwrap_or(GameTickState {
+        id: 0,
+        last_tick: ctx.timestamp,
+        applied_interval_ms: 0,
+        tick_count: 0,
+    });
+
+    let delta_time = player_logic::tick_delta(tick_state.last_tick, ctx.timestamp, tick_interval_ms, tick_state.tick_count);
+
     player_logic::update_players_logic(ctx, delta_time);
-    
-    spacetimedb::log::debug!("Game tick completed");
+    player_logic::respawn_dead_players(ctx);
+    player_logic::clear_expired_emotes(ctx);
+    // Territory only counts during a round; the match then checks its win conditions
+    if match_logic::is_round_in_progress(ctx) {
+        territory_logic::update_territory_capture(ctx);
+    }
+    match_logic::update_match(ctx);
+    combat_logic::prune_combat_events(ctx);
+    interest_logic::sync_player_summaries(ctx);
+
+    // Pick up tick interval changes made to server_config since the last tick
+    if tick_interval_ms != tick_state.applied_interval_ms {
+        spacetimedb::log::info!(
+            "Tick interval changed from {} ms to {} ms, rescheduling.",
+            tick_state.applied_interval_ms,
+            tick_interval_ms
+        );
+        schedule_game_tick(ctx, tick_interval_ms);
+        tick_state.applied_interval_ms = tick_interval_ms;
+    }
+
+    if tick_state.tick_count % LEADERBOARD_REFRESH_TICKS == 0 {
+        leaderboard_logic::refresh_leaderboards(ctx);
+    }
+    if tick_state.tick_count % RATE_LIMIT_PRUNE_TICKS == 0 {
+        rate_limit_logic::prune_rate_limit_buckets(ctx);
+    }
+
+    tick_state.last_tick = ctx.timestamp;
+    tick_state.tick_count += 1;
+    if ctx.db.game_tick_state().id().find(0).is_some() {
+        ctx.db.game_tick_state().id().update(tick_state);
+    } else {
+        ctx.db.game_tick_state().insert(tick_state);
+    }
+
+    spacetimedb::log::debug!("Game tick completed (dt = {:.3}s)", delta_time);
+    Ok(())
 }
@@ -0,0 +1,280 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - match_logic.rs
+ *
+ * This file contains the match lifecycle: lobby, countdown, timed rounds and
+ * results, advanced once per game_tick.
+ *
+ * Key components:
+ *
+ * 1. State Machine (update_match):
+ *    - lobby: Waits for server_config.min_players active players
+ *    - countdown: Starts the round when the countdown ends (back to lobby if
+ *      players leave)
+ *    - in_progress: Ends the round when a side reaches the territory share or
+ *      kill target, or when the round timer runs out
+ *    - finished: Shows results for results_duration_seconds, then opens a new lobby
+ *
+ * 2. Rounds:
+ *    - start_round: Clears grid ownership and capture progress, resets player
+ *      stats and respawns everyone
+ *    - finish_round: Records the winner on game_match, a match_result row per
+ *      active player and each player's match (and win) on their profile
+ *    - Sides are teams, or individual players if no teams exist
+ *
+ * Related files:
+ *    - lib.rs: GameMatch/MatchResult tables, game_tick
+ *    - common.rs: Match states and rule defaults
+ *    - combat_logic.rs / territory_logic.rs: Only active while a round is in progress
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
+use crate::common::{
+    GRID_ROWS, GRID_COLUMNS, NO_TEAM, MATCH_LOBBY, MATCH_COUNTDOWN, MATCH_IN_PROGRESS, MATCH_FINISHED,
+    DEFAULT_MIN_PLAYERS, DEFAULT_COUNTDOWN_SECONDS, DEFAULT_ROUND_DURATION_SECONDS,
+    DEFAULT_RESULTS_DURATION_SECONDS, DEFAULT_WIN_TERRITORY_SHARE, DEFAULT_WIN_KILLS,
+};
+use crate::{player_logic, profile_logic, territory_logic};
+use crate::{GameMatch, MatchResult, PlayerData, GridSquareData};
+// Import the table traits for ctx.db.game_match(), ctx.db.match_result(), ...
+use crate::{player, grid_square, capture_progress, game_match, match_result, team, server_config};
+
+struct MatchSettings {
+    min_players: u32,
+    countdown_seconds: u32,
+    round_duration_seconds: u32,
+    results_duration_seconds: u32,
+    win_territory_share: f32,
+    win_kills: u32,
+}
+
+fn match_settings(ctx: &ReducerContext) -> MatchSettings {
+    match ctx.db.server_config().id().find(0) {
+        Some(config) => MatchSettings {
+            min_players: config.min_players.max(1),
+            countdown_seconds: config.countdown_seconds,
+            round_duration_seconds: config.round_duration_seconds.max(1),
+            results_duration_seconds: config.results_duration_seconds,
+            win_territory_share: config.win_territory_share,
+            win_kills: config.win_kills,
+        },
+        None => MatchSettings {
+            min_players: DEFAULT_MIN_PLAYERS,
+            countdown_seconds: DEFAULT_COUNTDOWN_SECONDS,
+            round_duration_seconds: DEFAULT_ROUND_DURATION_SECONDS,
+            results_duration_seconds: DEFAULT_RESULTS_DURATION_SECONDS,
+            win_territory_share: DEFAULT_WIN_TERRITORY_SHARE,
+            win_kills: DEFAULT_WIN_KILLS,
+        },
+    }
+}
+
+fn seconds_after(timestamp: Timestamp, seconds: u32) -> Timestamp {
+    Timestamp::from_micros_since_unix_epoch(timestamp.to_micros_since_unix_epoch() + seconds as i64 * 1_000_000)
+}
+
+fn has_passed(ctx: &ReducerContext, at: &Option<Timestamp>) -> bool {
+    at.as_ref().map_or(true, |at| at.to_micros_since_unix_epoch() <= ctx.timestamp.to_micros_since_unix_epoch())
+}
+
+// The match with the highest id is the current one
+pub fn current_match(ctx: &ReducerContext) -> Option<GameMatch> {
+    ctx.db.game_match().iter().max_by_key(|game_match| game_match.id)
+}
+
+pub fn is_round_in_progress(ctx: &ReducerContext) -> bool {
+    current_match(ctx).map_or(false, |game_match| game_match.state == MATCH_IN_PROGRESS)
+}
+
+// Advance the match state machine (called from game_tick)
+pub fn update_match(ctx: &ReducerContext) {
+    let Some(mut current) = current_match(ctx) else {
+        open_lobby(ctx);
+        return;
+    };
+    let settings = match_settings(ctx);
+    let player_count = ctx.db.player().count() as u32;
+
+    match current.state.as_str() {
+        MATCH_LOBBY => {
+            if player_count >= settings.min_players {
+                current.state = MATCH_COUNTDOWN.to_string();
+                current.phase_ends_at = Some(seconds_after(ctx.timestamp, settings.countdown_seconds));
+                spacetimedb::log::info!("Match {} countdown started ({} players).", current.id, player_count);
+                ctx.db.game_match().id().update(current);
+            }
+        }
+        MATCH_COUNTDOWN => {
+            if player_count < settings.min_players {
+                current.state = MATCH_LOBBY.to_string();
+                current.phase_ends_at = None;
+                spacetimedb::log::info!("Match {} countdown cancelled, not enough players.", current.id);
+                ctx.db.game_match().id().update(current);
+            } else if has_passed(ctx, &current.phase_ends_at) {
+                start_round(ctx, current, &settings);
+            }
+        }
+        MATCH_IN_PROGRESS => {
+            if player_count == 0 {
+                finish_round(ctx, current, None, "abandoned", &settings);
+            } else if let Some((winner, reason)) = early_winner(ctx, &settings) {
+                finish_round(ctx, current, Some(winner), reason, &settings);
+            } else if has_passed(ctx, &current.phase_ends_at) {
+                let winner = leader(ctx);
+                let reason = if winner.is_some() { "time" } else { "draw" };
+                finish_round(ctx, current, winner, reason, &settings);
+            }
+        }
+        MATCH_FINISHED => {
+            if has_passed(ctx, &current.phase_ends_at) {
+                open_lobby(ctx);
+            }
+        }
+        other => {
+            spacetimedb::log::warn!("Match {} has unknown state '{}', opening a new lobby.", current.id, other);
+            open_lobby(ctx);
+        }
+    }
+}
+
+// Start a fresh lobby. Older matches and their results are no longer shown, so drop them.
+fn open_lobby(ctx: &ReducerContext) {
+    let old_matches: Vec<u64> = ctx.db.game_match().iter().map(|game_match| game_match.id).collect();
+    for id in old_matches {
+        ctx.db.game_match().id().delete(id);
+    }
+    let old_results: Vec<u64> = ctx.db.match_result().iter().map(|result| result.id).collect();
+    for id in old_results {
+        ctx.db.match_result().id().delete(id);
+    }
+
+    let lobby = ctx.db.game_match().insert(GameMatch {
+        id: 0,
+        state: MATCH_LOBBY.to_string(),
+        phase_ends_at: None,
+        started_at: None,
+        finished_at: None,
+        winner_team: NO_TEAM,
+        winner: None,
+        win_reason: String::new(),
+    });
+    spacetimedb::log::info!("Match {} lobby opened.", lobby.id);
+}
+
+fn start_round(ctx: &ReducerContext, mut current: GameMatch, settings: &MatchSettings) {
+    // Every round starts on an empty grid
+    territory_logic::reset_grid(ctx);
+
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+    for mut player in players {
+        player.kills = 0;
+        player.deaths = 0;
+        player_logic::respawn_player(ctx, &mut player);
+        ctx.db.player().identity().update(player);
+    }
+
+    current.state = MATCH_IN_PROGRESS.to_string();
+    current.started_at = Some(ctx.timestamp);
+    current.phase_ends_at = Some(seconds_after(ctx.timestamp, settings.round_duration_seconds));
+    spacetimedb::log::info!("Match {} started ({} s).", current.id, settings.round_duration_seconds);
+    ctx.db.game_match().id().update(current);
+}
+
+fn finish_round(ctx: &ReducerContext, mut current: GameMatch, winner: Option<Standing>, reason: &str, settings: &MatchSettings) {
+    let squares: Vec<GridSquareData> = ctx.db.grid_square().iter().collect();
+    let winner_team = winner.as_ref().map_or(NO_TEAM, |standing| standing.team_id);
+    let winner_player = winner.as_ref().and_then(|standing| standing.player);
+    for player in ctx.db.player().iter() {
+        let won = (winner_team != NO_TEAM && player.team_id == winner_team) || winner_player == Some(player.identity);
+        profile_logic::record_match(ctx, player.identity, won);
+        ctx.db.match_result().insert(MatchResult {
+            id: 0,
+            match_id: current.id,
+            identity: player.identity,
+            username: player.username.clone(),
+            team_id: player.team_id,
+            kills: player.kills,
+            deaths: player.deaths,
+            squares: squares.iter().filter(|square| square.owner == Some(player.identity)).count() as u32,
+        });
+    }
+    clear_capture_progress(ctx);
+
+    current.state = MATCH_FINISHED.to_string();
+    current.finished_at = Some(ctx.timestamp);
+    current.phase_ends_at = Some(seconds_after(ctx.timestamp, settings.results_duration_seconds));
+    current.winner_team = winner_team;
+    current.winner = winner_player;
+    current.win_reason = reason.to_string();
+    spacetimedb::log::info!(
+        "Match {} finished ({}): team {} / player {:?}",
+        current.id, reason, current.winner_team, current.winner
+    );
+    ctx.db.game_match().id().update(current);
+}
+
+fn clear_capture_progress(ctx: &ReducerContext) {
+    let capturing: Vec<Identity> = ctx.db.capture_progress().iter().map(|progress| progress.identity).collect();
+    for identity in capturing {
+        ctx.db.capture_progress().identity().delete(identity);
+    }
+}
+
+// Score of one side: a team, or a single player when no teams exist
+struct Standing {
+    team_id: u32,
+    player: Option<Identity>,
+    squares: u32,
+    kills: u32,
+}
+
+fn standings(ctx: &ReducerContext) -> Vec<Standing> {
+    let squares: Vec<GridSquareData> = ctx.db.grid_square().iter().filter(|square| square.owner.is_some()).collect();
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+
+    let mut sides: Vec<Standing> = if ctx.db.team().count() > 0 {
+        ctx.db.team().iter()
+            .map(|team| Standing {
+                team_id: team.id,
+                player: None,
+                squares: squares.iter().filter(|square| square.owner_team == team.id).count() as u32,
+                kills: players.iter().filter(|player| player.team_id == team.id).map(|player| player.kills).sum(),
+            })
+            .collect()
+    } else {
+        players.iter()
+            .map(|player| Standing {
+                team_id: NO_TEAM,
+                player: Some(player.identity),
+                squares: squares.iter().filter(|square| square.owner == Some(player.identity)).count() as u32,
+                kills: player.kills,
+            })
+            .collect()
+    };
+    // Best first: most squares, then most kills
+    sides.sort_by(|a, b| (b.squares, b.kills).cmp(&(a.squares, a.kills)));
+    sides
+}
+
+// A side that reached the territory share or kill target, best side first
+fn early_winner(ctx: &ReducerContext, settings: &MatchSettings) -> Option<(Standing, &'static str)> {
+    let total_squares = (GRID_ROWS * GRID_COLUMNS) as f32;
+    standings(ctx).into_iter().find_map(|standing| {
+        if settings.win_territory_share > 0.0 && standing.squares as f32 / total_squares >= settings.win_territory_share {
+            Some((standing, "territory"))
+        } else if settings.win_kills > 0 && standing.kills >= settings.win_kills {
+            Some((standing, "kills"))
+        } else {
+            None
+        }
+    })
+}
+
+// The best side when time runs out, or None on a tie for first place
+fn leader(ctx: &ReducerContext) -> Option<Standing> {
+    let mut sides = standings(ctx).into_iter();
+    let first = sides.next()?;
+    match sides.next() {
+        Some(second) if (second.squares, second.kills) == (first.squares, first.kills) => None,
+        _ => Some(first),
+    }
+}
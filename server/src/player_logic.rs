@@ -7,20 +7,41 @@
  * Key components:
  * 
  * 1. Movement Calculation:
- *    - calculate_new_position: Computes player movement based on grid coordinates
- *    - Instant teleportation to adjacent grid cells
- *    - Grid-based positioning system
+ *    - calculate_new_position: Integrates continuous movement from input and yaw
+ *    - Uses PLAYER_SPEED from common.rs scaled by the class's speed/sprint multipliers
+ *    - Mirrored on the client by calculateClientMovement in Player.tsx for prediction
  * 
- * 2. State Management:
- *    - update_input_state: Updates player state based on client input
- *    - Handles position, animation, and derived state (is_moving, is_running)
- *    - Translates raw input to game state
+ * 2. Input:
+ *    - queue_input_batch: Queues a batch from update_player_inputs on the player
+ *      (pending_inputs, at most MAX_PENDING_INPUTS) and applies its rotation and animation
+ *    - update_input_state: Makes a sample the held input (derived state like is_moving,
+ *      is_running and last_input_seq)
  * 
  * 3. Game Tick:
- *    - update_players_logic: Placeholder for periodic player updates
- *    - Currently empty as players are updated directly through input
+ *    - tick_delta: Real seconds since the previous tick, capped at MAX_TICK_DELTA_SECONDS
+ *    - update_players_logic: Movement and regeneration with the tick's real delta time
+ *    - simulate_inputs: Spends the delta on the queued samples in order, each held
+ *      for the input ticks until the next one (so a key pressed and released within
+ *      one batch still moves the player); the newest is held for the rest of the tick
+ *      and for later ticks until another batch arrives
+ *    - apply_regeneration: Per-class health/mana regen from character_class (health waits for
+ *      REGEN_OUT_OF_COMBAT_DELAY_MS after damage), clamped to max_health/max_mana
  *    - Can be extended for server-side simulation (AI, physics, etc.)
  * 
+ * 4. Death and Respawn:
+ *    - kill_player: Marks a player dead, locks input and plays the death animation
+ *    - respawn_dead_players: Called from game_tick once respawn_at has passed
+ *    - respawn_player: Full health/mana at a spawn point (also used at round start)
+ *    - choose_spawn_point: Picks the spawn_point furthest from living players
+ * 
+ * 5. Emotes:
+ *    - play_emote: Sets current_emote for the emote's duration (living players only)
+ *    - clear_expired_emotes: Called from game_tick once emote_ends_at has passed
+ * 
+ * 6. Logging Out:
+ *    - log_out_player: Moves an active player to logged_out_player (on disconnect
+ *      or when an admin kicks them) and drops their per-session rows
+ * 
  * Extension points:
  *    - Add terrain logic for different grid tiles
  *    - Implement server-side animation determination (commented example provided)
@@ -32,98 +53,55 @@
  *    - lib.rs: Calls into this module's functions from reducers
  */
 
-use spacetimedb::ReducerContext;
+use std::collections::HashMap;
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
 // Import common structs and constants
-use crate::common::{Vector3, InputState, PLAYER_SPEED, SPRINT_MULTIPLIER};
+use crate::common::{
+    Vector3, InputState, PLAYER_SPEED, SPAWN_HEIGHT, REGEN_OUT_OF_COMBAT_DELAY_MS, EMOTES,
+    CLIENT_INPUT_TICK_RATE, MAX_PENDING_INPUTS, MAX_TICK_DELTA_SECONDS,
+};
+use crate::combat_logic::{load_combat_state, save_combat_state};
+use crate::{class_logic, interest_logic};
 // Import the PlayerData struct definition (assuming it's in lib.rs or common.rs)
-use crate::PlayerData;
-
-// Grid cell size for movement
-const GRID_CELL_SIZE: f32 = 1.0;
-
-// Grid-based movement where players teleport one square at a time
-pub fn calculate_new_position(position: &Vector3, rotation: &Vector3, input: &InputState, _delta_time: f32) -> Vector3 {
-    let mut new_position = position.clone();
-    
-    // Determine primary movement direction based on input and rotation
-    // We'll only allow one direction of movement at a time for grid-based movement
-    
-    // Get the dominant input direction based on player's facing
-    // We need to determine which cardinal direction the player is primarily facing
-    let yaw = rotation.y;
-    let normalized_yaw = ((yaw % (2.0 * std::f32::consts::PI)) + 2.0 * std::f32::consts::PI) % (2.0 * std::f32::consts::PI);
-    
-    // Cardinal directions in radians (assuming standard orientation where 0 is +Z, and goes clockwise)
-    // In Three.js: 0 radians = looking down negative Z axis
-    // North = -Z, East = +X, South = +Z, West = -X
-    
-    if input.forward {
-        // Move in the direction the player is facing (rounded to nearest cardinal)
-        if normalized_yaw < std::f32::consts::PI * 0.25 || normalized_yaw > std::f32::consts::PI * 1.75 {
-            // Facing primarily North (-Z)
-            new_position.z -= GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 0.75 {
-            // Facing primarily East (+X)
-            new_position.x += GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 1.25 {
-            // Facing primarily South (+Z)
-            new_position.z += GRID_CELL_SIZE;
-        } else {
-            // Facing primarily West (-X)
-            new_position.x -= GRID_CELL_SIZE;
-        }
-    } else if input.backward {
-        // Move opposite to the direction the player is facing
-        if normalized_yaw < std::f32::consts::PI * 0.25 || normalized_yaw > std::f32::consts::PI * 1.75 {
-            // Facing primarily North, move South
-            new_position.z += GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 0.75 {
-            // Facing primarily East, move West
-            new_position.x -= GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 1.25 {
-            // Facing primarily South, move North
-            new_position.z -= GRID_CELL_SIZE;
-        } else {
-            // Facing primarily West, move East
-            new_position.x += GRID_CELL_SIZE;
-        }
-    } else if input.right {
-        // Move 90 degrees clockwise from the direction the player is facing
-        if normalized_yaw < std::f32::consts::PI * 0.25 || normalized_yaw > std::f32::consts::PI * 1.75 {
-            // Facing primarily North, move East
-            new_position.x += GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 0.75 {
-            // Facing primarily East, move South
-            new_position.z += GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 1.25 {
-            // Facing primarily South, move West
-            new_position.x -= GRID_CELL_SIZE;
-        } else {
-            // Facing primarily West, move North
-            new_position.z -= GRID_CELL_SIZE;
-        }
-    } else if input.left {
-        // Move 90 degrees counter-clockwise from the direction the player is facing
-        if normalized_yaw < std::f32::consts::PI * 0.25 || normalized_yaw > std::f32::consts::PI * 1.75 {
-            // Facing primarily North, move West
-            new_position.x -= GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 0.75 {
-            // Facing primarily East, move North
-            new_position.z -= GRID_CELL_SIZE;
-        } else if normalized_yaw < std::f32::consts::PI * 1.25 {
-            // Facing primarily South, move East
-            new_position.x += GRID_CELL_SIZE;
-        } else {
-            // Facing primarily West, move South
-            new_position.z += GRID_CELL_SIZE;
-        }
+use crate::{PlayerData, CharacterClass, LoggedOutPlayerData};
+// Import the table traits for ctx.db.player(), ctx.db.spawn_point(), ctx.db.character_class(), ...
+use crate::{player, spawn_point, character_class, logged_out_player, capture_progress, movement_check};
+
+// Continuous movement on the XZ plane relative to the player's yaw.
+// IMPORTANT: Keep in sync with calculateClientMovement in client/src/components/Player.tsx,
+// otherwise client prediction will drift from the server.
+pub fn calculate_new_position(position: &Vector3, rotation: &Vector3, input: &InputState, delta_time: f32, class: &CharacterClass) -> Vector3 {
+    // 1. Local movement vector from WASD (+Z is forward, +X is left)
+    let mut local_x: f32 = 0.0;
+    let mut local_z: f32 = 0.0;
+    if input.forward { local_z += 1.0; }
+    if input.backward { local_z -= 1.0; }
+    if input.left { local_x += 1.0; }
+    if input.right { local_x -= 1.0; }
+
+    if local_x == 0.0 && local_z == 0.0 {
+        return position.clone();
+    }
+
+    // Normalize so diagonal movement isn't faster
+    let length = (local_x * local_x + local_z * local_z).sqrt();
+    local_x /= length;
+    local_z /= length;
+
+    // 2. Rotate by yaw to get the world direction (same as THREE's applyAxisAngle around +Y)
+    let (sin_yaw, cos_yaw) = rotation.y.sin_cos();
+    let world_x = local_x * cos_yaw + local_z * sin_yaw;
+    let world_z = -local_x * sin_yaw + local_z * cos_yaw;
+
+    // 3. Scale by speed and delta time
+    let walk_speed = PLAYER_SPEED * class.speed_multiplier;
+    let speed = if input.sprint { walk_speed * class.sprint_multiplier } else { walk_speed };
+
+    Vector3 {
+        x: position.x + world_x * speed * delta_time,
+        y: position.y,
+        z: position.z + world_z * speed * delta_time,
     }
-    
-    // Snap to grid
-    new_position.x = (new_position.x / GRID_CELL_SIZE).round() * GRID_CELL_SIZE;
-    new_position.z = (new_position.z / GRID_CELL_SIZE).round() * GRID_CELL_SIZE;
-    
-    return new_position;
 }
 
 // Note: Animation determination is currently handled client-side
@@ -142,36 +120,450 @@ pub fn calculate_new_position(position: &Vector3, rotation: &Vector3, input: &In
 // }
 
 // Update player state based on input
-pub fn update_input_state(player: &mut PlayerData, input: InputState, client_rot: Vector3, client_animation: String) {
-    // Calculate new grid position based on input
-    let new_position = calculate_new_position(
-        &player.position,
-        &client_rot, // Use client rotation for direction calc
-        &input,
-        0.0 // Delta time not needed for grid movement
-    );
-
-    // Set is_teleporting flag to true to signal instant movement
-    // This will need to be added to the PlayerData struct in lib.rs
-    player.is_teleporting = true;
-    
-    // Update player state
-    player.position = new_position;
+// Position is integrated in update_players_logic, so this only records intent
+pub fn update_input_state(player: &mut PlayerData, input: InputState) {
+    // Dead players can't act; only acknowledge the sequence so client reconciliation stays in step
+    if player.is_dead {
+        player.last_input_seq = input.sequence;
+        return;
+    }
+
+    let is_moving = input.forward || input.backward || input.left || input.right;
+
+    player.is_moving = is_moving;
+    player.is_running = is_moving && input.sprint;
+    player.is_attacking = input.attack;
+    player.is_casting = input.cast_spell;
+    player.last_input_seq = input.sequence;
+    player.input = input; // Store the input that will drive movement on the next ticks
+}
+
+// Inputs arrive oldest first and are simulated by game_tick. Rotation and
+// animation were sampled with the newest input, so they apply right away.
+pub fn queue_input_batch(player: &mut PlayerData, inputs: Vec<InputState>, client_rot: Vector3, client_animation: String) {
+    if player.is_dead {
+        if let Some(newest) = inputs.into_iter().last() {
+            update_input_state(player, newest);
+        }
+        return;
+    }
+
+    player.is_teleporting = false;
     player.rotation = client_rot;
     player.current_animation = client_animation;
-    player.input = input.clone(); // Store the input that caused this state
-    player.last_input_seq = input.sequence;
-    
-    // Set is_moving to false since we're teleporting
+    player.pending_inputs.extend(inputs);
+    // A client sending faster than game_tick runs skips the oldest samples' movement
+    while player.pending_inputs.len() > MAX_PENDING_INPUTS {
+        let oldest = player.pending_inputs.remove(0);
+        update_input_state(player, oldest);
+    }
+}
+
+// Advance the player by `delta_time` seconds of server time. Each queued sample is
+// held until the next one's sequence (1 / CLIENT_INPUT_TICK_RATE per input tick,
+// but never past the end of this tick); the held input covers the rest.
+pub fn simulate_inputs(player: &mut PlayerData, delta_time: f32, class: &CharacterClass) {
+    let queued = std::mem::take(&mut player.pending_inputs);
+    let mut remaining = delta_time;
+    for (index, input) in queued.iter().enumerate() {
+        update_input_state(player, input.clone());
+        if let Some(next) = queued.get(index + 1) {
+            let held_seconds = (next.sequence.saturating_sub(input.sequence) as f32 / CLIENT_INPUT_TICK_RATE).min(remaining);
+            move_held_input(player, held_seconds, class);
+            remaining -= held_seconds;
+        }
+    }
+    move_held_input(player, remaining, class);
+    interest_logic::update_cell(player);
+}
+
+fn move_held_input(player: &mut PlayerData, seconds: f32, class: &CharacterClass) {
+    if player.is_dead || !player.is_moving || seconds <= 0.0 {
+        return;
+    }
+    player.position = calculate_new_position(&player.position, &player.rotation, &player.input, seconds, class);
+}
+
+// Regeneration rates in points per second, from the player's character_class row
+pub struct RegenStats {
+    pub health_per_second: f32,
+    pub mana_per_second: f32,
+}
+
+pub fn regen_stats(class: &CharacterClass) -> RegenStats {
+    RegenStats {
+        health_per_second: class.health_regen_per_second,
+        mana_per_second: class.mana_regen_per_second,
+    }
+}
+
+// Add this tick's regeneration to the player. Whole points are applied and the
+// remainder is carried in combat_state so low rates still work at high tick rates.
+// Returns true if health or mana changed.
+pub fn apply_regeneration(ctx: &ReducerContext, player: &mut PlayerData, class: &CharacterClass, delta_time: f64) -> bool {
+    if player.health >= player.max_health && player.mana >= player.max_mana {
+        return false;
+    }
+
+    let stats = regen_stats(class);
+    let mut state = load_combat_state(ctx, player.identity);
+    let now_micros = ctx.timestamp.to_micros_since_unix_epoch();
+    let out_of_combat = state.last_damaged_at.as_ref().map_or(true, |at| {
+        now_micros - at.to_micros_since_unix_epoch() >= REGEN_OUT_OF_COMBAT_DELAY_MS * 1000
+    });
+    let mut changed = false;
+
+    if player.health < player.max_health && out_of_combat {
+        state.health_regen_progress += stats.health_per_second * delta_time as f32;
+        let whole = state.health_regen_progress.floor();
+        if whole >= 1.0 {
+            player.health = (player.health + whole as i32).min(player.max_health);
+            state.health_regen_progress -= whole;
+            changed = true;
+        }
+    }
+    if player.health >= player.max_health {
+        state.health_regen_progress = 0.0;
+    }
+
+    if player.mana < player.max_mana {
+        state.mana_regen_progress += stats.mana_per_second * delta_time as f32;
+        let whole = state.mana_regen_progress.floor();
+        if whole >= 1.0 {
+            player.mana = (player.mana + whole as i32).min(player.max_mana);
+            state.mana_regen_progress -= whole;
+            changed = true;
+        }
+    }
+    if player.mana >= player.max_mana {
+        state.mana_regen_progress = 0.0;
+    }
+
+    save_combat_state(ctx, state);
+    changed
+}
+
+// Seconds of game time for this tick: the real time since the previous tick, capped
+// so a stall doesn't teleport players. The first tick (nothing to measure from) and
+// a clock that didn't advance fall back to the configured interval.
+pub fn tick_delta(last_tick: Timestamp, now: Timestamp, interval_ms: u64, tick_count: u64) -> f64 {
+    let elapsed_micros = now.to_micros_since_unix_epoch() - last_tick.to_micros_since_unix_epoch();
+    if tick_count == 0 || elapsed_micros <= 0 {
+        interval_ms as f64 / 1000.0
+    } else {
+        (elapsed_micros as f64 / 1_000_000.0).min(MAX_TICK_DELTA_SECONDS)
+    }
+}
+
+// Update players logic (called from game_tick)
+pub fn update_players_logic(ctx: &ReducerContext, delta_time: f64) {
+    // Collect first so we don't mutate the table while iterating it
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+    // A handful of rows, looked up once per tick instead of once per player
+    let classes: HashMap<String, CharacterClass> = ctx.db.character_class().iter()
+        .map(|class| (class.name.clone(), class))
+        .collect();
+
+    for mut player in players {
+        if player.is_dead {
+            continue;
+        }
+        let class = classes.get(&player.character_class).cloned()
+            .unwrap_or_else(|| class_logic::class_or_default(ctx, &player.character_class));
+        let mut changed = false;
+        if player.is_moving || !player.pending_inputs.is_empty() {
+            simulate_inputs(&mut player, delta_time as f32, &class);
+            changed = true;
+        }
+        if apply_regeneration(ctx, &mut player, &class, delta_time) {
+            changed = true;
+        }
+        if changed {
+            ctx.db.player().identity().update(player);
+        }
+    }
+}
+
+// Mark a player dead: input is locked (see update_input_state) until respawn_dead_players
+// brings them back after respawn_delay_ms
+pub fn kill_player(player: &mut PlayerData, now: Timestamp, respawn_delay_ms: u64) {
+    player.health = 0;
+    player.is_dead = true;
+    player.deaths += 1;
+    player.respawn_at = Some(Timestamp::from_micros_since_unix_epoch(
+        now.to_micros_since_unix_epoch() + respawn_delay_ms as i64 * 1000,
+    ));
+    player.current_animation = "death".to_string();
     player.is_moving = false;
     player.is_running = false;
-    
-    player.is_attacking = input.attack;
-    player.is_casting = input.cast_spell;
+    player.is_attacking = false;
+    player.is_casting = false;
+    player.current_emote = None;
+    player.emote_ends_at = None;
+    // Drop held and queued keys so the player doesn't keep walking after respawn
+    player.input = InputState { sequence: player.input.sequence, ..Default::default() };
+    player.pending_inputs.clear();
 }
 
-// Update players logic (called from game_tick)
-pub fn update_players_logic(_ctx: &ReducerContext, _delta_time: f64) {
-    // In the grid-based teleportation system, all movement is handled through keypresses
-    // This function is a placeholder for future expansion (e.g., AI movement on grid)
+// Pick the spawn point whose nearest living player is furthest away.
+// Falls back to the origin if no spawn points are configured.
+pub fn choose_spawn_point(ctx: &ReducerContext, for_identity: Identity) -> Vector3 {
+    let others: Vec<Vector3> = ctx.db.player().iter()
+        .filter(|other| other.identity != for_identity && !other.is_dead)
+        .map(|other| other.position)
+        .collect();
+
+    let mut best: Option<(f32, Vector3)> = None;
+    for spawn in ctx.db.spawn_point().iter() {
+        let nearest_sq = others.iter()
+            .map(|pos| {
+                let dx = pos.x - spawn.position.x;
+                let dz = pos.z - spawn.position.z;
+                dx * dx + dz * dz
+            })
+            .fold(f32::MAX, f32::min);
+        if best.as_ref().map_or(true, |(best_sq, _)| nearest_sq > *best_sq) {
+            best = Some((nearest_sq, spawn.position.clone()));
+        }
+    }
+
+    best.map(|(_, position)| position)
+        .unwrap_or(Vector3 { x: 0.0, y: SPAWN_HEIGHT, z: 0.0 })
+}
+
+// Bring back dead players whose respawn timer has elapsed (called from game_tick)
+pub fn respawn_dead_players(ctx: &ReducerContext) {
+    let now_micros = ctx.timestamp.to_micros_since_unix_epoch();
+    let due: Vec<PlayerData> = ctx.db.player().iter()
+        .filter(|player| player.is_dead)
+        .filter(|player| player.respawn_at.as_ref().map_or(true, |at| at.to_micros_since_unix_epoch() <= now_micros))
+        .collect();
+
+    for mut player in due {
+        respawn_player(ctx, &mut player);
+        spacetimedb::log::info!("Player {} respawned at ({}, {}).", player.identity, player.position.x, player.position.z);
+        ctx.db.player().identity().update(player);
+    }
+}
+
+// Saves what register_player restores on rejoin, then removes the active player
+pub fn log_out_player(ctx: &ReducerContext, player: PlayerData, logout_time: Timestamp) {
+    let player_identity = player.identity;
+    spacetimedb::log::info!("Moving player {} to logged_out_player table.", player_identity);
+    let logged_out_player = LoggedOutPlayerData {
+        identity: player.identity,
+        username: player.username.clone(),
+        character_class: player.character_class.clone(),
+        position: player.position.clone(),
+        rotation: player.rotation.clone(),
+        health: player.health,
+        max_health: player.max_health,
+        mana: player.mana,
+        max_mana: player.max_mana,
+        last_seen: logout_time,
+        team_id: player.team_id,
+    };
+    ctx.db.logged_out_player().insert(logged_out_player);
+    ctx.db.player().identity().delete(player_identity);
+    ctx.db.capture_progress().identity().delete(player_identity);
+    ctx.db.movement_check().identity().delete(player_identity);
+}
+
+// Revive (if needed) at full health and mana on a spawn point. The caller saves the row.
+pub fn respawn_player(ctx: &ReducerContext, player: &mut PlayerData) {
+    player.position = choose_spawn_point(ctx, player.identity);
+    interest_logic::update_cell(player);
+    player.health = player.max_health;
+    player.mana = player.max_mana;
+    player.is_dead = false;
+    player.respawn_at = None;
+    player.current_animation = "idle".to_string();
+    player.is_moving = false;
+    player.is_running = false;
+    player.input = InputState { sequence: player.input.sequence, ..Default::default() };
+    player.pending_inputs.clear();
+    player.is_teleporting = true; // Clients snap instead of smoothing to the new position
+}
+
+// Show an emote above the player; a new emote replaces the current one
+pub fn play_emote(ctx: &ReducerContext, emote: String) -> Result<(), String> {
+    let mut player = ctx.db.player().identity().find(ctx.sender)
+        .ok_or_else(|| "Player is not active".to_string())?;
+    if player.is_dead {
+        return Err("Dead players can't emote".to_string());
+    }
+    let (_, duration_ms) = EMOTES.iter()
+        .find(|(name, _)| *name == emote)
+        .ok_or_else(|| format!("Unknown emote '{}'", emote))?;
+
+    player.current_emote = Some(emote);
+    player.emote_ends_at = Some(Timestamp::from_micros_since_unix_epoch(
+        ctx.timestamp.to_micros_since_unix_epoch() + *duration_ms as i64 * 1000,
+    ));
+    ctx.db.player().identity().update(player);
+    Ok(())
+}
+
+// Clear emotes whose duration has elapsed (called from game_tick)
+pub fn clear_expired_emotes(ctx: &ReducerContext) {
+    let now_micros = ctx.timestamp.to_micros_since_unix_epoch();
+    let expired: Vec<PlayerData> = ctx.db.player().iter()
+        .filter(|player| player.current_emote.is_some())
+        .filter(|player| player.emote_ends_at.as_ref().map_or(true, |at| at.to_micros_since_unix_epoch() <= now_micros))
+        .collect();
+
+    for mut player in expired {
+        player.current_emote = None;
+        player.emote_ends_at = None;
+        ctx.db.player().identity().update(player);
+    }
+}
+
+#[cfg(test)]
+pub(crate) mod tests {
+    use super::*;
+
+    // An idle, living player at the origin facing +Z
+    pub(crate) fn test_player() -> PlayerData {
+        let class = class_logic::fallback_class();
+        PlayerData {
+            identity: Identity::ZERO,
+            username: "tester".to_string(),
+            character_class: class.name.clone(),
+            position: Vector3 { x: 0.0, y: 0.0, z: 0.0 },
+            rotation: Vector3 { x: 0.0, y: 0.0, z: 0.0 },
+            health: class.max_health,
+            max_health: class.max_health,
+            mana: class.max_mana,
+            max_mana: class.max_mana,
+            current_animation: "idle".to_string(),
+            is_moving: false,
+            is_running: false,
+            is_attacking: false,
+            is_casting: false,
+            is_teleporting: false,
+            is_dead: false,
+            respawn_at: None,
+            last_input_seq: 0,
+            input: InputState::default(),
+            pending_inputs: Vec::new(),
+            color: "white".to_string(),
+            team_id: 0,
+            kills: 0,
+            deaths: 0,
+            ping_ms: 0,
+            current_emote: None,
+            emote_ends_at: None,
+            squares_owned: 0,
+            cell_x: 0,
+            cell_z: 0,
+        }
+    }
+
+    fn forward(sequence: u32, pressed: bool) -> InputState {
+        InputState { forward: pressed, sequence, ..Default::default() }
+    }
+
+    fn queue(player: &mut PlayerData, inputs: Vec<InputState>) {
+        queue_input_batch(player, inputs, Vector3 { x: 0.0, y: 0.0, z: 0.0 }, "idle".to_string());
+    }
+
+    fn tick(player: &mut PlayerData, ticks: f32) {
+        simulate_inputs(player, ticks / CLIENT_INPUT_TICK_RATE, &class_logic::fallback_class());
+    }
+
+    // Distance walked forward in `ticks` input ticks
+    fn walked(ticks: f32) -> f32 {
+        PLAYER_SPEED * class_logic::fallback_class().speed_multiplier * ticks / CLIENT_INPUT_TICK_RATE
+    }
+
+    #[test]
+    fn inputs_wait_for_the_game_tick() {
+        let mut player = test_player();
+        queue(&mut player, vec![forward(10, true)]);
+        assert_eq!(player.position.z, 0.0);
+        assert_eq!(player.last_input_seq, 0);
+
+        tick(&mut player, 3.0);
+        assert!((player.position.z - walked(3.0)).abs() < 1e-4);
+        assert_eq!(player.last_input_seq, 10);
+        assert!(player.pending_inputs.is_empty());
+    }
+
+    #[test]
+    fn press_and_release_inside_one_batch_moves_the_player() {
+        let mut player = test_player();
+        // Forward pressed at tick 10 and released at tick 12, both sent in one batch
+        queue(&mut player, vec![forward(10, true), forward(12, false)]);
+        tick(&mut player, 3.0);
+
+        assert!((player.position.z - walked(2.0)).abs() < 1e-4);
+        assert_eq!(player.last_input_seq, 12);
+        assert!(!player.is_moving);
+    }
+
+    #[test]
+    fn held_input_keeps_moving_with_server_time() {
+        let mut player = test_player();
+        queue(&mut player, vec![forward(10, true)]);
+        tick(&mut player, 3.0);
+        tick(&mut player, 3.0);
+        assert!((player.position.z - walked(6.0)).abs() < 1e-4);
+        assert!(player.is_moving);
+    }
+
+    #[test]
+    fn movement_is_bounded_by_the_tick_delta() {
+        let mut player = test_player();
+        // A skipped stretch of sequence numbers doesn't add time: the tick only lasts 3 input ticks
+        queue(&mut player, vec![forward(10, true), forward(100, true), forward(200, false)]);
+        tick(&mut player, 3.0);
+        assert!((player.position.z - walked(3.0)).abs() < 1e-4);
+        assert_eq!(player.last_input_seq, 200);
+    }
+
+    #[test]
+    fn the_queue_is_bounded() {
+        let mut player = test_player();
+        let inputs: Vec<InputState> = (1..=(MAX_PENDING_INPUTS as u32 + 2)).map(|sequence| forward(sequence, true)).collect();
+        queue(&mut player, inputs);
+        assert_eq!(player.pending_inputs.len(), MAX_PENDING_INPUTS);
+        assert_eq!(player.last_input_seq, 2); // The two oldest were held without moving
+        assert_eq!(player.position.z, 0.0);
+    }
+
+    #[test]
+    fn dead_players_only_acknowledge_inputs() {
+        let mut player = test_player();
+        queue(&mut player, vec![forward(10, true)]);
+        tick(&mut player, 1.0);
+        kill_player(&mut player, Timestamp::from_micros_since_unix_epoch(0), 1000);
+        let position = player.position.clone();
+
+        queue(&mut player, vec![forward(12, true), forward(14, false)]);
+        tick(&mut player, 3.0);
+        assert_eq!(player.position, position);
+        assert_eq!(player.last_input_seq, 14);
+    }
+
+    fn at_millis(millis: i64) -> Timestamp {
+        Timestamp::from_micros_since_unix_epoch(millis * 1000)
+    }
+
+    #[test]
+    fn the_first_tick_uses_the_interval() {
+        assert_eq!(tick_delta(at_millis(0), at_millis(500), 50, 0), 0.05);
+    }
+
+    #[test]
+    fn a_clock_that_didnt_advance_uses_the_interval() {
+        assert_eq!(tick_delta(at_millis(1000), at_millis(1000), 50, 7), 0.05);
+        assert_eq!(tick_delta(at_millis(1000), at_millis(900), 50, 7), 0.05);
+    }
+
+    #[test]
+    fn the_real_delta_is_capped() {
+        assert!((tick_delta(at_millis(1000), at_millis(1060), 50, 7) - 0.06).abs() < 1e-9);
+        assert_eq!(tick_delta(at_millis(1000), at_millis(5000), 50, 7), MAX_TICK_DELTA_SECONDS);
+    }
 }
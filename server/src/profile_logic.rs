@@ -0,0 +1,94 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - profile_logic.rs
+ *
+ * This file keeps the persistent player_profile rows up to date. Unlike the
+ * player and logged_out_player tables, profiles are never reset by rounds or
+ * logouts, so lifetime stats survive between sessions.
+ *
+ * Key components:
+ *
+ * 1. Sessions:
+ *    - start_session / end_session: Called from identity_connected/disconnected;
+ *      the time between the two is added to total_play_seconds
+ *
+ * 2. Stats:
+ *    - record_kill: Attacker kill and target death (combat_logic.rs)
+ *    - record_capture: Square captured (territory_logic.rs)
+ *    - record_match: Match played and, for the winning side, a win (match_logic.rs)
+ *
+ * Related files:
+ *    - lib.rs: PlayerProfile table
+ *    - client/src/components/ProfileView.tsx: Shows the local player's profile
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::PlayerProfile;
+// Import the table trait for ctx.db.player_profile()
+use crate::player_profile;
+
+// Fetch a player's profile, or a fresh one if they have none yet
+pub fn load_profile(ctx: &ReducerContext, identity: Identity) -> PlayerProfile {
+    ctx.db.player_profile().identity().find(identity).unwrap_or(PlayerProfile {
+        identity,
+        username: String::new(),
+        kills: 0,
+        deaths: 0,
+        squares_captured: 0,
+        matches_played: 0,
+        wins: 0,
+        total_play_seconds: 0,
+        session_started_at: None,
+        created_at: ctx.timestamp,
+    })
+}
+
+pub fn save_profile(ctx: &ReducerContext, profile: PlayerProfile) {
+    if ctx.db.player_profile().identity().find(profile.identity).is_some() {
+        ctx.db.player_profile().identity().update(profile);
+    } else {
+        ctx.db.player_profile().insert(profile);
+    }
+}
+
+fn update_profile(ctx: &ReducerContext, identity: Identity, apply: impl FnOnce(&mut PlayerProfile)) {
+    let mut profile = load_profile(ctx, identity);
+    apply(&mut profile);
+    save_profile(ctx, profile);
+}
+
+pub fn start_session(ctx: &ReducerContext, identity: Identity) {
+    // A missed disconnect leaves the previous session open; count it up to now
+    end_session(ctx, identity);
+    update_profile(ctx, identity, |profile| profile.session_started_at = Some(ctx.timestamp));
+}
+
+pub fn end_session(ctx: &ReducerContext, identity: Identity) {
+    update_profile(ctx, identity, |profile| {
+        if let Some(started_at) = profile.session_started_at.take() {
+            let elapsed_micros = ctx.timestamp.to_micros_since_unix_epoch() - started_at.to_micros_since_unix_epoch();
+            profile.total_play_seconds += (elapsed_micros.max(0) / 1_000_000) as u64;
+        }
+    });
+}
+
+pub fn record_username(ctx: &ReducerContext, identity: Identity, username: &str) {
+    update_profile(ctx, identity, |profile| profile.username = username.to_string());
+}
+
+pub fn record_kill(ctx: &ReducerContext, attacker: Identity, target: Identity) {
+    update_profile(ctx, attacker, |profile| profile.kills += 1);
+    update_profile(ctx, target, |profile| profile.deaths += 1);
+}
+
+pub fn record_capture(ctx: &ReducerContext, identity: Identity) {
+    update_profile(ctx, identity, |profile| profile.squares_captured += 1);
+}
+
+pub fn record_match(ctx: &ReducerContext, identity: Identity, won: bool) {
+    update_profile(ctx, identity, |profile| {
+        profile.matches_played += 1;
+        if won {
+            profile.wins += 1;
+        }
+    });
+}
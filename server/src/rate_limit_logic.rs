@@ -0,0 +1,170 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - rate_limit_logic.rs
+ *
+ * This file contains the token-bucket rate limiter applied to every game reducer.
+ *
+ * Key components:
+ *
+ * 1. Budgets:
+ *    - rate_limit_budget: One row per reducer with a bucket capacity and a refill
+ *      rate in tokens per second, seeded from DEFAULT_RATE_LIMITS by init
+ *    - Edit with `spacetime sql`; deleting a reducer's row removes its limit
+ *
+ * 2. Buckets:
+ *    - check_rate_limit: Refills the caller's bucket for the time since its last
+ *      call, then spends one token or fails with an error saying when to retry
+ *    - Buckets are rate_limit_bucket rows keyed "{identity}:{reducer}", kept across
+ *      sessions so reconnecting doesn't refill them. A call refused for an empty
+ *      bucket leaves the row untouched
+ *    - prune_rate_limit_buckets: Called from game_tick; deletes buckets that have
+ *      refilled to capacity (the same as having no row)
+ *    - Clients subscribe to their own buckets to show budget usage (DebugPanel)
+ *
+ * 3. Limited Reducers:
+ *    - run_limited: Wraps each game reducer's body: spends a token, then runs the
+ *      body and returns its result. A body that fails rolls back the whole call,
+ *      its token included, so only calls that do something are counted
+ *
+ * Related files:
+ *    - lib.rs: RateLimitBudget and RateLimitBucket tables, the reducers that call run_limited
+ *    - common.rs: DEFAULT_RATE_LIMITS and RATE_LIMIT_PRUNE_TICKS
+ *    - chat_logic.rs: Chat's own messages-per-window limit, checked after this one
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
+use crate::common::DEFAULT_RATE_LIMITS;
+use crate::{RateLimitBudget, RateLimitBucket};
+// Import the table traits for ctx.db.rate_limit_budget() and ctx.db.rate_limit_bucket()
+use crate::{rate_limit_budget, rate_limit_bucket};
+
+pub fn seed_rate_limit_budgets(ctx: &ReducerContext) {
+    if ctx.db.rate_limit_budget().count() > 0 {
+        return;
+    }
+    for (reducer, capacity, refill_per_second) in DEFAULT_RATE_LIMITS.iter() {
+        ctx.db.rate_limit_budget().insert(RateLimitBudget {
+            reducer: reducer.to_string(),
+            capacity: *capacity,
+            refill_per_second: *refill_per_second,
+        });
+    }
+    spacetimedb::log::info!("[INIT] Seeded {} rate limit budgets.", DEFAULT_RATE_LIMITS.len());
+}
+
+fn bucket_key(identity: Identity, reducer: &str) -> String {
+    format!("{}:{}", identity, reducer)
+}
+
+fn seconds_between(earlier: Timestamp, later: Timestamp) -> f32 {
+    (later.to_micros_since_unix_epoch() - earlier.to_micros_since_unix_epoch()).max(0) as f32 / 1_000_000.0
+}
+
+// Tokens in a bucket `elapsed_seconds` after it held `tokens`
+fn refilled_tokens(budget: &RateLimitBudget, tokens: f32, elapsed_seconds: f32) -> f32 {
+    (tokens + elapsed_seconds * budget.refill_per_second).min(budget.capacity)
+}
+
+// Ok(tokens left after spending one), or the error for an empty bucket
+fn spend_token(budget: &RateLimitBudget, tokens: f32) -> Result<f32, String> {
+    if tokens >= 1.0 {
+        return Ok(tokens - 1.0);
+    }
+    if budget.refill_per_second <= 0.0 {
+        return Err(format!("Rate limit exceeded for {}", budget.reducer));
+    }
+    let wait_seconds = (1.0 - tokens) / budget.refill_per_second;
+    Err(format!("Rate limit exceeded for {}, try again in {:.1} s", budget.reducer, wait_seconds))
+}
+
+// Spends a token, then runs the reducer body; see "Limited Reducers" above
+pub fn run_limited<F>(ctx: &ReducerContext, reducer: &str, body: F) -> Result<(), String>
+where
+    F: FnOnce() -> Result<(), String>,
+{
+    check_rate_limit(ctx, reducer)?;
+    body()
+}
+
+fn check_rate_limit(ctx: &ReducerContext, reducer: &str) -> Result<(), String> {
+    let budget = match ctx.db.rate_limit_budget().reducer().find(&reducer.to_string()) {
+        Some(budget) => budget,
+        None => return Ok(()),
+    };
+
+    let key = bucket_key(ctx.sender, reducer);
+    let existing = ctx.db.rate_limit_bucket().key().find(&key);
+    let tokens = match &existing {
+        Some(bucket) => refilled_tokens(&budget, bucket.tokens, seconds_between(bucket.updated_at, ctx.timestamp)),
+        None => budget.capacity,
+    };
+    let tokens = spend_token(&budget, tokens)?;
+
+    let bucket = RateLimitBucket {
+        key,
+        identity: ctx.sender,
+        reducer: reducer.to_string(),
+        tokens,
+        updated_at: ctx.timestamp,
+    };
+    if existing.is_some() {
+        ctx.db.rate_limit_bucket().key().update(bucket);
+    } else {
+        ctx.db.rate_limit_bucket().insert(bucket);
+    }
+    Ok(())
+}
+
+// Called from game_tick every RATE_LIMIT_PRUNE_TICKS
+pub fn prune_rate_limit_buckets(ctx: &ReducerContext) {
+    let full: Vec<String> = ctx.db.rate_limit_bucket().iter()
+        .filter(|bucket| match ctx.db.rate_limit_budget().reducer().find(&bucket.reducer) {
+            Some(budget) => refilled_tokens(&budget, bucket.tokens, seconds_between(bucket.updated_at, ctx.timestamp)) >= budget.capacity,
+            None => true, // Budget removed, so the reducer is no longer limited
+        })
+        .map(|bucket| bucket.key)
+        .collect();
+    for key in full {
+        ctx.db.rate_limit_bucket().key().delete(&key);
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn budget(capacity: f32, refill_per_second: f32) -> RateLimitBudget {
+        RateLimitBudget { reducer: "attack".to_string(), capacity, refill_per_second }
+    }
+
+    #[test]
+    fn refill_is_capped_at_capacity() {
+        let budget = budget(10.0, 4.0);
+        assert_eq!(refilled_tokens(&budget, 2.0, 1.0), 6.0);
+        assert_eq!(refilled_tokens(&budget, 2.0, 60.0), 10.0);
+    }
+
+    #[test]
+    fn spending_takes_one_token() {
+        assert_eq!(spend_token(&budget(10.0, 4.0), 10.0), Ok(9.0));
+        assert_eq!(spend_token(&budget(10.0, 4.0), 1.0), Ok(0.0));
+    }
+
+    #[test]
+    fn empty_bucket_reports_the_wait() {
+        let error = spend_token(&budget(10.0, 4.0), 0.5).unwrap_err();
+        assert_eq!(error, "Rate limit exceeded for attack, try again in 0.1 s");
+        let error = spend_token(&budget(10.0, 0.0), 0.0).unwrap_err();
+        assert_eq!(error, "Rate limit exceeded for attack");
+    }
+
+    #[test]
+    fn a_burst_drains_the_bucket() {
+        let budget = budget(3.0, 1.0);
+        let mut tokens = budget.capacity;
+        for _ in 0..3 {
+            tokens = spend_token(&budget, tokens).unwrap();
+        }
+        assert!(spend_token(&budget, tokens).is_err());
+        assert!(spend_token(&budget, refilled_tokens(&budget, tokens, 1.0)).is_ok());
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - team_logic.rs
+ *
+ * This file contains team assignment and the friendly-fire rules shared by
+ * combat and territory capture.
+ *
+ * Key components:
+ *
+ * 1. Assignment:
+ *    - choose_team: Honors a requested team unless it would unbalance the
+ *      teams by more than MAX_TEAM_IMBALANCE, otherwise picks the smallest team
+ *
+ * 2. Friendly Fire:
+ *    - friendly_fire_enabled: Reads server_config.friendly_fire
+ *    - are_teammates: True for two players on the same (non-zero) team
+ *
+ * Related files:
+ *    - lib.rs: Team table, register_player
+ *    - combat_logic.rs / territory_logic.rs: Apply the friendly-fire rules
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{MAX_TEAM_IMBALANCE, NO_TEAM, DEFAULT_FRIENDLY_FIRE};
+use crate::{PlayerData, Team};
+// Import the table traits for ctx.db.player(), ctx.db.team(), ctx.db.server_config()
+use crate::{player, team, server_config};
+
+// Active players per team, not counting `exclude` (the player being assigned)
+fn team_sizes(ctx: &ReducerContext, exclude: Identity) -> Vec<(Team, usize)> {
+    let mut teams: Vec<Team> = ctx.db.team().iter().collect();
+    teams.sort_by_key(|team| team.id);
+    teams.into_iter()
+        .map(|team| {
+            let size = ctx.db.player().iter()
+                .filter(|player| player.team_id == team.id && player.identity != exclude)
+                .count();
+            (team, size)
+        })
+        .collect()
+}
+
+// Pick a team for a joining player. Returns None only if no teams exist.
+pub fn choose_team(ctx: &ReducerContext, player_identity: Identity, preferred_team: Option<u32>) -> Option<Team> {
+    let sizes = team_sizes(ctx, player_identity);
+    let smallest = sizes.iter().map(|(_, size)| *size).min()?;
+
+    if let Some(preferred_id) = preferred_team {
+        match sizes.iter().find(|(team, _)| team.id == preferred_id) {
+            Some((team, size)) if *size + 1 <= smallest + MAX_TEAM_IMBALANCE => return Some(team.clone()),
+            Some(_) => spacetimedb::log::info!("Team {} is full, auto-balancing {}", preferred_id, player_identity),
+            None => spacetimedb::log::warn!("Requested unknown team {}, auto-balancing {}", preferred_id, player_identity),
+        }
+    }
+
+    // Smallest team wins; ties go to the lowest id
+    sizes.into_iter()
+        .find(|(_, size)| *size == smallest)
+        .map(|(team, _)| team)
+}
+
+pub fn friendly_fire_enabled(ctx: &ReducerContext) -> bool {
+    ctx.db.server_config().id().find(0)
+        .map(|config| config.friendly_fire)
+        .unwrap_or(DEFAULT_FRIENDLY_FIRE)
+}
+
+pub fn are_teammates(a: &PlayerData, b: &PlayerData) -> bool {
+    a.team_id != NO_TEAM && a.team_id == b.team_id
+}
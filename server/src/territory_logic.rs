@@ -0,0 +1,213 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - territory_logic.rs
+ *
+ * This file contains the territory capture rules for the ground grid.
+ *
+ * Key components:
+ *
+ * 1. Grid Geometry:
+ *    - square_key_at / square_center: Map between world positions and
+ *      "square-{row}-{col}" keys using the GRID_* constants from common.rs
+ *    - square_chunk: The GRID_CHUNK_SIZE x GRID_CHUNK_SIZE chunk a square belongs
+ *      to. Stored on every grid_square row so clients can subscribe per chunk
+ *    - Must match GRID_* in client/src/utils/gridChunks.ts
+ *
+ * 2. Capture:
+ *    - update_territory_capture: Called from game_tick. Each living player
+ *      accumulates ticks on the square they stand on (capture_progress table);
+ *      after server_config.capture_ticks consecutive ticks the square's owner
+ *      becomes that player (and team)
+ *    - With friendly fire off, squares owned by teammates can't be captured
+ *    - Captures count towards the player's lifetime profile
+ *    - PlayerData.squares_owned is kept in step with ownership changes, so
+ *      clients don't need every grid_square row to show territory totals
+ *    - reset_grid: Clears squares, capture progress and territory counts
+ *
+ * Extension points:
+ *    - Contest rules (e.g. block capture while an enemy stands on the square)
+ *    - Scoring based on owned squares
+ *
+ * Related files:
+ *    - lib.rs: GridSquareData/CaptureProgress tables and toggle_grid_square
+ *    - common.rs: Grid dimensions and capture defaults
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{Vector3, GRID_ROWS, GRID_COLUMNS, GRID_SQUARE_SIZE, GRID_GAP, GRID_CHUNK_SIZE, DEFAULT_CAPTURE_TICKS, NO_TEAM};
+use crate::{PlayerData, GridSquareData, CaptureProgress};
+use crate::{team_logic, profile_logic};
+// Import the table traits for ctx.db.player(), ctx.db.grid_square(), ctx.db.capture_progress()
+use crate::{player, grid_square, capture_progress, server_config};
+
+// Distance between the starts of neighbouring squares
+const GRID_PITCH: f32 = GRID_SQUARE_SIZE + GRID_GAP;
+
+// The grid is centered on the origin, so its first square starts at -total/2
+fn grid_origin(count: u32) -> f32 {
+    -(count as f32 * GRID_SQUARE_SIZE + (count as f32 - 1.0) * GRID_GAP) / 2.0
+}
+
+pub fn square_key(row: u32, col: u32) -> String {
+    format!("square-{}-{}", row, col)
+}
+
+// Key of the square under a world position (gaps count towards the preceding square)
+pub fn square_key_at(position: &Vector3) -> Option<String> {
+    let col = ((position.x - grid_origin(GRID_COLUMNS)) / GRID_PITCH).floor();
+    let row = ((position.z - grid_origin(GRID_ROWS)) / GRID_PITCH).floor();
+    if col < 0.0 || row < 0.0 || col >= GRID_COLUMNS as f32 || row >= GRID_ROWS as f32 {
+        return None;
+    }
+    Some(square_key(row as u32, col as u32))
+}
+
+// Row and column of a square, or None if the key isn't a valid square
+fn square_coords(key: &str) -> Option<(u32, u32)> {
+    let mut parts = key.strip_prefix("square-")?.split('-');
+    let row: u32 = parts.next()?.parse().ok()?;
+    let col: u32 = parts.next()?.parse().ok()?;
+    if parts.next().is_some() || row >= GRID_ROWS || col >= GRID_COLUMNS {
+        return None;
+    }
+    Some((row, col))
+}
+
+// World-space center of a square, or None if the key isn't a valid square
+pub fn square_center(key: &str) -> Option<Vector3> {
+    let (row, col) = square_coords(key)?;
+    Some(Vector3 {
+        x: grid_origin(GRID_COLUMNS) + col as f32 * GRID_PITCH + GRID_SQUARE_SIZE / 2.0,
+        y: 0.0,
+        z: grid_origin(GRID_ROWS) + row as f32 * GRID_PITCH + GRID_SQUARE_SIZE / 2.0,
+    })
+}
+
+// (chunk_x, chunk_z) of a square: columns run along x, rows along z
+pub fn square_chunk(key: &str) -> Option<(u32, u32)> {
+    let (row, col) = square_coords(key)?;
+    Some((col / GRID_CHUNK_SIZE, row / GRID_CHUNK_SIZE))
+}
+
+// Empties the grid: every square, all capture progress and every player's
+// territory count (round start and the admin reset_grid reducer)
+pub fn reset_grid(ctx: &ReducerContext) {
+    let squares: Vec<String> = ctx.db.grid_square().iter().map(|square| square.key).collect();
+    for key in squares {
+        ctx.db.grid_square().key().delete(key);
+    }
+    let capturing: Vec<Identity> = ctx.db.capture_progress().iter().map(|progress| progress.identity).collect();
+    for identity in capturing {
+        ctx.db.capture_progress().identity().delete(identity);
+    }
+    let owners: Vec<PlayerData> = ctx.db.player().iter().filter(|player| player.squares_owned > 0).collect();
+    for mut player in owners {
+        player.squares_owned = 0;
+        ctx.db.player().identity().update(player);
+    }
+}
+
+// Squares currently owned by a player (used when they rejoin)
+pub fn count_owned_squares(ctx: &ReducerContext, identity: Identity) -> u32 {
+    ctx.db.grid_square().iter()
+        .filter(|square| square.owner == Some(identity))
+        .count() as u32
+}
+
+fn current_capture_ticks(ctx: &ReducerContext) -> u32 {
+    ctx.db.server_config().id().find(0)
+        .map(|config| config.capture_ticks)
+        .unwrap_or(DEFAULT_CAPTURE_TICKS)
+        .max(1)
+}
+
+// Advance capture progress for every living player (called from game_tick)
+pub fn update_territory_capture(ctx: &ReducerContext) {
+    let capture_ticks = current_capture_ticks(ctx);
+    let friendly_fire = team_logic::friendly_fire_enabled(ctx);
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+
+    for player in players {
+        let existing = ctx.db.capture_progress().identity().find(player.identity);
+        let square = if player.is_dead { None } else { square_key_at(&player.position) };
+
+        // Nothing to capture: off the grid, dead, or standing on our own (or, without
+        // friendly fire, our team's) square
+        let Some(key) = square.filter(|key| {
+            ctx.db.grid_square().key().find(key).map_or(true, |owned| {
+                let own_square = owned.owner == Some(player.identity);
+                let team_square = owned.owner.is_some()
+                    && player.team_id != NO_TEAM
+                    && owned.owner_team == player.team_id;
+                !own_square && (friendly_fire || !team_square)
+            })
+        }) else {
+            if existing.is_some() {
+                ctx.db.capture_progress().identity().delete(player.identity);
+            }
+            continue;
+        };
+
+        // Moving to a different square restarts the count
+        let ticks = match &existing {
+            Some(progress) if progress.square_key == key => progress.ticks + 1,
+            _ => 1,
+        };
+
+        if ticks >= capture_ticks {
+            capture_square(ctx, &player, &key);
+            ctx.db.capture_progress().identity().delete(player.identity);
+            continue;
+        }
+
+        let progress = CaptureProgress {
+            identity: player.identity,
+            square_key: key,
+            ticks,
+        };
+        if existing.is_some() {
+            ctx.db.capture_progress().identity().update(progress);
+        } else {
+            ctx.db.capture_progress().insert(progress);
+        }
+    }
+}
+
+fn capture_square(ctx: &ReducerContext, player: &PlayerData, key: &str) {
+    let previous_owner = if let Some(mut square) = ctx.db.grid_square().key().find(&key.to_string()) {
+        let previous_owner = square.owner;
+        square.owner = Some(player.identity);
+        square.owner_team = player.team_id;
+        square.captured_at = Some(ctx.timestamp);
+        ctx.db.grid_square().key().update(square);
+        previous_owner
+    } else {
+        let Some((chunk_x, chunk_z)) = square_chunk(key) else {
+            spacetimedb::log::warn!("Player {} stood on invalid square {}", player.identity, key);
+            return;
+        };
+        ctx.db.grid_square().insert(GridSquareData {
+            key: key.to_string(),
+            chunk_x,
+            chunk_z,
+            selected: false,
+            last_modified_by: player.identity,
+            owner: Some(player.identity),
+            owner_team: player.team_id,
+            captured_at: Some(ctx.timestamp),
+        });
+        None
+    };
+    adjust_squares_owned(ctx, Some(player.identity), 1);
+    adjust_squares_owned(ctx, previous_owner, -1);
+    profile_logic::record_capture(ctx, player.identity);
+    spacetimedb::log::info!("Player {} captured {}", player.identity, key);
+}
+
+// Logged-out owners are skipped; count_owned_squares catches them up when they rejoin
+fn adjust_squares_owned(ctx: &ReducerContext, owner: Option<Identity>, change: i32) {
+    let Some(mut player) = owner.and_then(|identity| ctx.db.player().identity().find(identity)) else {
+        return;
+    };
+    player.squares_owned = player.squares_owned.saturating_add_signed(change);
+    ctx.db.player().identity().update(player);
+}
@@ -0,0 +1,96 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - username_logic.rs
+ *
+ * This file contains the username rules enforced by register_player.
+ *
+ * Key components:
+ *
+ * 1. Validation:
+ *    - validate_username: Trims the name, then checks length
+ *      (USERNAME_MIN_LENGTH..=USERNAME_MAX_LENGTH), charset (letters, digits,
+ *      '_' and '-'), RESERVED_USERNAMES and uniqueness
+ *    - Uniqueness is case-insensitive across active and logged-out players,
+ *      ignoring the registering identity's own rows
+ *
+ * 2. Errors:
+ *    - UsernameError: One variant per rule. Reducers return it as
+ *      "<code>: <message>" so clients can tell rules apart (see
+ *      client/src/utils/username.ts)
+ *
+ * Related files:
+ *    - lib.rs: register_player
+ *    - common.rs: Length limits and reserved names
+ *    - client/src/components/JoinGameDialog.tsx: Shows the error inline
+ */
+
+use spacetimedb::{ReducerContext, Identity};
+use crate::common::{USERNAME_MIN_LENGTH, USERNAME_MAX_LENGTH, RESERVED_USERNAMES};
+// Import the table traits for ctx.db.player() and ctx.db.logged_out_player()
+use crate::{player, logged_out_player};
+
+pub enum UsernameError {
+    TooShort,
+    TooLong,
+    InvalidCharacters,
+    Reserved,
+    Taken,
+}
+
+impl UsernameError {
+    pub fn code(&self) -> &'static str {
+        match self {
+            UsernameError::TooShort => "username_too_short",
+            UsernameError::TooLong => "username_too_long",
+            UsernameError::InvalidCharacters => "username_invalid_characters",
+            UsernameError::Reserved => "username_reserved",
+            UsernameError::Taken => "username_taken",
+        }
+    }
+
+    pub fn message(&self) -> String {
+        match self {
+            UsernameError::TooShort => format!("Name must be at least {} characters", USERNAME_MIN_LENGTH),
+            UsernameError::TooLong => format!("Name must be at most {} characters", USERNAME_MAX_LENGTH),
+            UsernameError::InvalidCharacters => "Name may only contain letters, digits, '_' and '-'".to_string(),
+            UsernameError::Reserved => "That name is reserved".to_string(),
+            UsernameError::Taken => "That name is already taken".to_string(),
+        }
+    }
+}
+
+// Reducer error string: "<code>: <message>"
+impl std::fmt::Display for UsernameError {
+    fn fmt(&self, f: &mut std::fmt::Formatter<'_>) -> std::fmt::Result {
+        write!(f, "{}: {}", self.code(), self.message())
+    }
+}
+
+// Returns the trimmed username if it may be registered by `identity`
+pub fn validate_username(ctx: &ReducerContext, identity: Identity, username: &str) -> Result<String, UsernameError> {
+    let username = username.trim();
+    let length = username.chars().count();
+    if length < USERNAME_MIN_LENGTH {
+        return Err(UsernameError::TooShort);
+    }
+    if length > USERNAME_MAX_LENGTH {
+        return Err(UsernameError::TooLong);
+    }
+    if !username.chars().all(|c| c.is_ascii_alphanumeric() || c == '_' || c == '-') {
+        return Err(UsernameError::InvalidCharacters);
+    }
+
+    let lowercase = username.to_lowercase();
+    if RESERVED_USERNAMES.contains(&lowercase.as_str()) {
+        return Err(UsernameError::Reserved);
+    }
+
+    let taken_by_active = ctx.db.player().iter()
+        .any(|other| other.identity != identity && other.username.to_lowercase() == lowercase);
+    let taken_by_logged_out = ctx.db.logged_out_player().iter()
+        .any(|other| other.identity != identity && other.username.to_lowercase() == lowercase);
+    if taken_by_active || taken_by_logged_out {
+        return Err(UsernameError::Taken);
+    }
+
+    Ok(username.to_string())
+}